@@ -0,0 +1,408 @@
+/**
+ * Process-wide budget governor
+ *
+ * maxBudgetUsd is enforced by each CLI process on its own. A BudgetGovernor
+ * adds up the spend of every query registered with it (via the `budget`
+ * option) against an overall cap and per-key sub-budgets, e.g. one per
+ * tenant. Result messages carry the authoritative cost; between results,
+ * assistant-message usage is priced with an estimate so a long turn is
+ * stopped before its result arrives. Once a budget is spent, running
+ * queries under it are interrupted (or closed) and new ones are refused.
+ *
+ * Spend is only seen once the API has been called, so running queries can
+ * overshoot a budget. Two things bound it: each query()'s CLI gets its own
+ * maxBudgetUsd capped at what was left of the budget when it started, and
+ * the default estimate is rescaled per model to the costs the CLI reports,
+ * so stale list prices don't delay enforcement.
+ *
+ * @example
+ * ```typescript
+ * import { createBudgetGovernor, query } from 'open-claude-agent-sdk';
+ *
+ * const governor = createBudgetGovernor({ maxUsd: 50, budgets: { acme: 5 }, thresholds: [80] });
+ * governor.on('threshold', ({ key, percent }) => alert(`${key ?? 'total'} at ${percent}%`));
+ *
+ * query({ prompt: 'Hello', options: { budget: { governor, key: 'acme' } } });
+ * ```
+ */
+
+import { BudgetExceededError } from '../errors.ts';
+import type { ModelUsage, SDKAssistantMessage, SDKResultMessage } from '../types/index.ts';
+import type { QueryImpl } from './QueryImpl.ts';
+
+/** Token usage of one assistant message */
+export type AssistantUsage = SDKAssistantMessage['message']['usage'];
+
+export type BudgetGovernorOptions = {
+  /** Cap on the combined spend of every registered query, in USD */
+  maxUsd?: number;
+  /** Sub-budgets in USD by key (tenant, API key, ...). Keyed queries also count toward maxUsd. */
+  budgets?: Record<string, number>;
+  /** Percentages of a budget that emit a 'threshold' event when first crossed, e.g. [50, 80, 95] */
+  thresholds?: number[];
+  /** What happens to running queries under a spent budget. Default: 'interrupt' (the current turn) */
+  onExceeded?: 'interrupt' | 'close';
+  /**
+   * Price an assistant message's usage until its turn's result reports the
+   * real cost. Default: list prices by model family (opus, sonnet, haiku),
+   * scaled per model to match the costs in result messages once the CLI
+   * has reported one.
+   */
+  estimateUsd?: (model: string, usage: AssistantUsage) => number;
+};
+
+/** A budget crossed one of its thresholds (governor.on('threshold')) */
+export type BudgetThresholdEvent = {
+  /** Sub-budget key, or null for the overall cap */
+  key: string | null;
+  percent: number;
+  spentUsd: number;
+  limitUsd: number;
+};
+
+/** A budget was spent (governor.on('exceeded')) */
+export type BudgetExceededEvent = {
+  key: string | null;
+  spentUsd: number;
+  limitUsd: number;
+};
+
+export type BudgetEventMap = {
+  threshold: BudgetThresholdEvent;
+  exceeded: BudgetExceededEvent;
+};
+
+/** Spend and limit of one budget */
+export type BudgetUsage = {
+  spentUsd: number;
+  /** null when no limit is set */
+  limitUsd: number | null;
+  /** Per-model usage summed over the results seen so far */
+  modelUsage: Record<string, ModelUsage>;
+};
+
+/** A query's share of the spend */
+type Tracked = {
+  query: QueryImpl;
+  key: string | null;
+  /** total_cost_usd of the last result; the CLI's counter resets when it respawns */
+  lastReportedUsd: number;
+  lastModelUsage: Record<string, ModelUsage>;
+  /** Estimated cost of assistant messages since the last result, by API message id */
+  estimates: Map<string, number>;
+  /** Interrupted for the budget; cleared by the turn's result */
+  interrupted: boolean;
+};
+
+type Scope = {
+  limitUsd: number | null;
+  spentUsd: number;
+  modelUsage: Record<string, ModelUsage>;
+  crossed: Set<number>;
+  exceeded: boolean;
+};
+
+type Handler<E extends keyof BudgetEventMap> = (payload: BudgetEventMap[E]) => void;
+
+export class BudgetGovernor {
+  private overall: Scope;
+  private scopes = new Map<string, Scope>();
+  private live = new Set<Tracked>();
+  private handlers = new Map<keyof BudgetEventMap, Set<Handler<keyof BudgetEventMap>>>();
+  private thresholds: number[];
+  private estimateUsd: (model: string, usage: AssistantUsage) => number;
+  /** Reported cost per list-price USD, by model (default estimate only) */
+  private priceScale = new Map<string, number>();
+
+  constructor(private options: BudgetGovernorOptions = {}) {
+    for (const [key, limit] of Object.entries({ maxUsd: options.maxUsd, ...options.budgets })) {
+      if (limit !== undefined && !(limit >= 0)) {
+        throw new Error(`Budget '${key}' must be a non-negative number of USD, got ${limit}`);
+      }
+    }
+    this.overall = newScope(options.maxUsd ?? null);
+    for (const [key, limit] of Object.entries(options.budgets ?? {})) {
+      this.scopes.set(key, newScope(limit));
+    }
+    this.thresholds = [...(options.thresholds ?? [])].sort((a, b) => a - b);
+    this.estimateUsd =
+      options.estimateUsd ??
+      ((model, usage) => estimateListPriceUsd(model, usage) * (this.priceScale.get(model) ?? 1));
+  }
+
+  /** Spend so far, overall or for one key: settled results plus estimates for turns in progress */
+  spent(key?: string): number {
+    return (key === undefined ? this.overall : this.scopes.get(key))?.spentUsd ?? 0;
+  }
+
+  /** USD left before the budget is spent; Infinity without a limit */
+  remaining(key?: string): number {
+    const remaining = [this.remainingIn(this.overall)];
+    if (key !== undefined) remaining.push(this.remainingIn(this.scopes.get(key)));
+    return Math.max(0, Math.min(...remaining));
+  }
+
+  /** Spend, limit and model usage overall or for one key */
+  usage(key?: string): BudgetUsage {
+    const scope = key === undefined ? this.overall : this.scopes.get(key);
+    return {
+      spentUsd: scope?.spentUsd ?? 0,
+      limitUsd: scope?.limitUsd ?? null,
+      modelUsage: structuredClone(scope?.modelUsage ?? {}),
+    };
+  }
+
+  /** Register an event handler. Returns a function that removes it. */
+  on<E extends keyof BudgetEventMap>(event: E, handler: Handler<E>): () => void {
+    let set = this.handlers.get(event);
+    if (!set) {
+      set = new Set();
+      this.handlers.set(event, set);
+    }
+    set.add(handler as Handler<keyof BudgetEventMap>);
+    return () => this.off(event, handler);
+  }
+
+  off<E extends keyof BudgetEventMap>(event: E, handler: Handler<E>): void {
+    this.handlers.get(event)?.delete(handler as Handler<keyof BudgetEventMap>);
+  }
+
+  /**
+   * Refuse a new query when its budget is already spent.
+   *
+   * @throws {BudgetExceededError} If the overall cap or the key's budget is spent
+   * @internal
+   */
+  admit(key?: string): void {
+    for (const [scopeKey, scope] of this.scopesFor(key ?? null)) {
+      if (scope.limitUsd !== null && scope.spentUsd >= scope.limitUsd) {
+        throw new BudgetExceededError(scopeKey, scope.spentUsd, scope.limitUsd);
+      }
+    }
+  }
+
+  /**
+   * Cap the CLI's own maxBudgetUsd at what is left of the query's budget,
+   * so the CLI stops by itself even before the governor sees its spend.
+   * @internal
+   */
+  capOptions<T extends { maxBudgetUsd?: number }>(options: T, key?: string): T {
+    const remaining = this.remaining(key);
+    return remaining < (options.maxBudgetUsd ?? Number.POSITIVE_INFINITY)
+      ? { ...options, maxBudgetUsd: remaining }
+      : options;
+  }
+
+  /**
+   * Start tracking a query's spend until its stream ends.
+   * @internal
+   */
+  register(query: QueryImpl, key?: string): void {
+    const tracked: Tracked = {
+      query,
+      key: key ?? null,
+      lastReportedUsd: 0,
+      lastModelUsage: {},
+      estimates: new Map(),
+      interrupted: false,
+    };
+    if (tracked.key !== null && !this.scopes.has(tracked.key)) {
+      this.scopes.set(tracked.key, newScope(null));
+    }
+    this.live.add(tracked);
+    query.observe((msg) => {
+      if (msg.type === 'assistant') this.observeAssistant(tracked, msg);
+      else if (msg.type === 'result') this.observeResult(tracked, msg);
+    });
+    query.onEnd(() => this.live.delete(tracked));
+  }
+
+  private observeAssistant(tracked: Tracked, msg: SDKAssistantMessage): void {
+    // The CLI repeats an API message's usage on each assistant message it splits it into
+    const estimate = this.estimateUsd(msg.message.model, msg.message.usage);
+    const previous = tracked.estimates.get(msg.message.id) ?? 0;
+    tracked.estimates.set(msg.message.id, estimate);
+    this.charge(tracked, estimate - previous);
+  }
+
+  private observeResult(tracked: Tracked, msg: SDKResultMessage): void {
+    const reported = msg.total_cost_usd ?? 0;
+    // A smaller total means a respawned CLI started counting from zero
+    const restarted = reported < tracked.lastReportedUsd;
+    const settled = restarted ? reported : reported - tracked.lastReportedUsd;
+    const estimated = [...tracked.estimates.values()].reduce((sum, usd) => sum + usd, 0);
+    tracked.lastReportedUsd = reported;
+    tracked.estimates.clear();
+    tracked.interrupted = false;
+
+    const modelUsage = msg.modelUsage ?? {};
+    const previousUsage = restarted ? {} : tracked.lastModelUsage;
+    for (const scope of this.scopesFor(tracked.key).map(([, scope]) => scope)) {
+      addModelUsage(scope.modelUsage, modelUsage, previousUsage);
+    }
+    this.calibrate(modelUsage, previousUsage);
+    tracked.lastModelUsage = modelUsage;
+
+    this.charge(tracked, settled - estimated);
+  }
+
+  /** Rescale list prices to the cost the CLI reported for this turn's tokens */
+  private calibrate(
+    current: Record<string, ModelUsage>,
+    previous: Record<string, ModelUsage>
+  ): void {
+    if (this.options.estimateUsd) return;
+    for (const [model, usage] of Object.entries(current)) {
+      const before = previous[model];
+      const delta = (field: (typeof SUMMED_MODEL_USAGE_FIELDS)[number]) =>
+        usage[field] - (before?.[field] ?? 0);
+      const listUsd = estimateListPriceUsd(model, {
+        input_tokens: delta('inputTokens'),
+        output_tokens: delta('outputTokens'),
+        cache_read_input_tokens: delta('cacheReadInputTokens'),
+        cache_creation_input_tokens: delta('cacheCreationInputTokens'),
+      } as AssistantUsage);
+      const reportedUsd = delta('costUSD');
+      if (listUsd > 0 && reportedUsd > 0) this.priceScale.set(model, reportedUsd / listUsd);
+    }
+  }
+
+  /** Add a spend delta to the query's scopes, then fire events and enforce limits */
+  private charge(tracked: Tracked, deltaUsd: number): void {
+    for (const [key, scope] of this.scopesFor(tracked.key)) {
+      const before = scope.spentUsd;
+      scope.spentUsd = Math.max(0, before + deltaUsd);
+      if (scope.limitUsd === null) continue;
+
+      for (const percent of this.thresholds) {
+        if (scope.crossed.has(percent)) continue;
+        if (scope.spentUsd >= (scope.limitUsd * percent) / 100) {
+          scope.crossed.add(percent);
+          this.emit('threshold', {
+            key,
+            percent,
+            spentUsd: scope.spentUsd,
+            limitUsd: scope.limitUsd,
+          });
+        }
+      }
+
+      if (scope.spentUsd >= scope.limitUsd) {
+        if (!scope.exceeded) {
+          scope.exceeded = true;
+          this.emit('exceeded', { key, spentUsd: scope.spentUsd, limitUsd: scope.limitUsd });
+        }
+        this.enforce(key, scope);
+      }
+    }
+  }
+
+  /** Stop the running queries under a spent budget */
+  private enforce(key: string | null, scope: Scope): void {
+    for (const tracked of this.live) {
+      if (!tracked.query.isAlive()) {
+        this.live.delete(tracked);
+        continue;
+      }
+      if (key !== null && tracked.key !== key) continue;
+      if (this.options.onExceeded === 'close') {
+        this.live.delete(tracked);
+        tracked.query.closeWithError(
+          new BudgetExceededError(key, scope.spentUsd, scope.limitUsd as number)
+        );
+      } else if (!tracked.interrupted && tracked.estimates.size > 0) {
+        // Only a turn in progress has anything to interrupt
+        tracked.interrupted = true;
+        tracked.query.interrupt().catch(() => {});
+      }
+    }
+  }
+
+  private scopesFor(key: string | null): Array<[string | null, Scope]> {
+    const scopes: Array<[string | null, Scope]> = [[null, this.overall]];
+    const scope = key === null ? undefined : this.scopes.get(key);
+    if (key !== null && scope) scopes.push([key, scope]);
+    return scopes;
+  }
+
+  private remainingIn(scope: Scope | undefined): number {
+    if (!scope || scope.limitUsd === null) return Number.POSITIVE_INFINITY;
+    return scope.limitUsd - scope.spentUsd;
+  }
+
+  /** Call handlers in registration order; a throwing handler must not break accounting */
+  private emit<E extends keyof BudgetEventMap>(event: E, payload: BudgetEventMap[E]): void {
+    for (const handler of [...(this.handlers.get(event) ?? [])]) {
+      try {
+        handler(payload);
+      } catch (error: unknown) {
+        console.error(`[BudgetGovernor] '${event}' handler threw:`, error);
+      }
+    }
+  }
+}
+
+function newScope(limitUsd: number | null): Scope {
+  return { limitUsd, spentUsd: 0, modelUsage: {}, crossed: new Set(), exceeded: false };
+}
+
+/** Add the growth of a query's cumulative modelUsage since its previous result */
+function addModelUsage(
+  into: Record<string, ModelUsage>,
+  current: Record<string, ModelUsage>,
+  previous: Record<string, ModelUsage>
+): void {
+  for (const [model, usage] of Object.entries(current)) {
+    const before = previous[model];
+    const total = into[model] ?? { ...usage, ...ZERO_MODEL_USAGE };
+    for (const field of SUMMED_MODEL_USAGE_FIELDS) {
+      total[field] += usage[field] - (before?.[field] ?? 0);
+    }
+    total.contextWindow = usage.contextWindow;
+    total.maxOutputTokens = usage.maxOutputTokens;
+    into[model] = total;
+  }
+}
+
+const SUMMED_MODEL_USAGE_FIELDS = [
+  'inputTokens',
+  'outputTokens',
+  'cacheReadInputTokens',
+  'cacheCreationInputTokens',
+  'webSearchRequests',
+  'costUSD',
+] as const satisfies ReadonlyArray<keyof ModelUsage>;
+
+const ZERO_MODEL_USAGE = Object.fromEntries(
+  SUMMED_MODEL_USAGE_FIELDS.map((field) => [field, 0])
+) as Pick<ModelUsage, (typeof SUMMED_MODEL_USAGE_FIELDS)[number]>;
+
+/** USD per million input/output tokens, by model family; first match wins */
+const LIST_PRICES: Array<[RegExp, { input: number; output: number }]> = [
+  [/opus-4-[5-9]|opus-[5-9]/, { input: 5, output: 25 }],
+  [/opus/, { input: 15, output: 75 }],
+  [/haiku-4|haiku-[5-9]/, { input: 1, output: 5 }],
+  [/haiku/, { input: 0.8, output: 4 }],
+  [/./, { input: 3, output: 15 }],
+];
+
+/** Estimate from list prices; cache reads cost 0.1x and cache writes 1.25x the input price */
+function estimateListPriceUsd(model: string, usage: AssistantUsage): number {
+  const [, price] = LIST_PRICES.find(([pattern]) => pattern.test(model)) as [
+    RegExp,
+    { input: number; output: number },
+  ];
+  const inputTokens =
+    (usage.input_tokens ?? 0) +
+    (usage.cache_read_input_tokens ?? 0) * 0.1 +
+    (usage.cache_creation_input_tokens ?? 0) * 1.25;
+  return (inputTokens * price.input + (usage.output_tokens ?? 0) * price.output) / 1_000_000;
+}
+
+/**
+ * Create a budget governor. Queries join it with the `budget` option:
+ * `{ budget: { governor, key: 'tenant-a' } }`.
+ */
+export function createBudgetGovernor(options: BudgetGovernorOptions = {}): BudgetGovernor {
+  return new BudgetGovernor(options);
+}
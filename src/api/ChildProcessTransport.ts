@@ -0,0 +1,89 @@
+/**
+ * Child process transport
+ *
+ * Default CliTransport — speaks NDJSON over the stdin/stdout pipes of a
+ * locally spawned CLI process (see ProcessFactory).
+ */
+
+import type { ChildProcess } from 'node:child_process';
+import { createInterface } from 'node:readline';
+import type { Readable } from 'node:stream';
+import type { CliTransport } from '../types/index.ts';
+
+/**
+ * Iterate a byte stream line by line (NDJSON framing)
+ */
+export function readLines(stream: Readable): AsyncIterable<string> {
+  return createInterface({ input: stream, crlfDelay: Infinity });
+}
+
+export interface ChildProcessTransportOptions {
+  /** The process was spawned as the leader of its own process group (detached) */
+  processGroup?: boolean;
+}
+
+export class ChildProcessTransport implements CliTransport {
+  constructor(
+    private process: ChildProcess,
+    private options: ChildProcessTransportOptions = {}
+  ) {
+    if (!process.stdin || !process.stdout) {
+      throw new Error('Process stdin/stdout not available');
+    }
+  }
+
+  write(data: string): void {
+    // Writes after the CLI exited are dropped (the pipe is closed)
+    if (this.process.stdin?.writable) {
+      this.process.stdin.write(data);
+    }
+  }
+
+  readLines(): AsyncIterable<string> {
+    // biome-ignore lint/style/noNonNullAssertion: checked in constructor
+    return readLines(this.process.stdout!);
+  }
+
+  pause(): void {
+    this.process.stdout?.pause();
+  }
+
+  resume(): void {
+    this.process.stdout?.resume();
+  }
+
+  endInput(): void {
+    this.process.stdin?.end();
+  }
+
+  close(): void {
+    this.kill('SIGTERM');
+  }
+
+  /**
+   * Signal the CLI's whole process group when the SDK created it, so tool
+   * subprocesses (e.g. Bash commands) go down with it; otherwise the CLI
+   * process alone. Once the CLI has exited nothing is signalled, since its
+   * pid may already belong to an unrelated process.
+   */
+  kill(signal: NodeJS.Signals): void {
+    if (this.process.exitCode !== null || this.process.signalCode !== null) return;
+    const pid = this.process.pid;
+    if (this.options.processGroup && pid !== undefined && process.platform !== 'win32') {
+      try {
+        process.kill(-pid, signal);
+        return;
+      } catch {
+        // No such group: every member already exited
+      }
+    }
+    this.process.kill(signal);
+  }
+
+  on(event: 'exit', listener: (code: number | null, signal: NodeJS.Signals | null) => void): void;
+  on(event: 'error', listener: (error: Error) => void): void;
+  // biome-ignore lint/suspicious/noExplicitAny: overload implementation signature
+  on(event: 'exit' | 'error', listener: (...args: any[]) => void): void {
+    this.process.on(event, listener);
+  }
+}
@@ -3,37 +3,49 @@
  *
  * Handles sending control requests to CLI stdin and correlating
  * responses back to waiting promises. Manages the init handshake
- * and all subsequent request/response pairs.
+ * and all subsequent request/response pairs. Every request can be
+ * bounded by a timeout and cancelled through an AbortSignal.
  *
  * @internal
  */
 
-import type { Writable } from 'node:stream';
 import type { OutboundControlRequest } from '../core/control.ts';
-import { MessageType, ResponseSubtype } from '../types/control.ts';
-import type { SDKControlInitializeResponse } from '../types/index.ts';
+import type { StatsCollector } from '../core/stats.ts';
+import { AbortError, ControlRequestError, InitializationError } from '../errors.ts';
+import { MessageType, type NdjsonWriter, ResponseSubtype } from '../types/control.ts';
+import type { ControlRequestOptions, SDKControlInitializeResponse } from '../types/index.ts';
 import type { ControlResponsePayload } from './MessageRouter.ts';
 
 export class ControlRequestManager {
   private closed = false;
   private pendingResponses = new Map<
     string,
-    // biome-ignore lint/suspicious/noExplicitAny: response shape varies by request type
-    { resolve: (value: any) => void; reject: (reason: Error) => void }
+    {
+      subtype: string;
+      sentAt: number;
+      // biome-ignore lint/suspicious/noExplicitAny: response shape varies by request type
+      resolve: (value: any) => void;
+      reject: (reason: Error) => void;
+    }
   >();
 
   private initResolve!: (value: SDKControlInitializeResponse) => void;
   private initReject!: (reason: Error) => void;
   private initResponsePromise: Promise<SDKControlInitializeResponse>;
   private _initRequestId = '';
+  private initPending = false;
+  private requestCounter = 0;
 
-  constructor(private stdin: Writable | null) {
-    this.initResponsePromise = new Promise<SDKControlInitializeResponse>((resolve, reject) => {
-      this.initResolve = resolve;
-      this.initReject = reject;
-    });
-    // Prevent unhandled rejection if rejectAll() is called before anyone awaits
-    this.initResponsePromise.catch(() => {});
+  /**
+   * @param defaultTimeoutMs Timeout for requests that don't set their own
+   * @param stats Receives round-trip latencies of answered requests
+   */
+  constructor(
+    private stdin: NdjsonWriter | null,
+    private defaultTimeoutMs?: number,
+    private stats?: StatsCollector
+  ) {
+    this.initResponsePromise = this.createInitPromise();
   }
 
   get initRequestId(): string {
@@ -49,23 +61,63 @@ export class ControlRequestManager {
     this.stdin?.write(`${JSON.stringify(msg)}\n`);
   }
 
-  /** Send a fire-and-forget control request */
-  sendControlRequest(request: OutboundControlRequest): void {
-    if (this.closed) return;
-    this.writeToStdin(this.buildControlRequest(request));
-  }
-
   /**
-   * Send a control request and return a Promise that resolves when the CLI responds
+   * Send a control request and return a Promise that resolves when the CLI responds.
+   * Rejects with the CLI's error text, on timeout, or when the signal aborts;
+   * a response arriving after that is ignored.
    */
-  // biome-ignore lint/suspicious/noExplicitAny: response shape varies by request type
-  sendControlRequestWithResponse<T = any>(request: OutboundControlRequest): Promise<T> {
+  sendControlRequestWithResponse<T = unknown>(
+    request: OutboundControlRequest,
+    options: ControlRequestOptions = {}
+  ): Promise<T> {
     if (this.closed) {
-      return Promise.reject(new Error('Cannot send control request: query is closed'));
+      return Promise.reject(new AbortError('Cannot send control request: query is closed'));
     }
+    const { signal, timeoutMs = this.defaultTimeoutMs } = options;
+    if (signal?.aborted) {
+      return Promise.reject(new AbortError(`Control request '${request.subtype}' was aborted`));
+    }
+
     const envelope = this.buildControlRequest(request);
+    const requestId = envelope.request_id;
+    const sentAt = performance.now();
     const promise = new Promise<T>((resolve, reject) => {
-      this.pendingResponses.set(envelope.request_id, { resolve, reject });
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const settle = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        this.pendingResponses.delete(requestId);
+      };
+      const onAbort = () => {
+        settle();
+        reject(new AbortError(`Control request '${request.subtype}' was aborted`));
+      };
+
+      if (timeoutMs !== undefined) {
+        timer = setTimeout(() => {
+          settle();
+          reject(
+            new ControlRequestError(
+              `Control request '${request.subtype}' timed out after ${timeoutMs}ms`,
+              request.subtype,
+              requestId
+            )
+          );
+        }, timeoutMs);
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.pendingResponses.set(requestId, {
+        subtype: request.subtype,
+        sentAt,
+        resolve: (value) => {
+          settle();
+          resolve(value);
+        },
+        reject: (reason) => {
+          settle();
+          reject(reason);
+        },
+      });
     });
     this.writeToStdin(envelope);
     return promise;
@@ -85,7 +137,9 @@ export class ControlRequestManager {
       if (response.subtype === ResponseSubtype.SUCCESS) {
         this.initResolve(response.response as SDKControlInitializeResponse);
       } else {
-        this.initReject(new Error(`Initialization failed: ${response.error || 'unknown error'}`));
+        this.initReject(
+          new InitializationError(`Initialization failed: ${response.error || 'unknown error'}`)
+        );
       }
       return;
     }
@@ -93,41 +147,86 @@ export class ControlRequestManager {
     // Check if there's a pending request/response handler
     const pending = requestId ? this.pendingResponses.get(requestId) : undefined;
     if (pending) {
-      const { resolve, reject } = pending;
+      const { subtype, sentAt, resolve, reject } = pending;
       this.pendingResponses.delete(requestId);
+      this.stats?.controlRoundTrip(subtype, performance.now() - sentAt);
       if (response.subtype === ResponseSubtype.SUCCESS) {
         resolve(response.response);
       } else {
-        reject(new Error(`Control request failed: ${response.error || 'unknown error'}`));
+        const message = response.error || `Control request '${subtype}' failed`;
+        reject(new ControlRequestError(message, subtype, requestId));
       }
     }
   }
 
+  /** Outstanding requests to the CLI, e.g. 'control request set_model' */
+  pendingRequests(): string[] {
+    const pending = [...this.pendingResponses.values()].map(
+      ({ subtype }) => `control request ${subtype}`
+    );
+    if (this.initPending && this._initRequestId) pending.unshift('control request initialize');
+    return pending;
+  }
+
   /** Wait for the init response from CLI */
   waitForInit(): Promise<SDKControlInitializeResponse> {
     return this.initResponsePromise;
   }
 
-  /** Reject init promise and all pending control response promises */
-  rejectAll(error: Error): void {
-    this.closed = true;
-    this.initReject?.(error);
+  /**
+   * Start waiting for a new init response (CLI respawned after a crash).
+   * Later waitForInit() calls see the new process's init result.
+   */
+  resetInit(): void {
+    this.initResponsePromise = this.createInitPromise();
+  }
+
+  /** Reject pending control response promises, keeping the manager usable */
+  rejectPending(error: Error): void {
     for (const [, { reject }] of this.pendingResponses) {
       reject(error);
     }
     this.pendingResponses.clear();
   }
 
+  /** Reject init promise and all pending control response promises */
+  rejectAll(error: Error): void {
+    this.closed = true;
+    this.initReject?.(error);
+    this.rejectPending(error);
+  }
+
+  private createInitPromise(): Promise<SDKControlInitializeResponse> {
+    this.initPending = true;
+    const promise = new Promise<SDKControlInitializeResponse>((resolve, reject) => {
+      this.initResolve = (value) => {
+        this.initPending = false;
+        resolve(value);
+      };
+      this.initReject = (reason) => {
+        this.initPending = false;
+        reject(reason);
+      };
+    });
+    // Prevent unhandled rejection if rejectAll() is called before anyone awaits
+    promise.catch(() => {});
+    return promise;
+  }
+
   /** Build a control_request envelope for the wire */
-  private buildControlRequest(request: OutboundControlRequest, requestId?: string) {
+  private buildControlRequest(request: OutboundControlRequest) {
     return {
       type: MessageType.CONTROL_REQUEST,
-      request_id: requestId ?? this.generateRequestId(),
+      request_id: this.nextRequestId(),
       request,
     };
   }
 
-  private generateRequestId(): string {
-    return `req_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+  /**
+   * Next request id for this connection. A counter never repeats, unlike
+   * timestamps and random suffixes.
+   */
+  nextRequestId(prefix = 'req'): string {
+    return `${prefix}_${++this.requestCounter}`;
   }
 }
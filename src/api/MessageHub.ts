@@ -0,0 +1,189 @@
+/**
+ * Message fan-out
+ *
+ * Delivers every message from the CLI to any number of subscriptions, each
+ * with its own MessageQueue. The Query's own iterator is the first
+ * subscription; subscribe()/tee() add more. A bounded history lets late
+ * subscribers replay from the start or from a message uuid.
+ *
+ * Backpressure (ExtendedOptions.backpressure) applies per subscription:
+ * reading pauses while any subscription is full ('block'), partials are
+ * dropped only for the full subscription ('drop-partials'), and any overflow
+ * fails the query ('error').
+ *
+ * @internal
+ */
+
+import type { OverflowPolicy, QueryMessage, SubscribeOptions } from '../types/index.ts';
+import { MessageQueue } from './MessageQueue.ts';
+
+export type MessageFilter = (message: QueryMessage) => boolean;
+
+export type MessageHubOptions = {
+  highWaterMark?: number;
+  overflow?: OverflowPolicy;
+  /** Messages kept for replay; oldest are dropped first. 0 disables replay */
+  historySize: number;
+  /** A subscription reached the high-water mark */
+  onFull?: () => void;
+  /** No subscription is at the high-water mark anymore */
+  onDrain?: () => void;
+  /** The 'error' overflow policy tripped */
+  onOverflow?: (error: Error) => void;
+};
+
+type Subscription = {
+  queue: MessageQueue<QueryMessage>;
+  filter?: MessageFilter;
+  full: boolean;
+};
+
+export class MessageHub {
+  private subscriptions = new Set<Subscription>();
+  private history: QueryMessage[] = [];
+  private fullCount = 0;
+  private maxDepth = 0;
+  private droppedPartials = 0;
+  private done = false;
+  private error: Error | null = null;
+
+  constructor(private options: MessageHubOptions) {}
+
+  /**
+   * Add a subscription. Replayed messages (and `initial`, used by tee) are
+   * buffered before anything published afterwards; messages of `initial`
+   * that the replay already covers are delivered once.
+   *
+   * @throws {Error} If replay is disabled, or starts from a uuid that is not in the history
+   */
+  subscribe(
+    filter?: MessageFilter,
+    replay?: SubscribeOptions['replay'],
+    initial: QueryMessage[] = []
+  ): MessageQueue<QueryMessage> {
+    const replayed = this.replayFrom(replay);
+    const seen = new Set(replayed);
+    const backlog = [...replayed, ...initial.filter((msg) => !seen.has(msg))];
+    const subscription: Subscription = {
+      filter,
+      full: false,
+      queue: new MessageQueue<QueryMessage>({
+        highWaterMark: this.options.highWaterMark,
+        onFull: () => this.setFull(subscription, true),
+        onDrain: () => this.setFull(subscription, false),
+      }),
+    };
+
+    for (const msg of backlog) {
+      if (!filter || filter(msg)) subscription.queue.push(msg);
+    }
+    if (this.done) {
+      subscription.queue.complete(this.error ?? undefined);
+    } else {
+      this.subscriptions.add(subscription);
+    }
+    return subscription.queue;
+  }
+
+  /** Remove a subscription and end its queue */
+  unsubscribe(queue: MessageQueue<QueryMessage>, error?: Error): void {
+    for (const subscription of this.subscriptions) {
+      if (subscription.queue !== queue) continue;
+      this.trackDepth(subscription);
+      this.setFull(subscription, false);
+      this.subscriptions.delete(subscription);
+    }
+    queue.complete(error);
+  }
+
+  /** Deliver a message to every matching subscription */
+  publish(msg: QueryMessage): void {
+    if (this.done) return;
+
+    if (this.options.historySize > 0) {
+      this.history.push(msg);
+      if (this.history.length > this.options.historySize) {
+        this.history.shift();
+      }
+    }
+
+    for (const subscription of this.subscriptions) {
+      if (subscription.filter && !subscription.filter(msg)) continue;
+      if (subscription.queue.isFull()) {
+        if (this.options.overflow === 'error') {
+          this.options.onOverflow?.(
+            new Error(
+              `Message queue overflow: ${subscription.queue.size} unread messages ` +
+                `(backpressure.highWaterMark is ${this.options.highWaterMark})`
+            )
+          );
+          return;
+        }
+        if (this.options.overflow === 'drop-partials' && msg.type === 'stream_event') {
+          this.droppedPartials++;
+          continue;
+        }
+        // 'block': reading is paused, lines already read still get buffered
+      }
+      subscription.queue.push(msg);
+    }
+  }
+
+  /** End every subscription; later subscribers replay history, then end the same way */
+  complete(error?: Error): void {
+    if (this.done) return;
+    this.done = true;
+    this.error = error ?? null;
+    for (const subscription of this.subscriptions) {
+      this.trackDepth(subscription);
+      subscription.queue.complete(error);
+    }
+    this.subscriptions.clear();
+    this.fullCount = 0;
+  }
+
+  isDone(): boolean {
+    return this.done;
+  }
+
+  /** Buffer depth across live subscriptions */
+  metrics(): { depth: number; maxDepth: number; subscribers: number; droppedPartials: number } {
+    let depth = 0;
+    for (const subscription of this.subscriptions) {
+      depth = Math.max(depth, subscription.queue.size);
+      this.trackDepth(subscription);
+    }
+    return {
+      depth,
+      maxDepth: this.maxDepth,
+      subscribers: this.subscriptions.size,
+      droppedPartials: this.droppedPartials,
+    };
+  }
+
+  private replayFrom(replay: SubscribeOptions['replay']): QueryMessage[] {
+    if (!replay) return [];
+    if (this.options.historySize === 0) {
+      throw new Error('Replay is disabled; set the replayHistorySize option to keep messages');
+    }
+    if (replay === 'start') return [...this.history];
+
+    const index = this.history.findIndex((msg) => 'uuid' in msg && msg.uuid === replay.fromUuid);
+    if (index === -1) {
+      throw new Error(`Message ${replay.fromUuid} is not in the replay history`);
+    }
+    return this.history.slice(index);
+  }
+
+  private trackDepth(subscription: Subscription): void {
+    this.maxDepth = Math.max(this.maxDepth, subscription.queue.highestSize);
+  }
+
+  private setFull(subscription: Subscription, full: boolean): void {
+    if (subscription.full === full || !this.subscriptions.has(subscription)) return;
+    subscription.full = full;
+    this.fullCount += full ? 1 : -1;
+    if (full && this.fullCount === 1) this.options.onFull?.();
+    if (!full && this.fullCount === 0) this.options.onDrain?.();
+  }
+}
@@ -5,11 +5,25 @@
  * - Producer: pushes messages via push()
  * - Consumer: awaits messages via next() (AsyncIterator protocol)
  *
+ * With a high-water mark, onFull fires when the buffer reaches it and onDrain
+ * once the consumer has taken it down to half, so the producer can pause.
+ *
  * @internal
  */
 
+export type MessageQueueOptions = {
+  /** Buffered item count at which the queue reports itself full */
+  highWaterMark?: number;
+  /** Buffer reached the high-water mark */
+  onFull?: () => void;
+  /** Buffer drained to half the high-water mark after being full */
+  onDrain?: () => void;
+};
+
 export class MessageQueue<T> {
   private queue: T[] = [];
+  private full = false;
+  private maxDepth = 0;
   private waiters: Array<{
     resolve: (value: IteratorResult<T>) => void;
     reject: (error: Error) => void;
@@ -17,6 +31,8 @@ export class MessageQueue<T> {
   private done = false;
   private error: Error | null = null;
 
+  constructor(private options: MessageQueueOptions = {}) {}
+
   /**
    * Add a message to the queue
    * If there are waiting consumers, resolves the first one immediately
@@ -31,6 +47,11 @@ export class MessageQueue<T> {
       waiter.resolve({ value: item, done: false });
     } else {
       this.queue.push(item);
+      this.maxDepth = Math.max(this.maxDepth, this.queue.length);
+      if (!this.full && this.isFull()) {
+        this.full = true;
+        this.options.onFull?.();
+      }
     }
   }
 
@@ -65,6 +86,11 @@ export class MessageQueue<T> {
     if (this.queue.length > 0) {
       // biome-ignore lint/style/noNonNullAssertion: length > 0 guarantees shift returns a value
       const item = this.queue.shift()!;
+      const { highWaterMark = 0 } = this.options;
+      if (this.full && this.queue.length <= Math.floor(highWaterMark / 2)) {
+        this.full = false;
+        this.options.onDrain?.();
+      }
       return { value: item, done: false };
     }
 
@@ -83,6 +109,40 @@ export class MessageQueue<T> {
     });
   }
 
+  /**
+   * Remove and return all buffered items
+   */
+  takeAll(): T[] {
+    const items = this.queue.splice(0);
+    if (this.full) {
+      this.full = false;
+      this.options.onDrain?.();
+    }
+    return items;
+  }
+
+  /**
+   * Whether the buffer is at or above the high-water mark (never without one)
+   */
+  isFull(): boolean {
+    const { highWaterMark } = this.options;
+    return highWaterMark !== undefined && this.queue.length >= highWaterMark;
+  }
+
+  /**
+   * Number of buffered items not yet consumed
+   */
+  get size(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Largest number of items buffered at once
+   */
+  get highestSize(): number {
+    return this.maxDepth;
+  }
+
   /**
    * Check if the queue is completed
    */
@@ -1,19 +1,24 @@
 /**
  * Message router for stdout processing
  *
- * Reads NDJSON from stdout and routes messages:
- * - control_request → controlHandler
+ * Reads NDJSON lines from the transport (or a raw stdout stream) and routes messages:
+ * - control_request → controlHandler, without waiting for the answer: a slow
+ *   canUseTool must not hold up other output or other subagents' requests.
+ *   At most `controlConcurrency` run at once; the rest queue in arrival order.
  * - control_response → filtered (internal protocol)
  * - regular messages → onMessage callback
+ * - lines that aren't JSON → logged and reported as ProtocolParseError, then skipped
  *
  * @internal
  */
 
-import { createInterface, type Interface } from 'node:readline';
-import type { Readable } from 'node:stream';
+import { Readable } from 'node:stream';
 import type { ControlProtocolHandler } from '../core/control.ts';
-import { MessageType, type StdoutMessage } from '../types/control.ts';
+import type { StatsCollector } from '../core/stats.ts';
+import { ProtocolParseError } from '../errors.ts';
+import { type ControlRequest, MessageType, type StdoutMessage } from '../types/control.ts';
 import type { SDKMessage } from '../types/index.ts';
+import { readLines } from './ChildProcessTransport.ts';
 
 export type MessageCallback = (msg: SDKMessage) => void;
 export type DoneCallback = (error?: Error) => void;
@@ -24,20 +29,32 @@ export type ControlResponsePayload = {
   error?: string;
 };
 export type ControlResponseCallback = (response: ControlResponsePayload) => void;
+export type ParseErrorCallback = (error: ProtocolParseError) => void;
+
+/** Control requests handled at once unless options.controlRequestConcurrency says otherwise */
+export const DEFAULT_CONTROL_CONCURRENCY = 16;
 
 type RawMessage =
   | StdoutMessage
   | { type: typeof MessageType.CONTROL_RESPONSE; response: ControlResponsePayload };
 
 export class MessageRouter {
-  private readline: Interface | null = null;
+  private lines: AsyncIterator<string> | null = null;
+  /** When the last line was read (watchdog idle tracking) */
+  lastOutputAt = Date.now();
+  private activeControlRequests = 0;
+  /** Control requests waiting for a free slot, in arrival order */
+  private queuedControlRequests: ControlRequest[] = [];
 
   constructor(
-    private stdout: Readable,
+    private source: Readable | AsyncIterable<string>,
     private controlHandler: ControlProtocolHandler,
     private onMessage: MessageCallback,
     private onDone: DoneCallback,
-    private onControlResponse?: ControlResponseCallback
+    private onControlResponse?: ControlResponseCallback,
+    private onParseError?: ParseErrorCallback,
+    private stats?: StatsCollector,
+    private controlConcurrency = DEFAULT_CONTROL_CONCURRENCY
   ) {}
 
   /**
@@ -46,22 +63,35 @@ export class MessageRouter {
    */
   async startReading(): Promise<void> {
     try {
-      this.readline = createInterface({
-        input: this.stdout,
-        crlfDelay: Infinity,
-      });
+      const lines = this.source instanceof Readable ? readLines(this.source) : this.source;
+      // Keep the iterator so close() can stop a pending read
+      const iterator = lines[Symbol.asyncIterator]();
+      this.lines = iterator;
 
-      for await (const line of this.readline) {
+      for await (const line of { [Symbol.asyncIterator]: () => iterator }) {
+        this.lastOutputAt = Date.now();
         if (!line.trim()) continue;
+        this.stats?.lineIn(line);
 
         // Debug: log raw line
         if (process.env.DEBUG_HOOKS) {
           console.error('[DEBUG] Raw line:', line.substring(0, 200));
         }
 
+        let msg: RawMessage;
         try {
-          const msg = JSON.parse(line) as RawMessage;
+          msg = JSON.parse(line) as RawMessage;
+        } catch (parseError) {
+          // Log but don't crash on parse errors
+          const errMsg = parseError instanceof Error ? parseError.message : String(parseError);
+          console.error('Failed to parse line:', line.substring(0, 200), '-', errMsg);
+          this.onParseError?.(
+            new ProtocolParseError(`Failed to parse CLI output as JSON: ${errMsg}`, line)
+          );
+          continue;
+        }
 
+        try {
           // Debug: log message type
           if (process.env.DEBUG_HOOKS) {
             console.error('[DEBUG] Message type:', msg.type);
@@ -72,7 +102,7 @@ export class MessageRouter {
               console.error('[DEBUG] !!! CONTROL REQUEST !!!:', msg.request?.subtype);
             }
             // Handle control request internally (don't yield to user)
-            await this.controlHandler.handleControlRequest(msg);
+            this.dispatchControlRequest(msg);
           } else if (msg.type === MessageType.CONTROL_RESPONSE) {
             // Route control_response to callback if provided, otherwise filter silently
             if (process.env.DEBUG_HOOKS) {
@@ -85,10 +115,10 @@ export class MessageRouter {
             // Regular message - pass to callback
             this.onMessage(msg as SDKMessage);
           }
-        } catch (parseError) {
-          // Log but don't crash on parse errors
-          const errMsg = parseError instanceof Error ? parseError.message : String(parseError);
-          console.error('Failed to parse line:', line.substring(0, 200), '-', errMsg);
+        } catch (routeError) {
+          // A failing handler must not stop the stream
+          const errMsg = routeError instanceof Error ? routeError.message : String(routeError);
+          console.error('Failed to route message:', line.substring(0, 200), '-', errMsg);
         }
       }
     } catch (err: unknown) {
@@ -100,13 +130,35 @@ export class MessageRouter {
     this.onDone();
   }
 
+  private dispatchControlRequest(req: ControlRequest): void {
+    // A limit below 1 (unvalidated with optionsValidation: 'off') would queue every request forever
+    if (this.activeControlRequests >= Math.max(1, this.controlConcurrency)) {
+      this.queuedControlRequests.push(req);
+      return;
+    }
+    this.activeControlRequests++;
+    this.controlHandler
+      .handleControlRequest(req)
+      .catch((error: unknown) => {
+        const errMsg = error instanceof Error ? error.message : String(error);
+        console.error('Failed to handle control request:', req.request.subtype, '-', errMsg);
+      })
+      .finally(() => {
+        this.activeControlRequests--;
+        const next = this.queuedControlRequests.shift();
+        if (next) this.dispatchControlRequest(next);
+      });
+  }
+
   /**
-   * Close the readline interface
+   * Stop reading lines. Queued control requests are dropped; running ones
+   * finish, but the CLI is no longer listening for their answers.
    */
   close(): void {
-    if (this.readline) {
-      this.readline.close();
-      this.readline = null;
+    this.queuedControlRequests = [];
+    if (this.lines) {
+      this.lines.return?.();
+      this.lines = null;
     }
   }
 }
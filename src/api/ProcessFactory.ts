@@ -8,8 +8,9 @@
 
 import type { ChildProcess } from 'node:child_process';
 import { buildCliArgs } from '../core/argBuilder.ts';
+import { reportCliSupport } from '../core/cliVersion.ts';
 import { detectClaudeBinary, spawnClaude } from '../core/spawn.ts';
-import type { Options } from '../types/index.ts';
+import type { ExtendedOptions, Options } from '../types/index.ts';
 
 /**
  * Interface for creating CLI processes
@@ -30,7 +31,7 @@ function isNativeBinary(path: string): boolean {
 /**
  * Get default JavaScript runtime
  */
-function getDefaultExecutable(): string {
+function getDefaultExecutable(): 'bun' | 'node' {
   return typeof process.versions.bun !== 'undefined' ? 'bun' : 'node';
 }
 
@@ -38,7 +39,7 @@ function getDefaultExecutable(): string {
  * Default implementation that spawns real Claude CLI
  */
 export class DefaultProcessFactory implements ProcessFactory {
-  spawn(options: Options): ChildProcess {
+  spawn(options: ExtendedOptions): ChildProcess {
     const args = buildCliArgs({ ...options, prompt: '' });
 
     // Build environment with enableFileCheckpointing support
@@ -70,7 +71,8 @@ export class DefaultProcessFactory implements ProcessFactory {
         args: spawnArgs,
         cwd: options.cwd,
         env: fullEnv,
-        signal: AbortSignal.timeout(3600000), // 1 hour default
+        // Tied to the query's abortController; the process gets no time limit of its own
+        signal: options.abortController?.signal ?? new AbortController().signal,
       });
 
       // Wrap SpawnedProcess to ChildProcess-compatible object
@@ -78,6 +80,15 @@ export class DefaultProcessFactory implements ProcessFactory {
     }
 
     const scriptPath = detectClaudeBinary(options);
+    // Windows ignores shebangs, so a JS CLI (e.g. a discovered cli.js) needs a runtime
+    const needsRuntime = !isNativeBinary(scriptPath) && process.platform === 'win32';
+    // Options this CLI is too old for go to options.onWarning, or the console
+    reportCliSupport(
+      needsRuntime && !options.executable
+        ? { ...options, executable: getDefaultExecutable() }
+        : options,
+      scriptPath
+    );
 
     // When executable is explicitly set, use it as the command with script as arg
     if (options.executable) {
@@ -87,6 +98,7 @@ export class DefaultProcessFactory implements ProcessFactory {
         cwd: options.cwd,
         env,
         stderr: options.stderr,
+        processGroup: options.processGroup,
       });
     }
 
@@ -100,17 +112,19 @@ export class DefaultProcessFactory implements ProcessFactory {
         cwd: options.cwd,
         env,
         stderr: options.stderr,
+        processGroup: options.processGroup,
       });
     }
 
-    // JS file with executableArgs: need explicit runtime
-    if (executableArgs.length > 0) {
+    // JS file with executableArgs, or on Windows: need explicit runtime
+    if (executableArgs.length > 0 || needsRuntime) {
       const executable = getDefaultExecutable();
       const fullArgs = [...executableArgs, scriptPath, ...args];
       return spawnClaude(executable, fullArgs, {
         cwd: options.cwd,
         env,
         stderr: options.stderr,
+        processGroup: options.processGroup,
       });
     }
 
@@ -119,6 +133,7 @@ export class DefaultProcessFactory implements ProcessFactory {
       cwd: options.cwd,
       env,
       stderr: options.stderr,
+      processGroup: options.processGroup,
     });
   }
 }
@@ -0,0 +1,137 @@
+/**
+ * Typed event emitter for Query
+ *
+ * Turns routed messages into q.on() events. Fed by QueryImpl.handleMessage
+ * alongside the MessageHub, so handlers never take messages away from
+ * iterators (and vice versa). Tool calls are remembered by id until their
+ * result arrives, so 'tool_result' carries the matching 'tool_use'.
+ *
+ * @internal
+ */
+
+import type {
+  PartialMessageEvent,
+  QueryEventMap,
+  QueryEventName,
+  SDKAssistantMessage,
+  SDKMessage,
+  SDKUserMessage,
+  ToolUseEvent,
+} from '../types/index.ts';
+
+type Handler<E extends QueryEventName> = (payload: QueryEventMap[E]) => void;
+
+export class QueryEvents {
+  private handlers = new Map<QueryEventName, Set<Handler<QueryEventName>>>();
+  private openToolUses = new Map<string, ToolUseEvent>();
+
+  on<E extends QueryEventName>(event: E, handler: Handler<E>): () => void {
+    let set = this.handlers.get(event);
+    if (!set) {
+      set = new Set();
+      this.handlers.set(event, set);
+    }
+    set.add(handler as Handler<QueryEventName>);
+    return () => this.off(event, handler);
+  }
+
+  off<E extends QueryEventName>(event: E, handler: Handler<E>): void {
+    this.handlers.get(event)?.delete(handler as Handler<QueryEventName>);
+  }
+
+  /** Emit the events a routed message maps to */
+  dispatch(msg: SDKMessage): void {
+    switch (msg.type) {
+      case 'assistant':
+        this.emit('assistant', msg);
+        this.dispatchToolUses(msg);
+        break;
+      case 'user':
+        this.dispatchToolResults(msg);
+        break;
+      case 'result':
+        this.emit('result', msg);
+        break;
+      case 'stream_event':
+        this.emit('stream_event', msg);
+        break;
+      case 'system':
+        if (msg.subtype === 'init') this.emit('system:init', msg);
+        else if (msg.subtype === 'compact_boundary') this.emit('compact_boundary', msg);
+        break;
+    }
+  }
+
+  /** Tool calls still waiting for their result, as 'Name (id)' */
+  pendingToolUses(): string[] {
+    return [...this.openToolUses.values()].map((toolUse) => `${toolUse.name} (${toolUse.id})`);
+  }
+
+  /** Progress from the partial-message assembler */
+  partial(event: PartialMessageEvent): void {
+    this.emit('partial', event);
+  }
+
+  /** The stream failed */
+  error(error: Error): void {
+    this.emit('error', error);
+  }
+
+  /** The stream ended; tool calls still open will never get their result */
+  ended(): void {
+    this.openToolUses.clear();
+  }
+
+  private dispatchToolUses(msg: SDKAssistantMessage): void {
+    for (const block of msg.message.content) {
+      if (block.type !== 'tool_use') continue;
+      const event: ToolUseEvent = {
+        id: block.id,
+        name: block.name,
+        input: block.input,
+        parent_tool_use_id: msg.parent_tool_use_id,
+        message: msg,
+      };
+      this.openToolUses.set(block.id, event);
+      this.emit('tool_use', event);
+    }
+  }
+
+  private dispatchToolResults(msg: SDKUserMessage): void {
+    const { content } = msg.message;
+    if (typeof content === 'string') return;
+    for (const block of content) {
+      if (block.type !== 'tool_result') continue;
+      const toolUse = this.openToolUses.get(block.tool_use_id);
+      this.openToolUses.delete(block.tool_use_id);
+      this.emit('tool_result', {
+        tool_use_id: block.tool_use_id,
+        content: block.content,
+        is_error: block.is_error ?? false,
+        toolUse,
+        message: msg,
+      });
+    }
+  }
+
+  /**
+   * Call handlers in registration order. A throwing handler is reported to
+   * 'error' handlers rather than breaking message routing.
+   */
+  private emit<E extends QueryEventName>(event: E, payload: QueryEventMap[E]): void {
+    const set = this.handlers.get(event);
+    if (!set) return;
+    for (const handler of [...set]) {
+      try {
+        handler(payload);
+      } catch (error: unknown) {
+        const wrappedError = error instanceof Error ? error : new Error(String(error));
+        if (event === 'error') {
+          console.error(`[QueryEvents] 'error' handler threw:`, wrappedError);
+        } else {
+          this.emit('error', wrappedError);
+        }
+      }
+    }
+  }
+}
@@ -9,245 +9,578 @@
  * @internal
  */
 
-import type { ChildProcess } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
+import { FileCheckpointer } from '../core/checkpoint.ts';
 import { ControlProtocolHandler, ControlRequests } from '../core/control.ts';
+import { mergeHooks } from '../core/hookConfig.ts';
 import { connectMcpBridges } from '../core/mcpBridge.ts';
+import { CrashRecovery } from '../core/recovery.ts';
+import { StatsCollector } from '../core/stats.ts';
+import { Watchdog } from '../core/watchdog.ts';
+import { AbortError, CliExitError, type QueryTimeoutError } from '../errors.ts';
+import { PartialMessageAssembler } from '../partial.ts';
+import type { NdjsonWriter } from '../types/control.ts';
 import type {
   AccountInfo,
+  CheckpointRestoreResult,
+  CliTransport,
+  CloseOptions,
+  CollectedResult,
+  ControlRequestOptions,
+  ExtendedOptions,
+  ExtendedQuery,
   McpServerConfig,
   McpServerStatus,
   McpSetServersResult,
   ModelInfo,
-  Options,
   PermissionMode,
-  Query,
+  QueryEventMap,
+  QueryEventName,
+  QueryMessage,
+  QueryStats,
+  QueueMetrics,
   RewindFilesResult,
+  SDKAssistantMessage,
   SDKControlInitializeResponse,
   SDKMessage,
+  SDKResultMessage,
   SDKUserMessage,
   SlashCommand,
+  SubscribeOptions,
 } from '../types/index.ts';
+import { assertValidOptions } from '../validation.ts';
+import { ChildProcessTransport } from './ChildProcessTransport.ts';
 import { ControlRequestManager } from './ControlRequestManager.ts';
-import { MessageQueue } from './MessageQueue.ts';
+import { MessageHub } from './MessageHub.ts';
+import type { MessageQueue } from './MessageQueue.ts';
 import { MessageRouter } from './MessageRouter.ts';
 import { DefaultProcessFactory, type ProcessFactory } from './ProcessFactory.ts';
 import { sendInitialPrompt, sendProtocolInit } from './protocolInit.ts';
+import { QueryEvents } from './QueryEvents.ts';
+import { toCliTransport } from './SdkTransportAdapter.ts';
+import { registerQuery, unregisterQuery } from './shutdown.ts';
 
-export class QueryImpl implements Query {
+/** How long close() waits for the CLI to exit before SIGKILL */
+const DEFAULT_CLOSE_TIMEOUT_MS = 5000;
+
+/** Longest wait for the interrupted turn to end after a timeout */
+const INTERRUPT_GRACE_MS = 5000;
+
+/** Characters of CLI stderr kept for CliExitError */
+const STDERR_TAIL_SIZE = 8 * 1024;
+
+export class QueryImpl implements ExtendedQuery {
   private closed = false;
+  private started = false;
+  private isSingleUserTurn = false;
+  private inputEnded = false;
+  private abortController?: AbortController;
   private abortHandler: (() => void) | null = null;
 
+  private transport: CliTransport | null = null;
+  private router: MessageRouter | null = null;
+  /** Recent stderr of the current CLI process (spawned transports only) */
+  private stderrTail = '';
+  /** close() calls waiting for the current transport to exit */
+  private exitWaiters: Array<() => void> = [];
+  /** onEnd() callbacks, run once by endStream() */
+  private endListeners: Array<() => void> = [];
+  /** observe() callbacks; internal, so unlike on() handlers they are not user code */
+  private observers: Array<(msg: SDKMessage) => void> = [];
+  private gracefulClose: Promise<void> | null = null;
+  private controlHandler: ControlProtocolHandler;
+  private controlManager: ControlRequestManager;
+
+  // Crash recovery (opt-in via options.recovery)
+  private recovery: CrashRecovery | null;
+  private transportExited = false;
+  private restarting = false;
+  /** Runtime changes made via control methods, re-applied after a restart */
+  private runtimeOptions: Partial<ExtendedOptions> = {};
+
+  // Timeouts (opt-in via options.timeoutMs / options.idleTimeoutMs)
+  private watchdog: Watchdog | null = null;
+
+  /** Fan-out to the query's own iterator (messageQueue) and subscribe()/tee() */
+  private hub: MessageHub;
+  private events = new QueryEvents();
+  /** Feeds 'partial' events (opt-in via options.assemblePartialMessages) */
+  private assembler: PartialMessageAssembler | null;
+  private statsCollector = new StatsCollector();
+  /** The query's own iterator; null with options.callbacksOnly */
+  private messageQueue: MessageQueue<QueryMessage> | null;
+  // Backpressure (opt-in via options.backpressure)
+  private readPaused = false;
+  private pauseCount = 0;
+
   private constructor(
-    private process: ChildProcess,
-    private messageQueue: MessageQueue<SDKMessage>,
-    private controlManager: ControlRequestManager,
-    private router: MessageRouter,
-    private isSingleUserTurn: boolean,
-    private abortController?: AbortController
-  ) {}
+    private options: ExtendedOptions,
+    private processFactory: ProcessFactory,
+    private checkpointer: FileCheckpointer | null
+  ) {
+    this.hub = new MessageHub({
+      highWaterMark: options.backpressure?.highWaterMark,
+      overflow: options.backpressure?.overflow,
+      historySize: options.replayHistorySize ?? 0,
+      onFull: () => this.setReadPaused(true),
+      onDrain: () => this.setReadPaused(false),
+      onOverflow: (error) => {
+        this.endStream(error);
+        this.close();
+      },
+    });
+    this.messageQueue = options.callbacksOnly ? null : this.hub.subscribe();
+
+    // Handler and manager outlive a single transport when the CLI is respawned
+    const writer: NdjsonWriter = {
+      write: (data) => {
+        this.statsCollector.messageOut(data);
+        this.watchdog?.inputWritten();
+        this.transport?.write(data);
+      },
+    };
+    this.controlHandler = new ControlProtocolHandler(writer, options, this.statsCollector);
+    this.controlManager = new ControlRequestManager(
+      writer,
+      options.controlRequestTimeoutMs,
+      this.statsCollector
+    );
+    this.recovery = options.recovery ? new CrashRecovery(options.recovery) : null;
+    this.assembler = options.assemblePartialMessages ? new PartialMessageAssembler() : null;
+    if (options.timeoutMs !== undefined || options.idleTimeoutMs !== undefined) {
+      this.watchdog = new Watchdog({
+        timeoutMs: options.timeoutMs,
+        idleTimeoutMs: options.idleTimeoutMs,
+        lastOutputAt: () => this.router?.lastOutputAt ?? 0,
+        pendingRequests: () => this.controlManager.pendingRequests(),
+        pendingCallbacks: () => this.controlHandler.pendingRequests(),
+        pendingTools: () => this.events.pendingToolUses(),
+        onTimeout: (error) => void this.handleTimeout(error),
+      });
+    }
+  }
 
   /**
-   * Factory method — spawns process, wires components, starts communication.
+   * Factory method — opens transport (spawns process by default), wires
+   * components, starts communication.
    */
   static create(
-    params: { prompt: string | AsyncIterable<SDKUserMessage>; options?: Options },
+    params: { prompt: string | AsyncIterable<SDKUserMessage>; options?: ExtendedOptions },
     processFactory: ProcessFactory = new DefaultProcessFactory()
   ): QueryImpl {
     const { prompt, options = {} } = params;
 
+    // Reject mistakes before spawning; warnings go to onWarning (optionsValidation)
+    assertValidOptions(options);
+
     // Check for pre-aborted signal BEFORE spawning process
     if (options.abortController?.signal.aborted) {
       return QueryImpl.createAborted();
     }
 
-    // 1. Spawn process
-    const childProcess = processFactory.spawn(options);
-    if (!childProcess.stdin || !childProcess.stdout) {
-      throw new Error('Process stdin/stdout not available');
-    }
+    // Refuse before spawning when the shared budget is already spent
+    options.budget?.governor.admit(options.budget.key);
 
-    // 2. Initialize components
-    const messageQueue = new MessageQueue<SDKMessage>();
-    const controlHandler = new ControlProtocolHandler(childProcess.stdin, options);
-    const controlManager = new ControlRequestManager(childProcess.stdin);
-
-    // 3. Connect SDK MCP servers
-    const sdkMcpServerNames = connectMcpBridges(options, controlHandler);
-
-    const isSingleUserTurn = typeof prompt === 'string';
-
-    // 4. Construct instance
-    const instance = new QueryImpl(
-      childProcess,
-      messageQueue,
-      controlManager,
-      // router placeholder — set below after constructing with callbacks
-      null as unknown as MessageRouter,
-      isSingleUserTurn,
-      options.abortController
+    const instance = QueryImpl.connect(
+      options.budget ? options.budget.governor.capOptions(options, options.budget.key) : options,
+      processFactory
     );
+    options.budget?.governor.register(instance, options.budget.key);
+    instance.start(prompt, options.abortController);
+    return instance;
+  }
 
-    // 5. Initialize message router with callbacks
-    instance.router = new MessageRouter(
-      childProcess.stdout,
-      controlHandler,
-      (msg) => instance.handleMessage(msg),
-      (error) => instance.handleDone(error),
-      (response) => controlManager.handleControlResponse(response)
-    );
+  /**
+   * Open the transport, wire components and send the init handshake —
+   * everything up to the first prompt. QueryPool calls this ahead of time
+   * to keep initialized CLI processes ready; start() sends the prompt.
+   */
+  static connect(
+    options: ExtendedOptions,
+    processFactory: ProcessFactory = new DefaultProcessFactory()
+  ): QueryImpl {
+    // SDK-side checkpointing snapshots files through an internal PreToolUse hook
+    const checkpointer = options.sdkFileCheckpointing ? new FileCheckpointer(options.cwd) : null;
 
-    // 6. Start background reading
-    instance.router.startReading();
+    const instance = new QueryImpl(options, processFactory, checkpointer);
+    instance.attach(options);
+    return instance;
+  }
+
+  /**
+   * Create an already-aborted QueryImpl (no transport opened).
+   */
+  static createAborted(): QueryImpl {
+    const instance = new QueryImpl({}, new DefaultProcessFactory(), null);
+    instance.hub.complete();
+    instance.controlManager.rejectAll(new AbortError('Query was aborted before initialization'));
+    instance.closed = true;
+    return instance;
+  }
 
-    // 7. Send control protocol initialization
-    sendProtocolInit(controlManager, options, sdkMcpServerNames, controlHandler);
+  /**
+   * Send the prompt and attach the abort controller. Called once per instance.
+   */
+  start(prompt: string | AsyncIterable<SDKUserMessage>, abortController?: AbortController): void {
+    if (this.started) {
+      throw new Error('Query has already been started');
+    }
+    this.started = true;
+    this.isSingleUserTurn = typeof prompt === 'string';
+    this.watchdog?.start();
 
-    // 8. Handle input
     if (typeof prompt === 'string') {
-      sendInitialPrompt(controlManager, prompt);
+      const sent = sendInitialPrompt(this.controlManager, prompt, this.beginCheckpoint());
+      this.recovery?.track(sent);
+      this.watchdog?.turnStarted();
+      this.statsCollector.turnStarted();
     } else {
-      instance.consumeInputGenerator(prompt);
+      this.consumeInputGenerator(prompt);
     }
 
-    // 9. Setup process exit/error handlers + abort listener
-    instance.setupProcessHandlers();
-
-    return instance;
+    if (abortController) {
+      this.abortController = abortController;
+      this.abortHandler = () => {
+        this.interrupt().catch(() => {});
+      };
+      abortController.signal.addEventListener('abort', this.abortHandler);
+    }
   }
 
+  // ============================================================================
+  // Process lifecycle
+  // ============================================================================
+
   /**
-   * Create an already-aborted QueryImpl (no process spawned).
+   * Open a transport and bring it to the point of accepting prompts. Runs
+   * once on connect and again for every crash-recovery restart.
    */
-  private static createAborted(): QueryImpl {
-    const messageQueue = new MessageQueue<SDKMessage>();
-    messageQueue.complete();
-
-    const controlManager = new ControlRequestManager(null);
-    controlManager.rejectAll(new Error('Query was aborted before initialization'));
-
-    const instance = new QueryImpl(
-      null as unknown as ChildProcess,
-      messageQueue,
-      controlManager,
-      null as unknown as MessageRouter,
-      false
+  private attach(options: ExtendedOptions): void {
+    // 1. Open transport — custom transport, or spawn a local CLI process
+    this.stderrTail = '';
+    // Only a CLI the SDK spawned itself can be in its own process group
+    const processGroup =
+      !options.transport && !options.spawnClaudeCodeProcess && !!options.processGroup;
+    const transport = options.transport
+      ? toCliTransport(options.transport(options))
+      : new ChildProcessTransport(
+          this.processFactory.spawn({ ...options, stderr: (data) => this.captureStderr(data) }),
+          { processGroup }
+        );
+    this.transport = transport;
+    this.transportExited = false;
+    registerQuery(this, processGroup);
+    if (this.readPaused) transport.pause?.();
+
+    // 2. Connect SDK MCP servers
+    const sdkMcpServerNames = connectMcpBridges(options, this.controlHandler);
+
+    // 3. Route the transport's output
+    const router = new MessageRouter(
+      transport.readLines(),
+      this.controlHandler,
+      (msg) => this.handleMessage(msg),
+      (error) => this.handleDone(router, error),
+      (response) => this.controlManager.handleControlResponse(response),
+      (error) => this.events.error(error),
+      this.statsCollector,
+      options.controlRequestConcurrency
     );
-    instance.closed = true;
-    return instance;
+    this.router = router;
+    router.startReading();
+
+    // 4. Send control protocol initialization
+    const hooks = this.checkpointer
+      ? mergeHooks(this.checkpointer.hooks(), options.hooks)
+      : options.hooks;
+    sendProtocolInit(
+      this.controlManager,
+      { ...options, hooks },
+      sdkMcpServerNames,
+      this.controlHandler
+    );
+    this.controlManager.waitForInit().then(
+      () => this.statsCollector.initialized(),
+      () => {}
+    );
+
+    // 5. Setup transport exit/error handlers
+    this.setupProcessHandlers(transport);
   }
 
-  // ============================================================================
-  // Process lifecycle
-  // ============================================================================
+  private setupProcessHandlers(transport: CliTransport): void {
+    transport.on('exit', (code, signal) => {
+      // Ignore a transport replaced by a restart
+      if (transport !== this.transport) return;
+      this.transportExited = true;
+      for (const resolve of this.exitWaiters.splice(0)) resolve();
 
-  private setupProcessHandlers(): void {
-    this.process.on('exit', (code) => {
-      if (code !== 0 && code !== null && !this.messageQueue.isDone()) {
-        const error = new Error(`Claude CLI exited with code ${code}`);
-        this.messageQueue.complete(error);
+      if (this.shouldRestart(code)) {
+        void this.restart(code, signal);
+        return;
+      }
+      unregisterQuery(this);
+      if (code !== 0 && code !== null && !this.hub.isDone()) {
+        const error = new CliExitError(code, signal, this.stderrTail);
+        this.endStream(error);
         this.controlManager.rejectAll(error);
-      } else if (!this.messageQueue.isDone()) {
-        this.messageQueue.complete();
-        this.controlManager.rejectAll(new Error('CLI exited before responding'));
+      } else {
+        // Control requests sent after the stream ended would otherwise never settle
+        this.endStream();
+        this.controlManager.rejectAll(
+          new CliExitError(code, signal, this.stderrTail, 'CLI exited before responding')
+        );
       }
     });
 
-    this.process.on('error', (err) => {
-      if (!this.messageQueue.isDone()) {
-        this.messageQueue.complete(err);
-      }
+    transport.on('error', (err) => {
+      if (transport !== this.transport) return;
+      this.endStream(err);
       this.controlManager.rejectAll(err);
     });
+  }
 
-    if (this.abortController) {
-      this.abortHandler = () => {
-        this.interrupt();
-      };
-      this.abortController.signal.addEventListener('abort', this.abortHandler);
+  /**
+   * A crash is a non-zero exit (or a kill by signal) while the conversation
+   * is still open.
+   */
+  private shouldRestart(code: number | null): boolean {
+    return (
+      (this.recovery?.canRestart() ?? false) &&
+      code !== 0 &&
+      !this.closed &&
+      !this.inputEnded &&
+      !this.hub.isDone()
+    );
+  }
+
+  /**
+   * Respawn the CLI resuming the last seen session, re-run the init
+   * handshake (re-attaching SDK MCP servers and hooks), and resend user
+   * messages the crashed process never finished.
+   */
+  private async restart(code: number | null, signal: NodeJS.Signals | null): Promise<void> {
+    const recovery = this.recovery as CrashRecovery;
+    // The old router keeps draining whatever the crashed process wrote
+    this.restarting = true;
+
+    const delay = recovery.beginRestart();
+    await new Promise((resolve) => setTimeout(resolve, delay));
+    if (this.closed) return;
+
+    // Anything still pending was sent to the process that died
+    this.controlManager.rejectPending(
+      new CliExitError(
+        code,
+        signal,
+        this.stderrTail,
+        `Claude CLI exited with code ${code ?? signal} before responding`
+      )
+    );
+    this.controlManager.resetInit();
+
+    try {
+      this.attach(recovery.respawnOptions({ ...this.options, ...this.runtimeOptions }));
+    } catch (error: unknown) {
+      const wrappedError = error instanceof Error ? error : new Error(String(error));
+      this.endStream(wrappedError);
+      this.controlManager.rejectAll(wrappedError);
+      return;
+    } finally {
+      this.restarting = false;
     }
+
+    this.hub.publish(recovery.event(code, signal));
+    for (const msg of recovery.pendingMessages()) {
+      this.controlManager.writeToStdin(msg);
+    }
+  }
+
+  /** Whether the transport is still open (not closed, CLI not exited) */
+  isAlive(): boolean {
+    return !this.closed && !this.hub.isDone();
   }
 
   private handleMessage(msg: SDKMessage): void {
-    this.messageQueue.push(msg);
+    this.recovery?.observe(msg);
+    this.watchdog?.observe(msg);
+    this.statsCollector.observe(msg);
+    if (msg.type === 'result') this.checkpointer?.turnEnded();
+    for (const observer of this.observers) observer(msg);
+    this.hub.publish(msg);
+    this.events.dispatch(msg);
+    for (const event of this.assembler?.push(msg) ?? []) {
+      this.events.partial(event);
+    }
 
     // For single-turn queries, close stdin on result to signal CLI to exit
     if (msg.type === 'result' && this.isSingleUserTurn) {
-      this.process.stdin?.end();
+      this.inputEnded = true;
+      this.transport?.endInput();
     }
   }
 
-  private handleDone(error?: Error): void {
-    if (!this.messageQueue.isDone()) {
-      this.messageQueue.complete(error);
+  /** Pause or resume reading CLI output ('block' overflow policy) */
+  private setReadPaused(paused: boolean): void {
+    const overflow = this.options.backpressure?.overflow ?? 'block';
+    if (overflow !== 'block' || paused === this.readPaused) return;
+    this.readPaused = paused;
+    if (paused) {
+      this.pauseCount++;
+      this.transport?.pause?.();
+    } else {
+      this.transport?.resume?.();
     }
   }
 
+  /**
+   * See every routed message, before the iterators and on() handlers.
+   * @internal
+   */
+  observe(observer: (msg: SDKMessage) => void): void {
+    this.observers.push(observer);
+  }
+
+  /**
+   * Run a callback once the stream has ended: closed, failed or the CLI
+   * exited. Right away if it already has.
+   * @internal
+   */
+  onEnd(listener: () => void): void {
+    if (this.hub.isDone()) listener();
+    else this.endListeners.push(listener);
+  }
+
+  /** End every iterator; an error also goes to 'error' event handlers */
+  private endStream(error?: Error): void {
+    if (this.hub.isDone()) return;
+    this.watchdog?.stop();
+    this.hub.complete(error);
+    this.events.ended();
+    for (const listener of this.endListeners.splice(0)) listener();
+    if (error) this.events.error(error);
+  }
+
+  /**
+   * A watchdog trip: interrupt the CLI and give the turn a moment to end
+   * (its result is still delivered), then close with the timeout error.
+   */
+  private async handleTimeout(error: QueryTimeoutError): Promise<void> {
+    const graceMs = Math.min(INTERRUPT_GRACE_MS, error.timeoutMs);
+    await new Promise<void>((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        unsubscribe();
+        resolve();
+      };
+      const timer = setTimeout(done, graceMs);
+      const unsubscribe = this.events.on('result', done);
+      this.interrupt({ timeoutMs: graceMs }).catch(() => {});
+    });
+    this.closeWithError(error);
+  }
+
+  private handleDone(router: MessageRouter, error?: Error): void {
+    // Output of a transport that crashed or was replaced by a restart
+    if (this.restarting || router !== this.router) return;
+    // With recovery on, the exit code decides between restarting and ending
+    if (this.recovery && !error && !this.transportExited) return;
+    this.endStream(error);
+  }
+
   // ============================================================================
   // AsyncGenerator implementation
   // ============================================================================
 
-  async next(): Promise<IteratorResult<SDKMessage>> {
-    return this.messageQueue.next();
+  async next(): Promise<IteratorResult<QueryMessage>> {
+    return this.ownQueue().next();
   }
 
-  async return(_value?: unknown): Promise<IteratorResult<SDKMessage>> {
+  async return(_value?: unknown): Promise<IteratorResult<QueryMessage>> {
     this.close();
-    return { value: undefined as unknown as SDKMessage, done: true };
+    return { value: undefined as unknown as QueryMessage, done: true };
   }
 
-  async throw(e?: unknown): Promise<IteratorResult<SDKMessage>> {
+  async throw(e?: unknown): Promise<IteratorResult<QueryMessage>> {
     this.close();
     throw e;
   }
 
-  [Symbol.asyncIterator](): AsyncGenerator<SDKMessage, void> {
-    return this as unknown as AsyncGenerator<SDKMessage, void>;
+  [Symbol.asyncIterator](): AsyncGenerator<QueryMessage, void> {
+    return this as unknown as AsyncGenerator<QueryMessage, void>;
   }
 
   async [Symbol.asyncDispose](): Promise<void> {
-    this.close();
+    await this.close({ graceful: true });
   }
 
   // ============================================================================
   // Control methods (Query interface)
   // ============================================================================
 
-  async interrupt(): Promise<void> {
-    this.controlManager.sendControlRequest(ControlRequests.interrupt());
+  // Each resolves once the CLI acknowledges the request and rejects with its
+  // error, on timeout, or when options.signal aborts. Runtime options are
+  // remembered up front so a respawn after a crash still applies them.
+
+  async interrupt(options?: ControlRequestOptions): Promise<void> {
+    this.controlHandler.abortCallbacks(new AbortError('Query interrupted'));
+    await this.controlManager.sendControlRequestWithResponse(ControlRequests.interrupt(), options);
   }
 
-  async setPermissionMode(mode: PermissionMode): Promise<void> {
-    this.controlManager.sendControlRequest(ControlRequests.setPermissionMode(mode));
+  async setPermissionMode(mode: PermissionMode, options?: ControlRequestOptions): Promise<void> {
+    this.runtimeOptions.permissionMode = mode;
+    await this.controlManager.sendControlRequestWithResponse(
+      ControlRequests.setPermissionMode(mode),
+      options
+    );
   }
 
-  async setModel(model?: string): Promise<void> {
-    this.controlManager.sendControlRequest(ControlRequests.setModel(model));
+  async setModel(model?: string, options?: ControlRequestOptions): Promise<void> {
+    this.runtimeOptions.model = model;
+    await this.controlManager.sendControlRequestWithResponse(
+      ControlRequests.setModel(model),
+      options
+    );
   }
 
-  async setMaxThinkingTokens(maxThinkingTokens: number | null): Promise<void> {
-    this.controlManager.sendControlRequest(ControlRequests.setMaxThinkingTokens(maxThinkingTokens));
+  async setMaxThinkingTokens(
+    maxThinkingTokens: number | null,
+    options?: ControlRequestOptions
+  ): Promise<void> {
+    this.runtimeOptions.maxThinkingTokens = maxThinkingTokens ?? undefined;
+    await this.controlManager.sendControlRequestWithResponse(
+      ControlRequests.setMaxThinkingTokens(maxThinkingTokens),
+      options
+    );
   }
 
   async streamInput(stream: AsyncIterable<SDKUserMessage>): Promise<void> {
     for await (const msg of stream) {
-      this.controlManager.writeToStdin(msg);
+      this.writeUserMessage(msg);
     }
   }
 
-  close(): void {
-    if (!this.closed) {
-      this.closed = true;
-      if (this.abortController && this.abortHandler) {
-        this.abortController.signal.removeEventListener('abort', this.abortHandler);
-        this.abortHandler = null;
-      }
-      this.router?.close();
-      this.process?.kill();
-      if (!this.messageQueue.isDone()) {
-        this.messageQueue.complete();
-      }
-      this.controlManager.rejectAll(new Error('Query closed'));
+  /**
+   * Stop the query. By default the CLI (its whole process group with the
+   * processGroup option) gets SIGTERM right away. With `graceful`, stdin is
+   * ended instead so the CLI finishes its turn and its remaining messages are
+   * still delivered. Either way it gets SIGKILL if it hasn't exited after
+   * `timeoutMs`.
+   */
+  close(options: CloseOptions = {}): Promise<void> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_CLOSE_TIMEOUT_MS;
+    if (options.graceful && !this.closed) {
+      this.gracefulClose ??= this.closeGracefully(timeoutMs);
+      return this.gracefulClose;
     }
+    this.terminate();
+    return this.killAfter(timeoutMs);
+  }
+
+  /** Close, failing any iterator with `error` instead of ending it cleanly */
+  closeWithError(error: Error): void {
+    this.endStream(error);
+    this.close();
   }
 
   async initializationResult(): Promise<SDKControlInitializeResponse> {
@@ -274,10 +607,62 @@ export class QueryImpl implements Query {
     return init.output_style;
   }
 
-  async mcpServerStatus(): Promise<McpServerStatus[]> {
+  // Result helpers read the query's own iterator up to the next result, so a
+  // streaming query can call them once per turn.
+
+  async result(): Promise<SDKResultMessage> {
+    for await (const msg of this.untilResult()) {
+      if (msg.type === 'result') return msg;
+    }
+    throw new Error('Query ended without a result message');
+  }
+
+  async *text(): AsyncIterableIterator<string> {
+    const partials = this.options.includePartialMessages === true;
+    for await (const msg of this.untilResult()) {
+      if (partials) {
+        if (
+          msg.type === 'stream_event' &&
+          msg.parent_tool_use_id === null &&
+          msg.event.type === 'content_block_delta' &&
+          msg.event.delta.type === 'text_delta'
+        ) {
+          yield msg.event.delta.text;
+        }
+      } else if (msg.type === 'assistant' && msg.parent_tool_use_id === null) {
+        yield* assistantText(msg);
+      }
+    }
+  }
+
+  async collect(): Promise<CollectedResult> {
+    const messages: QueryMessage[] = [];
+    let lastText = '';
+    for await (const msg of this.untilResult()) {
+      messages.push(msg);
+      if (msg.type === 'assistant' && msg.parent_tool_use_id === null) {
+        const text = assistantText(msg).join('');
+        if (text) lastText = text;
+      }
+      if (msg.type === 'result') {
+        const success = msg.subtype === 'success';
+        return {
+          messages,
+          finalText: success ? msg.result : lastText,
+          structuredOutput: success ? msg.structured_output : undefined,
+          usage: msg.usage,
+          costUsd: msg.total_cost_usd,
+          sessionId: msg.session_id,
+        };
+      }
+    }
+    throw new Error('Query ended without a result message');
+  }
+
+  async mcpServerStatus(options?: ControlRequestOptions): Promise<McpServerStatus[]> {
     const response = await this.controlManager.sendControlRequestWithResponse<{
       mcpServers: McpServerStatus[];
-    }>(ControlRequests.mcpStatus());
+    }>(ControlRequests.mcpStatus(), options);
     return response.mcpServers;
   }
 
@@ -286,28 +671,127 @@ export class QueryImpl implements Query {
     return init.account;
   }
 
+  /**
+   * Rewind files edited since the given user message to their checkpointed state.
+   * The CLI only tracks checkpoints when spawned with enableFileCheckpointing.
+   */
   async rewindFiles(
-    _userMessageId: string,
-    _options?: { dryRun?: boolean }
+    userMessageId: string,
+    options?: { dryRun?: boolean } & ControlRequestOptions
   ): Promise<RewindFilesResult> {
-    throw new Error('rewindFiles() not yet implemented');
+    if (!this.options.enableFileCheckpointing) {
+      throw new Error(
+        'rewindFiles() requires file checkpointing. Set enableFileCheckpointing: true in query options.'
+      );
+    }
+    return this.controlManager.sendControlRequestWithResponse<RewindFilesResult>(
+      ControlRequests.rewindFiles(userMessageId, options?.dryRun),
+      options
+    );
+  }
+
+  async restoreCheckpoint(
+    userMessageId: string,
+    options?: { dryRun?: boolean }
+  ): Promise<CheckpointRestoreResult> {
+    if (!this.checkpointer) {
+      throw new Error(
+        'restoreCheckpoint() requires SDK-side checkpointing. Set sdkFileCheckpointing: true in query options.'
+      );
+    }
+    return this.checkpointer.restore(userMessageId, options);
+  }
+
+  listCheckpoints(): string[] {
+    if (!this.checkpointer) {
+      throw new Error(
+        'listCheckpoints() requires SDK-side checkpointing. Set sdkFileCheckpointing: true in query options.'
+      );
+    }
+    return this.checkpointer.listCheckpoints();
+  }
+
+  queueMetrics(): QueueMetrics {
+    return {
+      ...this.hub.metrics(),
+      highWaterMark: this.options.backpressure?.highWaterMark ?? null,
+      paused: this.readPaused,
+      pauseCount: this.pauseCount,
+    };
+  }
+
+  stats(): QueryStats {
+    return this.statsCollector.snapshot(this.hub.metrics().depth);
+  }
+
+  on<E extends QueryEventName>(event: E, handler: (payload: QueryEventMap[E]) => void): () => void {
+    return this.events.on(event, handler);
   }
 
-  async reconnectMcpServer(serverName: string): Promise<void> {
+  off<E extends QueryEventName>(event: E, handler: (payload: QueryEventMap[E]) => void): void {
+    this.events.off(event, handler);
+  }
+
+  subscribe<T extends QueryMessage>(
+    filter: (message: QueryMessage) => message is T,
+    options?: SubscribeOptions
+  ): AsyncIterableIterator<T>;
+  subscribe(
+    filter?: (message: QueryMessage) => boolean,
+    options?: SubscribeOptions
+  ): AsyncIterableIterator<QueryMessage>;
+  subscribe(
+    filter?: (message: QueryMessage) => boolean,
+    options?: SubscribeOptions
+  ): AsyncIterableIterator<QueryMessage> {
+    return this.subscriptionIterator(this.hub.subscribe(filter, options?.replay));
+  }
+
+  tee(n: number, options?: SubscribeOptions): Array<AsyncIterableIterator<QueryMessage>> {
+    if (!Number.isInteger(n) || n < 1) {
+      throw new Error(`tee() needs a positive integer count, got ${n}`);
+    }
+    // Branches pick up where the query's own iterator left off; a replay
+    // already holding some of the unread messages is merged with them
+    const own = this.messageQueue;
+    const unread = own?.takeAll() ?? [];
+    const branches = Array.from({ length: n }, () =>
+      this.subscriptionIterator(this.hub.subscribe(undefined, options?.replay, unread))
+    );
+    if (own) {
+      this.hub.unsubscribe(
+        own,
+        new Error('Query stream was split with tee(); iterate the returned iterators instead')
+      );
+    }
+    return branches;
+  }
+
+  async reconnectMcpServer(serverName: string, options?: ControlRequestOptions): Promise<void> {
     await this.controlManager.sendControlRequestWithResponse(
-      ControlRequests.mcpReconnect(serverName)
+      ControlRequests.mcpReconnect(serverName),
+      options
     );
   }
 
-  async toggleMcpServer(serverName: string, enabled: boolean): Promise<void> {
+  async toggleMcpServer(
+    serverName: string,
+    enabled: boolean,
+    options?: ControlRequestOptions
+  ): Promise<void> {
     await this.controlManager.sendControlRequestWithResponse(
-      ControlRequests.mcpToggle(serverName, enabled)
+      ControlRequests.mcpToggle(serverName, enabled),
+      options
     );
   }
 
-  async setMcpServers(servers: Record<string, McpServerConfig>): Promise<McpSetServersResult> {
+  async setMcpServers(
+    servers: Record<string, McpServerConfig>,
+    options?: ControlRequestOptions
+  ): Promise<McpSetServersResult> {
     return this.controlManager.sendControlRequestWithResponse(
-      ControlRequests.mcpSetServers(servers)
+      ControlRequests.mcpSetServers(servers),
+      options
     );
   }
 
@@ -315,17 +799,138 @@ export class QueryImpl implements Query {
   // Private helpers
   // ============================================================================
 
+  /** The query's own iterator; there is none with options.callbacksOnly */
+  private ownQueue(): MessageQueue<QueryMessage> {
+    if (!this.messageQueue) {
+      throw new Error(
+        'Query was created with callbacksOnly; receive its messages with on() or subscribe()'
+      );
+    }
+    return this.messageQueue;
+  }
+
+  /** Wrap a hub subscription; returning from it unsubscribes */
+  private subscriptionIterator<T extends QueryMessage>(
+    queue: MessageQueue<QueryMessage>
+  ): AsyncIterableIterator<T> {
+    const hub = this.hub;
+    return {
+      next: () => queue.next() as Promise<IteratorResult<T>>,
+      async return() {
+        hub.unsubscribe(queue);
+        return { value: undefined, done: true };
+      },
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  }
+
+  /**
+   * Messages from the query's own iterator up to and including the next
+   * result. Pulls with next() directly: leaving a for-await over the query
+   * would close it.
+   */
+  private async *untilResult(): AsyncGenerator<QueryMessage> {
+    while (true) {
+      const { value, done } = await this.next();
+      if (done) return;
+      yield value;
+      if (value.type === 'result') return;
+    }
+  }
+
   private async consumeInputGenerator(generator: AsyncIterable<SDKUserMessage>): Promise<void> {
     try {
       for await (const userMsg of generator) {
-        this.controlManager.writeToStdin(userMsg);
+        this.writeUserMessage(userMsg);
       }
     } catch (error: unknown) {
       const wrappedError = error instanceof Error ? error : new Error(String(error));
       console.error('[QueryImpl] Error consuming input generator:', wrappedError);
-      if (!this.messageQueue.isDone()) {
-        this.messageQueue.complete(wrappedError);
-      }
+      this.endStream(wrappedError);
     }
   }
+
+  private async closeGracefully(timeoutMs: number): Promise<void> {
+    this.inputEnded = true;
+    this.transport?.endInput();
+    if (!(await this.waitForExit(timeoutMs))) {
+      this.transport?.kill?.('SIGKILL');
+    }
+    this.terminate();
+  }
+
+  /** Stop routing and tear down the transport, ending every iterator */
+  private terminate(): void {
+    if (this.closed) return;
+    this.closed = true;
+    if (this.abortController && this.abortHandler) {
+      this.abortController.signal.removeEventListener('abort', this.abortHandler);
+      this.abortHandler = null;
+    }
+    this.router?.close();
+    this.controlHandler.abortCallbacks(new AbortError('Query closed'));
+    // Also reaches tool subprocesses left behind by a CLI that already exited
+    this.transport?.close();
+    this.endStream();
+    this.controlManager.rejectAll(new AbortError('Query closed'));
+    unregisterQuery(this);
+  }
+
+  /** SIGKILL the CLI unless it exits within timeoutMs */
+  private async killAfter(timeoutMs: number): Promise<void> {
+    if (!(await this.waitForExit(timeoutMs))) {
+      this.transport?.kill?.('SIGKILL');
+    }
+  }
+
+  /** Resolves true once the current transport has exited, false after timeoutMs */
+  private waitForExit(timeoutMs: number): Promise<boolean> {
+    if (!this.transport || this.transportExited) return Promise.resolve(true);
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => resolve(false), timeoutMs);
+      // The CLI process itself keeps the host alive while it runs
+      timer.unref?.();
+      this.exitWaiters.push(() => {
+        clearTimeout(timer);
+        resolve(true);
+      });
+    });
+  }
+
+  /** Forward CLI stderr to options.stderr, keeping the tail for CliExitError */
+  private captureStderr(data: string): void {
+    this.stderrTail = (this.stderrTail + data).slice(-STDERR_TAIL_SIZE);
+    this.options.stderr?.(data);
+  }
+
+  /** Write a user message, queueing a new SDK-side checkpoint when enabled */
+  private writeUserMessage(msg: SDKUserMessage): void {
+    const uuid = this.beginCheckpoint(msg.uuid);
+    const stamped = uuid ? { ...msg, uuid } : msg;
+    this.recovery?.track(stamped);
+    this.watchdog?.turnStarted();
+    this.statsCollector.turnStarted();
+    // While restarting, the message is sent once the new process is up
+    if (!this.restarting) {
+      this.controlManager.writeToStdin(stamped);
+    }
+  }
+
+  /**
+   * Queue a checkpoint for a user message; it opens when the message's turn starts.
+   * @returns The message uuid, or undefined when SDK-side checkpointing is off
+   */
+  private beginCheckpoint(uuid?: SDKUserMessage['uuid']): SDKUserMessage['uuid'] {
+    if (!this.checkpointer) return undefined;
+    const id = uuid ?? randomUUID();
+    this.checkpointer.enqueue(id);
+    return id;
+  }
+}
+
+/** Text blocks of an assistant message */
+function assistantText(msg: SDKAssistantMessage): string[] {
+  return msg.message.content.flatMap((block) => (block.type === 'text' ? [block.text] : []));
 }
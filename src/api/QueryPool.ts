@@ -0,0 +1,287 @@
+/**
+ * Pre-warmed CLI process pool
+ *
+ * Keeps `size` CLI processes spawned and through the init handshake so a
+ * query only pays for sending its prompt. Each process serves one query and
+ * is replaced in the background once handed out.
+ *
+ * @example
+ * ```typescript
+ * import { createQueryPool } from 'open-claude-agent-sdk';
+ *
+ * const pool = createQueryPool({ size: 2, options: { model: 'haiku' } });
+ * await pool.ready();
+ *
+ * for await (const msg of pool.query({ prompt: 'Hello' })) {
+ *   if (msg.type === 'result') break;
+ * }
+ * pool.close();
+ * ```
+ */
+
+import type { ExtendedOptions, Query, SDKUserMessage } from '../types/index.ts';
+import { assertValidOptions } from '../validation.ts';
+import { DefaultProcessFactory, type ProcessFactory } from './ProcessFactory.ts';
+import { QueryImpl } from './QueryImpl.ts';
+
+export type QueryPoolOptions = {
+  /** Number of warm processes to keep ready */
+  size: number;
+  /**
+   * Options every pooled process is spawned and initialized with. Their
+   * abortController closes the pool and aborts the queries it handed out.
+   */
+  options?: ExtendedOptions;
+};
+
+export type QueryPoolEventMap = {
+  /** A warm process failed to spawn or to finish its init handshake; the pool carries on */
+  error: Error;
+};
+
+type Handler<E extends keyof QueryPoolEventMap> = (payload: QueryPoolEventMap[E]) => void;
+
+/**
+ * Options a pooled query may set on its own. Everything else is fixed when
+ * the process is spawned or initialized and must match the pool's options.
+ */
+const RUNTIME_OPTIONS = [
+  'model',
+  'permissionMode',
+  'maxThinkingTokens',
+  'abortController',
+  'budget',
+] as const satisfies ReadonlyArray<keyof ExtendedOptions>;
+
+type RuntimeOptions = Pick<ExtendedOptions, (typeof RUNTIME_OPTIONS)[number]>;
+
+export class QueryPool {
+  private idle: QueryImpl[] = [];
+  private warming = new Map<QueryImpl, Promise<void>>();
+  private closed = false;
+  private handlers = new Map<keyof QueryPoolEventMap, Set<Handler<keyof QueryPoolEventMap>>>();
+
+  constructor(
+    private size: number,
+    private options: ExtendedOptions,
+    private processFactory: ProcessFactory = new DefaultProcessFactory()
+  ) {
+    if (!Number.isInteger(size) || size < 1) {
+      throw new Error(`Query pool size must be a positive integer, got ${size}`);
+    }
+    assertValidOptions(options);
+    const signal = options.abortController?.signal;
+    if (signal?.aborted) {
+      this.closed = true;
+      return;
+    }
+    signal?.addEventListener('abort', () => this.close(), { once: true });
+    for (let i = 0; i < size; i++) this.warm();
+  }
+
+  /** Number of initialized processes waiting for a query */
+  get available(): number {
+    return this.idle.length;
+  }
+
+  /** Register an event handler. Returns a function that removes it. */
+  on<E extends keyof QueryPoolEventMap>(event: E, handler: Handler<E>): () => void {
+    let set = this.handlers.get(event);
+    if (!set) {
+      set = new Set();
+      this.handlers.set(event, set);
+    }
+    set.add(handler as Handler<keyof QueryPoolEventMap>);
+    return () => this.off(event, handler);
+  }
+
+  off<E extends keyof QueryPoolEventMap>(event: E, handler: Handler<E>): void {
+    this.handlers.get(event)?.delete(handler as Handler<keyof QueryPoolEventMap>);
+  }
+
+  /**
+   * Resolves once every process currently spawning has finished its init
+   * handshake (successfully or not).
+   */
+  async ready(): Promise<void> {
+    await Promise.all(this.warming.values());
+  }
+
+  /**
+   * Run a query on a warm process. It is aborted by its own abortController
+   * or, if it has none, by the pool's.
+   *
+   * @throws {Error} If an option differs from the pool's and cannot be applied after spawn
+   * @throws {OptionsValidationError} If the per-query options are invalid (see optionsValidation)
+   */
+  query(params: {
+    prompt: string | AsyncIterable<SDKUserMessage>;
+    options?: Partial<ExtendedOptions>;
+  }): Query {
+    const runtime = this.validateOptions(params.options ?? {});
+    // As query() does, for what this query changes (e.g. its permissionMode)
+    assertValidOptions({ ...this.options, ...runtime }, this.options);
+    const abortController = runtime.abortController ?? this.options.abortController;
+
+    if (abortController?.signal.aborted) {
+      return QueryImpl.createAborted() as Query;
+    }
+    if (this.closed) {
+      throw new Error('Query pool is closed');
+    }
+
+    // Unlike query(), the CLI doesn't get the governor's cap as its maxBudgetUsd:
+    // the process was spawned before this query. The governor still interrupts it.
+    const budget = runtime.budget ?? this.options.budget;
+    budget?.governor.admit(budget.key);
+
+    const instance = this.acquire();
+    budget?.governor.register(instance, budget.key);
+    this.applyRuntimeOptions(instance, runtime);
+    instance.start(params.prompt, abortController);
+
+    // Replace the process we just handed out, off the caller's path
+    setImmediate(() => this.refill());
+
+    return instance as Query;
+  }
+
+  /** Close all idle and warming processes. Queries already handed out keep running. */
+  close(): void {
+    this.closed = true;
+    for (const instance of [...this.idle, ...this.warming.keys()]) {
+      instance.close();
+    }
+    this.idle = [];
+    this.warming.clear();
+  }
+
+  /** Take the readiest live process, spawning one if the pool is empty */
+  private acquire(): QueryImpl {
+    this.idle = this.idle.filter((instance) => instance.isAlive());
+    const ready = this.idle.shift();
+    if (ready) return ready;
+
+    // A process still in its handshake is closer to ready than a fresh spawn
+    for (const instance of this.warming.keys()) {
+      if (instance.isAlive()) {
+        this.warming.delete(instance);
+        return instance;
+      }
+    }
+
+    return QueryImpl.connect(this.options, this.processFactory);
+  }
+
+  private refill(): void {
+    if (this.closed) return;
+    this.idle = this.idle.filter((instance) => instance.isAlive());
+    const missing = this.size - this.idle.length - this.warming.size;
+    for (let i = 0; i < missing; i++) this.warm();
+  }
+
+  private warm(): void {
+    let instance: QueryImpl;
+    try {
+      instance = QueryImpl.connect(this.options, this.processFactory);
+    } catch (error: unknown) {
+      // Also thrown by the next query that falls back to connect() (e.g. CLI not found).
+      // Deferred so handlers registered right after createQueryPool() see it.
+      const err = error instanceof Error ? error : new Error(String(error));
+      queueMicrotask(() => this.emit('error', err));
+      return;
+    }
+
+    // Failed handshakes are dropped, not retried here — refill() happens on the
+    // next query, so a CLI that crashes on startup can't cause a respawn loop.
+    const warming = instance.initializationResult().then(
+      () => {
+        if (!this.warming.delete(instance)) return;
+        if (this.closed) {
+          instance.close();
+        } else {
+          this.idle.push(instance);
+        }
+      },
+      (error: unknown) => {
+        // Handed out mid-handshake, the query reports the failure itself
+        const pooled = this.warming.delete(instance);
+        instance.close();
+        if (pooled) this.emit('error', error instanceof Error ? error : new Error(String(error)));
+      }
+    );
+    this.warming.set(instance, warming);
+  }
+
+  /** Call handlers in registration order; a throwing handler must not break the pool */
+  private emit<E extends keyof QueryPoolEventMap>(event: E, payload: QueryPoolEventMap[E]): void {
+    for (const handler of [...(this.handlers.get(event) ?? [])]) {
+      try {
+        handler(payload);
+      } catch (error: unknown) {
+        console.error(`[QueryPool] '${event}' handler threw:`, error);
+      }
+    }
+  }
+
+  private validateOptions(options: Partial<ExtendedOptions>): RuntimeOptions {
+    const runtime: RuntimeOptions = {};
+    for (const [key, value] of Object.entries(options) as Array<[keyof ExtendedOptions, unknown]>) {
+      if ((RUNTIME_OPTIONS as ReadonlyArray<string>).includes(key)) {
+        (runtime as Record<string, unknown>)[key] = value;
+      } else if (value !== undefined && !isSameOption(value, this.options[key])) {
+        throw new Error(
+          `Option '${key}' differs from the pool's options and cannot be applied after the CLI is spawned. ` +
+            `Only ${RUNTIME_OPTIONS.join(', ')} may vary per query.`
+        );
+      }
+    }
+    return runtime;
+  }
+
+  /** A rejected runtime option fails the query: it would otherwise run with the pool's settings */
+  private applyRuntimeOptions(instance: QueryImpl, runtime: RuntimeOptions): void {
+    const fail = (error: Error) => instance.closeWithError(error);
+    if (runtime.model !== undefined && runtime.model !== this.options.model) {
+      instance.setModel(runtime.model).catch(fail);
+    }
+    if (
+      runtime.permissionMode !== undefined &&
+      runtime.permissionMode !== this.options.permissionMode
+    ) {
+      instance.setPermissionMode(runtime.permissionMode).catch(fail);
+    }
+    if (
+      runtime.maxThinkingTokens !== undefined &&
+      runtime.maxThinkingTokens !== this.options.maxThinkingTokens
+    ) {
+      instance.setMaxThinkingTokens(runtime.maxThinkingTokens).catch(fail);
+    }
+  }
+}
+
+/**
+ * Options are the same if identical, or (for plain data) structurally equal.
+ * Functions and objects that don't serialize (e.g. SDK MCP server instances)
+ * only match by identity.
+ */
+function isSameOption(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a === 'function' || typeof b === 'function') return false;
+  try {
+    return JSON.stringify(a) === JSON.stringify(b);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Create a pool of pre-spawned, pre-initialized CLI processes.
+ *
+ * Per-query options may only change `model`, `permissionMode` and
+ * `maxThinkingTokens` (applied via control requests) and pass an
+ * `abortController` or `budget`; any other option must match the pool's.
+ */
+export function createQueryPool(config: QueryPoolOptions): QueryPool {
+  return new QueryPool(config.size, config.options ?? {});
+}
@@ -0,0 +1,95 @@
+/**
+ * Official SDK transport adapter
+ *
+ * Transports written against the official SDK's `Transport` interface
+ * (write / readMessages / endInput / close / isReady) hand over parsed
+ * messages instead of NDJSON lines and have no exit or error events. This
+ * wraps one as a CliTransport so it can be returned from the `transport`
+ * option as it is.
+ */
+
+import { EventEmitter } from 'node:events';
+import type { CliTransport, Transport } from '../types/index.ts';
+
+export class SdkTransportAdapter implements CliTransport {
+  private events = new EventEmitter();
+  private exited = false;
+  /** Set while paused; readLines() waits on it before pulling the next message */
+  private paused: { promise: Promise<void>; resolve: () => void } | null = null;
+
+  constructor(private transport: Transport) {}
+
+  write(data: string): void {
+    try {
+      const written = this.transport.write(data);
+      if (written instanceof Promise) written.catch((error) => this.fail(error));
+    } catch (error: unknown) {
+      this.fail(error);
+    }
+  }
+
+  /**
+   * Re-serializes each message from readMessages(). The end of the stream
+   * is reported as exit code 0, a failure as 'error' followed by exit code 1.
+   */
+  async *readLines(): AsyncIterable<string> {
+    try {
+      for await (const message of this.transport.readMessages()) {
+        yield JSON.stringify(message);
+        if (this.paused) await this.paused.promise;
+      }
+      this.exit(0);
+    } catch (error: unknown) {
+      this.fail(error);
+    }
+  }
+
+  endInput(): void {
+    this.transport.endInput();
+  }
+
+  close(): void {
+    this.transport.close();
+    this.exit(0);
+  }
+
+  pause(): void {
+    if (this.paused) return;
+    let resolve = () => {};
+    const promise = new Promise<void>((r) => {
+      resolve = r;
+    });
+    this.paused = { promise, resolve };
+  }
+
+  resume(): void {
+    this.paused?.resolve();
+    this.paused = null;
+  }
+
+  on(event: 'exit', listener: (code: number | null, signal: NodeJS.Signals | null) => void): void;
+  on(event: 'error', listener: (error: Error) => void): void;
+  // biome-ignore lint/suspicious/noExplicitAny: overload implementation signature
+  on(event: 'exit' | 'error', listener: (...args: any[]) => void): void {
+    this.events.on(event, listener);
+  }
+
+  private fail(error: unknown): void {
+    if (this.exited) return;
+    const err = error instanceof Error ? error : new Error(String(error));
+    if (this.events.listenerCount('error') > 0) this.events.emit('error', err);
+    this.exit(1);
+  }
+
+  private exit(code: number): void {
+    if (this.exited) return;
+    this.exited = true;
+    this.resume();
+    this.events.emit('exit', code, null);
+  }
+}
+
+/** Use a custom transport as-is, or adapt one written against the official SDK */
+export function toCliTransport(transport: CliTransport | Transport): CliTransport {
+  return 'readLines' in transport ? transport : new SdkTransportAdapter(transport);
+}
@@ -0,0 +1,77 @@
+/**
+ * Socket transport
+ *
+ * CliTransport over TCP or a Unix domain socket. Lets the CLI run in a
+ * separate container or sidecar: the remote end pipes the socket to the
+ * CLI's stdin/stdout and closes it when the CLI exits.
+ *
+ * @example
+ * ```typescript
+ * import { query, SocketTransport } from 'open-claude-agent-sdk';
+ *
+ * const q = query({
+ *   prompt: 'Hello',
+ *   options: { transport: () => new SocketTransport({ path: '/run/claude.sock' }) },
+ * });
+ * ```
+ */
+
+import { createConnection, type Socket } from 'node:net';
+import type { CliTransport } from '../types/index.ts';
+import { readLines } from './ChildProcessTransport.ts';
+
+export type SocketTransportOptions = { path: string } | { host?: string; port: number };
+
+export class SocketTransport implements CliTransport {
+  private socket: Socket;
+
+  /**
+   * Connects immediately; writes made before the connection is established
+   * are buffered by the socket.
+   */
+  constructor(options: SocketTransportOptions) {
+    this.socket = createConnection({ ...options, allowHalfOpen: true });
+    this.socket.setNoDelay(true);
+  }
+
+  write(data: string): void {
+    if (this.socket.writable) {
+      this.socket.write(data);
+    }
+  }
+
+  readLines(): AsyncIterable<string> {
+    return readLines(this.socket);
+  }
+
+  pause(): void {
+    this.socket.pause();
+  }
+
+  resume(): void {
+    this.socket.resume();
+  }
+
+  endInput(): void {
+    this.socket.end();
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+
+  /**
+   * There is no exit code over a socket: a clean close reports 0, a close
+   * caused by a socket error reports 1 (after the 'error' event).
+   */
+  on(event: 'exit', listener: (code: number | null, signal: NodeJS.Signals | null) => void): void;
+  on(event: 'error', listener: (error: Error) => void): void;
+  // biome-ignore lint/suspicious/noExplicitAny: overload implementation signature
+  on(event: 'exit' | 'error', listener: (...args: any[]) => void): void {
+    if (event === 'exit') {
+      this.socket.on('close', (hadError: boolean) => listener(hadError ? 1 : 0, null));
+    } else {
+      this.socket.on('error', listener);
+    }
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * CLI discovery for callers
+ *
+ * getCliInfo() answers "which CLI would query() run, and which version is
+ * it?" without starting a query: handy in startup checks and bug reports.
+ */
+
+import { probeCliVersion } from '../core/cliVersion.ts';
+import { detectClaudeBinary } from '../core/spawn.ts';
+import type { CliInfo, Options } from '../types/index.ts';
+
+/**
+ * Locate the CLI the way query() does and read its version. The version is
+ * probed once per path, without blocking the event loop, and cached for the
+ * life of the process.
+ *
+ * @throws {CliNotFoundError} If no CLI is found (as a rejection)
+ *
+ * @example
+ * const { path, version } = await getCliInfo();
+ * console.log(`Using Claude CLI ${version ?? 'unknown'} at ${path}`);
+ */
+export async function getCliInfo(
+  options: Pick<Options, 'pathToClaudeCodeExecutable' | 'executable' | 'cwd'> = {}
+): Promise<CliInfo> {
+  return probeCliVersion(detectClaudeBinary(options), options.executable);
+}
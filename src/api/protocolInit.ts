@@ -30,7 +30,7 @@ export function sendProtocolInit(
   sdkMcpServerNames: string[],
   controlHandler: ControlProtocolHandler
 ): string {
-  const requestId = `init_${Date.now()}`;
+  const requestId = manager.nextRequestId('init');
   manager.initRequestId = requestId;
 
   let systemPrompt: string | undefined;
@@ -79,8 +79,15 @@ export function sendProtocolInit(
 
 /**
  * Send the initial user prompt message to CLI stdin.
+ *
+ * @param uuid Optional message uuid (set when SDK-side checkpointing is on)
+ * @returns The message as written
  */
-export function sendInitialPrompt(manager: ControlRequestManager, prompt: string): void {
+export function sendInitialPrompt(
+  manager: ControlRequestManager,
+  prompt: string,
+  uuid?: SDKUserMessage['uuid']
+): SDKUserMessage {
   const initialMessage: SDKUserMessage = {
     type: 'user',
     message: {
@@ -89,7 +96,9 @@ export function sendInitialPrompt(manager: ControlRequestManager, prompt: string
     },
     session_id: '',
     parent_tool_use_id: null,
+    ...(uuid && { uuid }),
   };
 
   manager.writeToStdin(initialMessage);
+  return initialMessage;
 }
@@ -4,7 +4,7 @@
  * Reference: https://buildwithaws.substack.com/p/inside-the-claude-agent-sdk-from
  */
 
-import type { Options, Query, SDKUserMessage } from '../types/index.ts';
+import type { ExtendedOptions, Query, SDKUserMessage } from '../types/index.ts';
 import { QueryImpl } from './QueryImpl.ts';
 
 /**
@@ -24,13 +24,15 @@ import { QueryImpl } from './QueryImpl.ts';
  * Tip: Cast to ExtendedQuery to access extra convenience methods:
  *   const q = query({ prompt: '...' }) as ExtendedQuery;
  *   const styles = await q.availableOutputStyles();
+ * ExtendedQuery also types the stream as QueryMessage, which includes the
+ * SDKRecoveryMessage emitted with options.recovery.
  *
  * @param params Query parameters (prompt and options)
  * @returns Query interface (AsyncGenerator + control methods)
  */
 export function query(params: {
   prompt: string | AsyncIterable<SDKUserMessage>;
-  options?: Options;
+  options?: ExtendedOptions;
 }): Query {
-  return QueryImpl.create(params);
+  return QueryImpl.create(params) as Query;
 }
@@ -0,0 +1,130 @@
+/**
+ * V2 session API (unstable)
+ *
+ * Object-oriented wrapper over a streaming-input QueryImpl, compatible with
+ * the official SDK's unstable_v2_* functions: send() queues a user message
+ * and stream() yields messages up to and including the next result. One CLI
+ * process serves the whole session.
+ */
+
+import type {
+  SDKMessage,
+  SDKResultMessage,
+  SDKSession,
+  SDKUserMessage,
+  SessionOptions,
+} from '../types/index.ts';
+import { MessageQueue } from './MessageQueue.ts';
+import { QueryImpl } from './QueryImpl.ts';
+
+class Session implements SDKSession {
+  private input = new MessageQueue<SDKUserMessage>();
+  private query: QueryImpl;
+  private closed = false;
+  private closing: Promise<void> | null = null;
+  private _sessionId: string | null;
+
+  constructor(options: SessionOptions) {
+    this._sessionId = options.resume ?? null;
+    const input = this.input;
+    this.query = QueryImpl.create({
+      prompt: {
+        [Symbol.asyncIterator]: () => ({ next: () => input.next() }),
+      },
+      // Like the official SDK, sessions don't load filesystem settings unless asked
+      options: { settingSources: [], ...options },
+    });
+  }
+
+  /**
+   * The session id: known up front when resuming, otherwise from the first
+   * system init message.
+   *
+   * @throws {Error} If no init message has been streamed yet
+   */
+  get sessionId(): string {
+    if (this._sessionId === null) {
+      throw new Error('Session ID not available until after receiving messages');
+    }
+    return this._sessionId;
+  }
+
+  async send(message: string | SDKUserMessage): Promise<void> {
+    if (this.closed) throw new Error('Cannot send to closed session');
+    this.input.push(
+      typeof message === 'string'
+        ? {
+            type: 'user',
+            session_id: '',
+            message: { role: 'user', content: [{ type: 'text', text: message }] },
+            parent_tool_use_id: null,
+          }
+        : message
+    );
+  }
+
+  /** Messages up to and including the next result; call again for the next turn */
+  async *stream(): AsyncGenerator<SDKMessage, void> {
+    while (true) {
+      const { value, done } = await this.query.next();
+      if (done) return;
+      if (value.type === 'system' && value.subtype === 'init') {
+        this._sessionId = value.session_id;
+      }
+      // SDKSession streams are typed as SDKMessage; recovery messages pass through
+      yield value as SDKMessage;
+      if (value.type === 'result') return;
+    }
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.input.complete();
+    this.closing = this.query.close();
+  }
+
+  /** Close, then wait for the CLI to exit */
+  async [Symbol.asyncDispose](): Promise<void> {
+    this.close();
+    await this.closing;
+  }
+}
+
+/**
+ * Start a multi-turn session.
+ *
+ * @example
+ * await using session = unstable_v2_createSession({ model: 'sonnet' });
+ * await session.send('Hello');
+ * for await (const msg of session.stream()) console.log(msg);
+ */
+export function unstable_v2_createSession(options: SessionOptions): SDKSession {
+  return new Session(options);
+}
+
+/** Continue an existing session by id (the CLI's --resume) */
+export function unstable_v2_resumeSession(sessionId: string, options: SessionOptions): SDKSession {
+  return new Session({ ...options, resume: sessionId });
+}
+
+/**
+ * One-shot prompt in a fresh session, resolving to the result message.
+ *
+ * @throws {Error} If the session ends without a result
+ */
+export async function unstable_v2_prompt(
+  message: string,
+  options: SessionOptions
+): Promise<SDKResultMessage> {
+  const session = new Session(options);
+  try {
+    await session.send(message);
+    for await (const msg of session.stream()) {
+      if (msg.type === 'result') return msg;
+    }
+    throw new Error('Session ended without result message');
+  } finally {
+    session.close();
+  }
+}
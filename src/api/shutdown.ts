@@ -0,0 +1,57 @@
+/**
+ * Process-wide query shutdown
+ *
+ * Every query with an open transport is registered here until its CLI exits
+ * or it is closed. shutdownAllQueries() closes them all.
+ *
+ * Queries whose CLI runs in its own process group (the processGroup option)
+ * don't get the terminal's Ctrl-C, so while any of them is live the host's
+ * SIGINT/SIGTERM runs shutdownAllQueries(). Once the queries are closed the
+ * signal is raised again if nothing else listens for it, so the host still
+ * exits as it would have without the SDK. Without processGroup no signal
+ * handlers are installed.
+ */
+
+import type { CloseOptions } from '../types/index.ts';
+
+type Closable = { close(options?: CloseOptions): Promise<void> };
+
+const SHUTDOWN_SIGNALS = ['SIGINT', 'SIGTERM'] as const;
+
+const liveQueries = new Set<Closable>();
+/** The live queries that detached their CLI from the terminal's signals */
+const groupQueries = new Set<Closable>();
+
+/** @internal */
+export function registerQuery(query: Closable, processGroup = false): void {
+  liveQueries.add(query);
+  if (!processGroup || groupQueries.has(query)) return;
+  groupQueries.add(query);
+  if (groupQueries.size === 1) {
+    for (const signal of SHUTDOWN_SIGNALS) process.on(signal, onSignal);
+  }
+}
+
+/** @internal */
+export function unregisterQuery(query: Closable): void {
+  liveQueries.delete(query);
+  if (!groupQueries.delete(query) || groupQueries.size > 0) return;
+  for (const signal of SHUTDOWN_SIGNALS) process.off(signal, onSignal);
+}
+
+/**
+ * Close every live query (default: SIGTERM each CLI's process group, SIGKILL
+ * after the timeout). Resolves once all CLI processes are gone.
+ */
+export async function shutdownAllQueries(options?: CloseOptions): Promise<void> {
+  await Promise.all([...liveQueries].map((query) => query.close(options)));
+}
+
+function onSignal(signal: NodeJS.Signals): void {
+  void shutdownAllQueries().finally(() => {
+    for (const s of SHUTDOWN_SIGNALS) process.off(s, onSignal);
+    if (process.listenerCount(signal) === 0) {
+      process.kill(process.pid, signal);
+    }
+  });
+}
@@ -0,0 +1,275 @@
+/**
+ * Human-in-the-loop approvals
+ *
+ * canUseTool has to answer in-process, but the person deciding may be in a
+ * browser. An ApprovalBroker turns each permission request into a pending
+ * approval with an id, announces it with a 'requested' event, and answers the
+ * CLI once approve(), modify() or deny() is called for that id (from a
+ * websocket message, an HTTP handler, ...). Approvals nobody answers can
+ * expire with a default decision; approvals whose query is interrupted or
+ * closed are cancelled.
+ *
+ * Approvals are plain JSON-serializable objects, so they can be forwarded
+ * to a UI as they are.
+ *
+ * @example
+ * ```typescript
+ * import { createApprovalBroker, query } from 'open-claude-agent-sdk';
+ *
+ * const broker = createApprovalBroker({ timeoutMs: 5 * 60_000 });
+ * broker.on('requested', (approval) => ws.send(JSON.stringify({ type: 'approval', approval })));
+ * broker.on('resolved', ({ approval, outcome }) =>
+ *   ws.send(JSON.stringify({ type: 'resolved', id: approval.id, outcome }))
+ * );
+ * ws.on('message', (data) => {
+ *   const { id, allow } = JSON.parse(String(data));
+ *   allow ? broker.approve(id) : broker.deny(id, { message: 'Rejected in the UI' });
+ * });
+ *
+ * query({ prompt: 'Clean up the build', options: { canUseTool: broker.canUseTool } });
+ * ```
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { CanUseTool, PermissionResult, PermissionUpdate } from './types/index.ts';
+
+export type ApprovalBrokerOptions = {
+  /** Resolve approvals nobody answered after this many milliseconds. Default: wait indefinitely */
+  timeoutMs?: number;
+  /** Decision for expired approvals. Default: 'deny' */
+  timeoutDecision?: 'allow' | 'deny';
+};
+
+/** A tool call waiting for a person's decision */
+export type PendingApproval = {
+  /** Broker-assigned id, passed to approve(), modify() and deny() */
+  id: string;
+  toolName: string;
+  input: Record<string, unknown>;
+  toolUseID: string;
+  /** Set when a subagent made the call */
+  agentID?: string;
+  /** Why the CLI asked (from the request's `decision_reason`) */
+  decisionReason?: string;
+  /** The path outside the allowed directories that triggered the request */
+  blockedPath?: string;
+  /** Permission updates that would stop the CLI asking again; pass them to approve() for "always allow" */
+  suggestions?: PermissionUpdate[];
+  /** Whatever was given to canUseToolFor(), e.g. a session or user id */
+  metadata?: Record<string, unknown>;
+  /** Epoch milliseconds */
+  createdAt: number;
+  /** Epoch milliseconds, or null without a timeout */
+  expiresAt: number | null;
+};
+
+/** How an approval ended */
+export type ApprovalOutcome = 'approved' | 'modified' | 'denied' | 'expired' | 'cancelled';
+
+/** An approval was answered (broker.on('resolved')) */
+export type ApprovalResolvedEvent = {
+  approval: PendingApproval;
+  outcome: ApprovalOutcome;
+  /** What the CLI was told */
+  result: PermissionResult;
+};
+
+export type ApprovalEventMap = {
+  requested: PendingApproval;
+  resolved: ApprovalResolvedEvent;
+};
+
+type Pending = {
+  approval: PendingApproval;
+  resolve: (result: PermissionResult) => void;
+  /** Clears the expiry timer and the abort listener */
+  cleanup: () => void;
+};
+
+type Handler<E extends keyof ApprovalEventMap> = (payload: ApprovalEventMap[E]) => void;
+
+export class ApprovalBroker {
+  private pending = new Map<string, Pending>();
+  private handlers = new Map<keyof ApprovalEventMap, Set<Handler<keyof ApprovalEventMap>>>();
+
+  constructor(private options: ApprovalBrokerOptions = {}) {
+    const { timeoutMs } = options;
+    if (timeoutMs !== undefined && !(timeoutMs > 0)) {
+      throw new Error(`Approval timeoutMs must be a positive number, got ${timeoutMs}`);
+    }
+  }
+
+  /** Pass as options.canUseTool, or as a permission policy's `ask` */
+  readonly canUseTool: CanUseTool = (toolName, input, context) =>
+    this.request(toolName, input, context);
+
+  /** A canUseTool whose approvals carry `metadata`, to tell queries sharing a broker apart */
+  canUseToolFor(metadata: Record<string, unknown>): CanUseTool {
+    return (toolName, input, context) => this.request(toolName, input, context, metadata);
+  }
+
+  /** Approvals still waiting, oldest first */
+  list(): PendingApproval[] {
+    return [...this.pending.values()].map((entry) => entry.approval);
+  }
+
+  get(id: string): PendingApproval | undefined {
+    return this.pending.get(id)?.approval;
+  }
+
+  /**
+   * Allow the tool call as requested. `updatedPermissions` (typically the
+   * approval's `suggestions`) keeps the CLI from asking again.
+   *
+   * @returns false if the approval is no longer pending
+   */
+  approve(id: string, options: { updatedPermissions?: PermissionUpdate[] } = {}): boolean {
+    const entry = this.pending.get(id);
+    if (!entry) return false;
+    return this.settle(id, 'approved', allow(entry.approval.input, options.updatedPermissions));
+  }
+
+  /**
+   * Allow the tool call with edited input, e.g. a corrected command.
+   *
+   * @returns false if the approval is no longer pending
+   */
+  modify(
+    id: string,
+    updatedInput: Record<string, unknown>,
+    options: { updatedPermissions?: PermissionUpdate[] } = {}
+  ): boolean {
+    return this.settle(id, 'modified', allow(updatedInput, options.updatedPermissions));
+  }
+
+  /**
+   * Refuse the tool call. `message` is shown to the model; `interrupt` also
+   * ends the turn.
+   *
+   * @returns false if the approval is no longer pending
+   */
+  deny(id: string, options: { message?: string; interrupt?: boolean } = {}): boolean {
+    const result: PermissionResult = {
+      behavior: 'deny',
+      message: options.message ?? 'The user denied this tool call',
+    };
+    if (options.interrupt) result.interrupt = true;
+    return this.settle(id, 'denied', result);
+  }
+
+  /** Register an event handler. Returns a function that removes it. */
+  on<E extends keyof ApprovalEventMap>(event: E, handler: Handler<E>): () => void {
+    let set = this.handlers.get(event);
+    if (!set) {
+      set = new Set();
+      this.handlers.set(event, set);
+    }
+    set.add(handler as Handler<keyof ApprovalEventMap>);
+    return () => this.off(event, handler);
+  }
+
+  off<E extends keyof ApprovalEventMap>(event: E, handler: Handler<E>): void {
+    this.handlers.get(event)?.delete(handler as Handler<keyof ApprovalEventMap>);
+  }
+
+  private request(
+    toolName: string,
+    input: Record<string, unknown>,
+    context: Parameters<CanUseTool>[2],
+    metadata?: Record<string, unknown>
+  ): Promise<PermissionResult> {
+    const { signal } = context;
+    if (signal.aborted) return Promise.resolve(CANCELLED);
+
+    const { timeoutMs } = this.options;
+    const createdAt = Date.now();
+    const approval: PendingApproval = {
+      id: randomUUID(),
+      toolName,
+      input,
+      toolUseID: context.toolUseID,
+      ...(context.agentID !== undefined && { agentID: context.agentID }),
+      ...(context.decisionReason !== undefined && { decisionReason: context.decisionReason }),
+      ...(context.blockedPath !== undefined && { blockedPath: context.blockedPath }),
+      ...(context.suggestions !== undefined && { suggestions: context.suggestions }),
+      ...(metadata !== undefined && { metadata }),
+      createdAt,
+      expiresAt: timeoutMs === undefined ? null : createdAt + timeoutMs,
+    };
+    const { id } = approval;
+
+    return new Promise((resolve) => {
+      const onAbort = () => this.settle(id, 'cancelled', CANCELLED);
+      const timer =
+        timeoutMs === undefined ? undefined : setTimeout(() => this.expire(id), timeoutMs);
+      signal.addEventListener('abort', onAbort, { once: true });
+      this.pending.set(id, {
+        approval,
+        resolve,
+        cleanup: () => {
+          clearTimeout(timer);
+          signal.removeEventListener('abort', onAbort);
+        },
+      });
+      this.emit('requested', approval);
+    });
+  }
+
+  private expire(id: string): void {
+    const entry = this.pending.get(id);
+    if (!entry) return;
+    const result: PermissionResult =
+      this.options.timeoutDecision === 'allow'
+        ? allow(entry.approval.input)
+        : {
+            behavior: 'deny',
+            message: `No one approved ${entry.approval.toolName} within ${this.options.timeoutMs}ms`,
+          };
+    this.settle(id, 'expired', result);
+  }
+
+  /** Answer the CLI and announce the outcome; false if the approval was already answered */
+  private settle(id: string, outcome: ApprovalOutcome, result: PermissionResult): boolean {
+    const entry = this.pending.get(id);
+    if (!entry) return false;
+    this.pending.delete(id);
+    entry.cleanup();
+    entry.resolve(result);
+    this.emit('resolved', { approval: entry.approval, outcome, result });
+    return true;
+  }
+
+  /** Call handlers in registration order; a throwing handler must not lose the approval */
+  private emit<E extends keyof ApprovalEventMap>(event: E, payload: ApprovalEventMap[E]): void {
+    for (const handler of [...(this.handlers.get(event) ?? [])]) {
+      try {
+        handler(payload);
+      } catch (error: unknown) {
+        console.error(`[ApprovalBroker] '${event}' handler threw:`, error);
+      }
+    }
+  }
+}
+
+/** Sent for a cancelled approval; the query was interrupted or closed, so the CLI ignores it */
+const CANCELLED: PermissionResult = {
+  behavior: 'deny',
+  message: 'The permission request was cancelled',
+};
+
+function allow(
+  updatedInput: Record<string, unknown>,
+  updatedPermissions?: PermissionUpdate[]
+): PermissionResult {
+  return updatedPermissions
+    ? { behavior: 'allow', updatedInput, updatedPermissions }
+    : { behavior: 'allow', updatedInput };
+}
+
+/**
+ * Create an approval broker. Queries use it with
+ * `{ canUseTool: broker.canUseTool }`.
+ */
+export function createApprovalBroker(options: ApprovalBrokerOptions = {}): ApprovalBroker {
+  return new ApprovalBroker(options);
+}
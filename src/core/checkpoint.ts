@@ -0,0 +1,288 @@
+/**
+ * SDK-side file checkpointing
+ *
+ * Fallback for rewindFiles() that does not depend on CLI checkpoint support.
+ * An internal PreToolUse hook snapshots every file a write tool is about to
+ * touch; snapshots are grouped by the user message whose turn is running and
+ * can be restored later via restoreCheckpoint(). With streaming input, a
+ * message sent during a turn gets its checkpoint once that turn's result
+ * arrives.
+ *
+ * @internal
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, unlink, writeFile } from 'node:fs/promises';
+import { dirname, isAbsolute, resolve } from 'node:path';
+import type {
+  CheckpointRestoreResult,
+  FileCheckpointDiff,
+  HookCallbackMatcher,
+  HookEvent,
+  PreToolUseHookInput,
+} from '../types/index.ts';
+
+/** Tools that modify files, and the input field holding the target path */
+const WRITE_TOOL_PATH_FIELDS: Record<string, string> = {
+  Write: 'file_path',
+  Edit: 'file_path',
+  MultiEdit: 'file_path',
+  NotebookEdit: 'notebook_path',
+};
+
+/** Hash of a snapshot blob, or null when the file did not exist */
+type SnapshotRef = string | null;
+
+/**
+ * Content-addressed blob store — identical file contents are stored once
+ */
+export class ContentStore {
+  private blobs = new Map<string, Buffer>();
+
+  put(content: Buffer): string {
+    const hash = createHash('sha256').update(content).digest('hex');
+    if (!this.blobs.has(hash)) {
+      this.blobs.set(hash, content);
+    }
+    return hash;
+  }
+
+  get(hash: string): Buffer | undefined {
+    return this.blobs.get(hash);
+  }
+
+  get size(): number {
+    return this.blobs.size;
+  }
+}
+
+export class FileCheckpointer {
+  private store = new ContentStore();
+  /** Checkpoints in insertion order: user message uuid → (absolute path → snapshot) */
+  private checkpoints = new Map<string, Map<string, SnapshotRef>>();
+  private current: Map<string, SnapshotRef> | null = null;
+  /** Sent user messages whose turns haven't started; the CLI runs them in order */
+  private queued: string[] = [];
+  private turnActive = false;
+
+  constructor(private cwd: string = process.cwd()) {}
+
+  /**
+   * Start a new checkpoint. Files touched from now on are attributed to this
+   * user message until the next checkpoint begins.
+   */
+  beginCheckpoint(userMessageId: string): void {
+    this.current = new Map();
+    this.checkpoints.set(userMessageId, this.current);
+  }
+
+  /**
+   * A user message was sent. Its checkpoint begins when its turn does: now
+   * if no turn is running, otherwise once the turns queued before it end.
+   */
+  enqueue(userMessageId: string): void {
+    if (this.turnActive) {
+      this.queued.push(userMessageId);
+      return;
+    }
+    this.turnActive = true;
+    this.beginCheckpoint(userMessageId);
+  }
+
+  /** A turn ended (its result arrived); the next queued message's turn starts */
+  turnEnded(): void {
+    const next = this.queued.shift();
+    if (next === undefined) {
+      this.turnActive = false;
+      return;
+    }
+    this.beginCheckpoint(next);
+  }
+
+  hasCheckpoint(userMessageId: string): boolean {
+    return this.checkpoints.has(userMessageId);
+  }
+
+  /** Ids of the checkpoints begun so far, oldest first */
+  listCheckpoints(): string[] {
+    return [...this.checkpoints.keys()];
+  }
+
+  /**
+   * Hook matchers to merge into options.hooks before buildHookConfig()
+   */
+  hooks(): Partial<Record<HookEvent, HookCallbackMatcher[]>> {
+    return {
+      PreToolUse: [
+        {
+          matcher: Object.keys(WRITE_TOOL_PATH_FIELDS).join('|'),
+          hooks: [
+            async (input) => {
+              await this.handlePreToolUse(input as PreToolUseHookInput);
+              return { continue: true };
+            },
+          ],
+        },
+      ],
+    };
+  }
+
+  /**
+   * Record the pre-edit state of a file for the current checkpoint.
+   * Only the first snapshot per file per checkpoint is kept.
+   */
+  async snapshot(filePath: string): Promise<void> {
+    // A checkpoint that begins during the read must not receive this snapshot
+    const checkpoint = this.current;
+    if (!checkpoint) return;
+
+    const absolutePath = isAbsolute(filePath) ? filePath : resolve(this.cwd, filePath);
+    if (checkpoint.has(absolutePath)) return;
+
+    // Reserve the slot before awaiting so concurrent edits don't race
+    checkpoint.set(absolutePath, null);
+    let content: Buffer | null;
+    try {
+      content = await readIfExists(absolutePath);
+    } catch {
+      // Unreadable, not missing: leave the file out rather than have restore() delete it
+      checkpoint.delete(absolutePath);
+      return;
+    }
+    if (content) {
+      checkpoint.set(absolutePath, this.store.put(content));
+    }
+  }
+
+  /**
+   * Restore every file touched at or after the given checkpoint to its
+   * state at that checkpoint. With dryRun, only the diff is computed.
+   */
+  async restore(
+    userMessageId: string,
+    options?: { dryRun?: boolean }
+  ): Promise<CheckpointRestoreResult> {
+    if (!this.checkpoints.has(userMessageId)) {
+      return {
+        canRewind: false,
+        error: `No checkpoint found for user message ${userMessageId}`,
+        diffs: [],
+      };
+    }
+
+    const targets = this.collectTargets(userMessageId);
+    const diffs: FileCheckpointDiff[] = [];
+
+    for (const [path, ref] of targets) {
+      const current = await readIfExists(path);
+      const target = ref === null ? null : (this.store.get(ref) ?? null);
+      if (ref !== null && target === null) {
+        return {
+          canRewind: false,
+          error: `Snapshot for ${path} is missing from the checkpoint store`,
+          diffs: [],
+        };
+      }
+
+      if (current === null && target === null) continue;
+      if (current !== null && target !== null && current.equals(target)) continue;
+
+      const { insertions, deletions } = countLineChanges(current, target);
+      diffs.push({
+        path,
+        action: target === null ? 'deleted' : current === null ? 'created' : 'modified',
+        insertions,
+        deletions,
+      });
+
+      if (!options?.dryRun) {
+        if (target === null) {
+          await unlink(path);
+        } else {
+          await mkdir(dirname(path), { recursive: true });
+          await writeFile(path, target);
+        }
+      }
+    }
+
+    return {
+      canRewind: true,
+      filesChanged: diffs.map((d) => d.path),
+      insertions: diffs.reduce((sum, d) => sum + d.insertions, 0),
+      deletions: diffs.reduce((sum, d) => sum + d.deletions, 0),
+      diffs,
+    };
+  }
+
+  private async handlePreToolUse(input: PreToolUseHookInput): Promise<void> {
+    const field = WRITE_TOOL_PATH_FIELDS[input.tool_name];
+    const toolInput = input.tool_input as Record<string, unknown> | undefined;
+    const filePath = field ? toolInput?.[field] : undefined;
+    if (typeof filePath !== 'string' || !filePath) return;
+
+    const absolutePath = isAbsolute(filePath) ? filePath : resolve(input.cwd || this.cwd, filePath);
+    await this.snapshot(absolutePath);
+  }
+
+  /** Earliest snapshot of each file from the given checkpoint onwards */
+  private collectTargets(userMessageId: string): Map<string, SnapshotRef> {
+    const targets = new Map<string, SnapshotRef>();
+    let reached = false;
+    for (const [id, files] of this.checkpoints) {
+      if (id === userMessageId) reached = true;
+      if (!reached) continue;
+      for (const [path, ref] of files) {
+        if (!targets.has(path)) targets.set(path, ref);
+      }
+    }
+    return targets;
+  }
+}
+
+/** File content, or null when the file does not exist; other read errors are thrown */
+async function readIfExists(path: string): Promise<Buffer | null> {
+  try {
+    return await readFile(path);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/**
+ * Line-level change counts between the current and restored content.
+ * Lines are compared as a multiset, so moved lines count as unchanged.
+ */
+function countLineChanges(
+  current: Buffer | null,
+  target: Buffer | null
+): { insertions: number; deletions: number } {
+  const currentLines = current ? splitLines(current) : [];
+  const targetLines = target ? splitLines(target) : [];
+
+  const remaining = new Map<string, number>();
+  for (const line of currentLines) {
+    remaining.set(line, (remaining.get(line) ?? 0) + 1);
+  }
+
+  let insertions = 0;
+  for (const line of targetLines) {
+    const count = remaining.get(line) ?? 0;
+    if (count > 0) {
+      remaining.set(line, count - 1);
+    } else {
+      insertions++;
+    }
+  }
+
+  let deletions = 0;
+  for (const count of remaining.values()) deletions += count;
+
+  return { insertions, deletions };
+}
+
+function splitLines(content: Buffer): string[] {
+  const text = content.toString('utf-8');
+  if (!text) return [];
+  return text.endsWith('\n') ? text.slice(0, -1).split('\n') : text.split('\n');
+}
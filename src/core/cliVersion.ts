@@ -0,0 +1,184 @@
+/**
+ * CLI version detection and compatibility checks
+ *
+ * Options map to CLI flags that older CLIs don't know. When a query uses
+ * such an option, the CLI is asked for `--version` (once per path, without
+ * blocking the spawn) and every option it is too old for is reported as a
+ * 'cli-too-old' warning: to onWarning, or to the console without one.
+ *
+ * The minimum versions below are the first @anthropic-ai/claude-code
+ * releases on npm whose cli.js defines the flag. A mismatch is still only a
+ * warning: the query runs, and a CLI that rejects the flag fails it with
+ * CliExitError.
+ *
+ * @internal
+ */
+
+import { execFile } from 'node:child_process';
+import type { CliInfo, ExtendedOptions, Options, OptionsDiagnostic } from '../types/index.ts';
+
+/** `claude --version` should answer right away; don't let a broken binary linger */
+const VERSION_PROBE_TIMEOUT_MS = 10_000;
+
+type CliRequirement = {
+  option: string;
+  /** CLI flag (or setting) the option is passed as */
+  flag: string;
+  /** First CLI release that supports it */
+  minVersion: string;
+  /** Whether the query uses the option (default: it is set) */
+  used?: (options: Options) => boolean;
+};
+
+/** First CLI release that understands each option */
+const CLI_REQUIREMENTS: CliRequirement[] = [
+  { option: 'fallbackModel', flag: '--fallback-model', minVersion: '1.0.30' },
+  { option: 'resumeSessionAt', flag: '--resume-session-at', minVersion: '1.0.126' },
+  { option: 'sandbox', flag: 'settings.sandbox', minVersion: '2.0.24' },
+  { option: 'plugins', flag: '--plugin-dir', minVersion: '2.0.25' },
+  { option: 'maxBudgetUsd', flag: '--max-budget-usd', minVersion: '2.0.30' },
+  { option: 'tools', flag: '--tools', minVersion: '2.0.31' },
+  {
+    option: 'enableFileCheckpointing',
+    flag: 'CLAUDE_CODE_ENABLE_SDK_FILE_CHECKPOINTING',
+    minVersion: '2.0.44',
+  },
+  {
+    option: 'outputFormat',
+    flag: '--json-schema',
+    minVersion: '2.0.45',
+    used: (options) => options.outputFormat?.type === 'json_schema',
+  },
+  { option: 'betas', flag: '--betas', minVersion: '2.0.58' },
+  { option: 'agent', flag: '--agent', minVersion: '2.0.59' },
+  {
+    option: 'persistSession',
+    flag: '--no-session-persistence',
+    minVersion: '2.0.64',
+    used: (options) => options.persistSession === false,
+  },
+];
+
+/** Probes by CLI path (and runtime), for the life of the process */
+const cliInfoCache = new Map<string, Promise<CliInfo>>();
+
+/** Forget probed versions, e.g. after updating the CLI in place */
+export function clearCliVersionCache(): void {
+  cliInfoCache.clear();
+}
+
+/**
+ * Ask a CLI for its version. Cached per path, so concurrent callers share
+ * one probe; `executable` runs a JS CLI with an explicit runtime, as
+ * spawning does. Never rejects: an unreadable version is `null`.
+ */
+export function probeCliVersion(path: string, executable?: string): Promise<CliInfo> {
+  const key = executable ? `${executable} ${path}` : path;
+  const cached = cliInfoCache.get(key);
+  if (cached) return cached;
+
+  const [command, args] = executable ? [executable, [path, '--version']] : [path, ['--version']];
+  const probe = new Promise<CliInfo>((resolve) => {
+    const done = (stdout: string) => {
+      const versionOutput = stdout.trim();
+      resolve({ path, version: parseCliVersion(versionOutput), versionOutput });
+    };
+    try {
+      const child = execFile(
+        command,
+        args,
+        { encoding: 'utf-8', timeout: VERSION_PROBE_TIMEOUT_MS },
+        (_error, stdout) => done(stdout ?? '')
+      );
+      child.stdin?.end();
+    } catch {
+      // Unreadable version: compatibility checks are skipped
+      done('');
+    }
+  });
+  cliInfoCache.set(key, probe);
+  return probe;
+}
+
+/**
+ * Extract the semantic version from `claude --version` output,
+ * e.g. '2.1.37 (Claude Code)' → '2.1.37'
+ */
+export function parseCliVersion(output: string): string | null {
+  return output.match(/\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?/)?.[0] ?? null;
+}
+
+/** Compare major.minor.patch; pre-release suffixes are ignored */
+export function compareVersions(a: string, b: string): number {
+  const parse = (version: string) => version.split('-')[0].split('.').map(Number);
+  const [left, right] = [parse(a), parse(b)];
+  for (let i = 0; i < 3; i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Check the options a query uses against the CLI at `path`. The CLI is only
+ * probed when an option with a version requirement is set.
+ *
+ * @returns A 'cli-too-old' warning per option the CLI is likely too old for,
+ *   or one 'cli-version-unknown' warning if its version can't be read
+ */
+export async function checkCliSupport(
+  options: Options,
+  path: string
+): Promise<OptionsDiagnostic[]> {
+  const used = CLI_REQUIREMENTS.filter((requirement) =>
+    requirement.used
+      ? requirement.used(options)
+      : options[requirement.option as keyof Options] !== undefined
+  );
+  if (used.length === 0) return [];
+
+  const { version } = await probeCliVersion(path, options.executable);
+  if (version === null) {
+    return [
+      {
+        severity: 'warning',
+        code: 'cli-version-unknown',
+        option: 'pathToClaudeCodeExecutable',
+        message: `Could not read the version of ${path}; skipping CLI compatibility checks`,
+      },
+    ];
+  }
+
+  return used
+    .filter((requirement) => compareVersions(version, requirement.minVersion) < 0)
+    .map(({ option, flag, minVersion }) => ({
+      severity: 'warning',
+      code: 'cli-too-old',
+      option,
+      message:
+        `${option} (${flag}) needs Claude CLI ${minVersion} or newer; ${path} is ${version}. ` +
+        'Update with: npm install -g @anthropic-ai/claude-code',
+    }));
+}
+
+/**
+ * Run checkCliSupport() in the background and hand its warnings to
+ * options.onWarning. Without a callback, 'cli-too-old' warnings go to the
+ * console, since the CLI may otherwise just exit on the unknown flag.
+ */
+export function reportCliSupport(options: ExtendedOptions, path: string): void {
+  const { onWarning } = options;
+  void checkCliSupport(options, path).then((warnings) => {
+    for (const warning of warnings) {
+      if (!onWarning) {
+        if (warning.code === 'cli-too-old') console.warn(`[cli] ${warning.message}`);
+        continue;
+      }
+      try {
+        onWarning(warning);
+      } catch (error: unknown) {
+        console.error('[cli] onWarning handler threw:', error);
+      }
+    }
+  });
+}
@@ -9,7 +9,7 @@
  * @internal
  */
 
-import type { Writable } from 'node:stream';
+import { AbortError } from '../errors.ts';
 import {
   type ControlRequest,
   type ControlResponse,
@@ -20,14 +20,23 @@ import {
   type McpStatusRequest,
   type McpToggleRequest,
   MessageType,
+  type NdjsonWriter,
   RequestSubtype,
   ResponseSubtype,
+  type RewindFilesRequest,
   type SetMaxThinkingTokensRequest,
   type SetModelRequest,
   type SetPermissionModeRequest,
 } from '../types/control.ts';
-import type { McpServerConfig, Options, PermissionMode, PermissionResult } from '../types/index.ts';
+import type {
+  ExtendedOptions,
+  HookInput,
+  McpServerConfig,
+  PermissionMode,
+  PermissionResult,
+} from '../types/index.ts';
 import type { McpServerBridge } from './mcpBridge.ts';
+import type { StatsCollector } from './stats.ts';
 
 // ============================================================================
 // Outbound request builders (SDK → CLI)
@@ -44,15 +53,16 @@ export type OutboundControlRequest =
   | McpStatusRequest
   | McpReconnectRequest
   | McpToggleRequest
-  | McpSetServersRequest;
+  | McpSetServersRequest
+  | RewindFilesRequest;
 
 /**
  * Type-safe control request builder functions
  *
  * Usage:
  * ```typescript
- * this.sendControlRequest(ControlRequests.interrupt());
- * this.sendControlRequest(ControlRequests.setPermissionMode('bypassPermissions'));
+ * await manager.sendControlRequestWithResponse(ControlRequests.interrupt());
+ * await manager.sendControlRequestWithResponse(ControlRequests.setPermissionMode('plan'));
  * ```
  */
 export const ControlRequests = {
@@ -94,6 +104,12 @@ export const ControlRequests = {
     subtype: RequestSubtype.MCP_SET_SERVERS,
     servers,
   }),
+
+  rewindFiles: (userMessageId: string, dryRun?: boolean): RewindFilesRequest => ({
+    subtype: RequestSubtype.REWIND_FILES,
+    user_message_id: userMessageId,
+    dry_run: dryRun,
+  }),
 };
 
 // ============================================================================
@@ -102,11 +118,18 @@ export const ControlRequests = {
 
 export class ControlProtocolHandler {
   private callbackMap: Map<string, InternalHookCallback> = new Map();
+  /** SDK-side timeouts (matcher `timeout`), by callback id */
+  private callbackTimeouts = new Map<string, number>();
+  /** Signals of running canUseTool and hook callbacks, by request id */
+  private callbackAborts = new Map<string, AbortController>();
   private mcpServerBridges: Map<string, McpServerBridge> = new Map();
+  /** Requests from the CLI still being handled, by request id */
+  private inFlight = new Map<string, string>();
 
   constructor(
-    private stdin: Writable,
-    private options: Options
+    private stdin: NdjsonWriter,
+    private options: ExtendedOptions,
+    private stats?: StatsCollector
   ) {}
 
   /**
@@ -117,10 +140,28 @@ export class ControlProtocolHandler {
   }
 
   /**
-   * Register a callback function with its ID
+   * Register a callback function with its ID. With `timeoutMs`, a call that
+   * runs longer is aborted and answered with options.hookTimeoutFallback.
    */
-  registerCallback(id: string, callback: InternalHookCallback): void {
+  registerCallback(id: string, callback: InternalHookCallback, timeoutMs?: number): void {
     this.callbackMap.set(id, callback);
+    if (timeoutMs !== undefined) this.callbackTimeouts.set(id, timeoutMs);
+    else this.callbackTimeouts.delete(id);
+  }
+
+  /**
+   * Abort the signals passed to running canUseTool and hook callbacks
+   * (interrupt, close, abortController). Their answers are still sent
+   * if the callbacks settle.
+   */
+  abortCallbacks(reason: Error): void {
+    for (const controller of this.callbackAborts.values()) controller.abort(reason);
+    this.callbackAborts.clear();
+  }
+
+  /** Requests from the CLI awaiting our response, e.g. 'hook_callback PreToolUse' */
+  pendingRequests(): string[] {
+    return [...this.inFlight.values()];
   }
 
   /**
@@ -133,6 +174,8 @@ export class ControlProtocolHandler {
       console.error('[DEBUG] Subtype:', req.request.subtype);
     }
 
+    this.inFlight.set(req.request_id, describeRequest(req));
+    const startedAt = performance.now();
     try {
       switch (req.request.subtype) {
         case RequestSubtype.CAN_USE_TOOL:
@@ -173,6 +216,18 @@ export class ControlProtocolHandler {
     } catch (error: unknown) {
       const message = error instanceof Error ? error.message : 'Unknown error';
       this.sendError(req.request_id, message);
+    } finally {
+      this.inFlight.delete(req.request_id);
+      this.callbackAborts.delete(req.request_id);
+      this.recordDuration(req, performance.now() - startedAt);
+    }
+  }
+
+  private recordDuration({ request }: ControlRequest, ms: number): void {
+    if (request.subtype === RequestSubtype.CAN_USE_TOOL) {
+      this.stats?.canUseToolCallback(ms);
+    } else if (request.subtype === RequestSubtype.HOOK_CALLBACK) {
+      this.stats?.hookCallback(request.input.hook_event_name, ms);
     }
   }
 
@@ -189,13 +244,36 @@ export class ControlProtocolHandler {
       agent_id,
     } = req.request;
 
+    // Rules the user accepted earlier answer without asking again
+    const stored = this.options.permissionStore;
+    const scope = stored && {
+      project: stored.project ?? this.options.cwd ?? process.cwd(),
+      tenant: stored.tenant,
+    };
+    if (stored && scope) {
+      const saved = await stored.store.match(tool_name, input, scope).catch((error: unknown) => {
+        console.error('Permission store lookup failed:', error);
+        return null;
+      });
+      if (saved) {
+        const rule = saved.ruleContent ? `${saved.toolName}(${saved.ruleContent})` : saved.toolName;
+        this.sendSuccess(
+          req.request_id,
+          saved.behavior === 'allow'
+            ? { behavior: 'allow', updatedInput: input }
+            : { behavior: 'deny', message: `Denied by saved permission rule ${rule}` }
+        );
+        return;
+      }
+    }
+
     if (!this.options.canUseTool) {
       this.sendSuccess(req.request_id, { behavior: 'allow' });
       return;
     }
 
     const result: PermissionResult = await this.options.canUseTool(tool_name, input, {
-      signal: new AbortController().signal,
+      signal: this.trackCallback(req.request_id).signal,
       suggestions: permission_suggestions,
       blockedPath: blocked_path,
       decisionReason: decision_reason,
@@ -203,6 +281,13 @@ export class ControlProtocolHandler {
       agentID: agent_id,
     });
 
+    // Recorded before answering, so the tool's next request already matches
+    if (stored && scope && result.behavior === 'allow' && result.updatedPermissions?.length) {
+      await stored.store.record(result.updatedPermissions, scope).catch((error: unknown) => {
+        console.error('Failed to save permission updates:', error);
+      });
+    }
+
     this.sendSuccess(req.request_id, result);
   }
 
@@ -233,9 +318,13 @@ export class ControlProtocolHandler {
       if (process.env.DEBUG_HOOKS) {
         console.error('[DEBUG] Executing hook:', callback_id);
       }
-      const result = await hookFn(input, tool_use_id, {
-        signal: new AbortController().signal,
-      });
+      const controller = this.trackCallback(req.request_id);
+      const running = hookFn(input, tool_use_id, { signal: controller.signal });
+      const timeoutMs = this.callbackTimeouts.get(callback_id);
+      const result =
+        timeoutMs === undefined
+          ? await running
+          : await this.withTimeout(running, controller, timeoutMs, input);
 
       this.sendSuccess(req.request_id, result);
     } catch (error: unknown) {
@@ -244,6 +333,52 @@ export class ControlProtocolHandler {
     }
   }
 
+  /** A fresh controller for a callback's signal, aborted by abortCallbacks() */
+  private trackCallback(requestId: string): AbortController {
+    const controller = new AbortController();
+    this.callbackAborts.set(requestId, controller);
+    return controller;
+  }
+
+  /**
+   * Settle with the hook's result, or after timeoutMs with the fallback
+   * answer; the hook's signal is aborted then and its late result dropped.
+   */
+  private withTimeout(
+    running: Promise<Record<string, unknown>>,
+    controller: AbortController,
+    timeoutMs: number,
+    input: Record<string, unknown>
+  ): Promise<Record<string, unknown>> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<Record<string, unknown>>((resolve, reject) => {
+      timer = setTimeout(() => {
+        controller.abort(new AbortError(`Hook timed out after ${timeoutMs}ms`));
+        running.catch(() => {});
+        try {
+          resolve(this.timeoutFallback(input as HookInput, timeoutMs));
+        } catch (error) {
+          reject(error);
+        }
+      }, timeoutMs);
+    });
+    return Promise.race([running, timedOut]).finally(() => clearTimeout(timer));
+  }
+
+  private timeoutFallback(input: HookInput, timeoutMs: number): Record<string, unknown> {
+    const fallback = this.options.hookTimeoutFallback ?? 'continue';
+    if (typeof fallback === 'function') {
+      return fallback(input) as Record<string, unknown>;
+    }
+    if (fallback === 'block') {
+      return {
+        decision: 'block',
+        reason: `${input.hook_event_name} hook timed out after ${timeoutMs}ms`,
+      };
+    }
+    return { continue: true };
+  }
+
   private async handleInitialize(req: ControlRequest) {
     this.sendSuccess(req.request_id, {});
   }
@@ -293,3 +428,18 @@ export class ControlProtocolHandler {
     this.stdin.write(`${JSON.stringify(response)}\n`);
   }
 }
+
+/** Short description of an inbound request for timeout diagnostics */
+function describeRequest(req: ControlRequest): string {
+  const { request } = req;
+  switch (request.subtype) {
+    case RequestSubtype.CAN_USE_TOOL:
+      return `can_use_tool ${request.tool_name}`;
+    case RequestSubtype.HOOK_CALLBACK:
+      return `hook_callback ${request.input.hook_event_name}`;
+    case RequestSubtype.MCP_MESSAGE:
+      return `mcp_message ${request.server_name}`;
+    default:
+      return request.subtype;
+  }
+}
@@ -8,7 +8,7 @@
  */
 
 import type { InternalHookCallback } from '../types/control.ts';
-import type { HookCallbackMatcher } from '../types/index.ts';
+import type { HookCallbackMatcher, HookEvent } from '../types/index.ts';
 import type { ControlProtocolHandler } from './control.ts';
 
 /**
@@ -46,7 +46,12 @@ export function buildHookConfig(
       const hookCallbackIds = matcher.hooks.map((hookFn) => {
         const id = `hook_${callbackId++}`;
         // Cast to InternalHookCallback - the HookCallback type from SDK is compatible
-        controlHandler.registerCallback(id, hookFn as InternalHookCallback);
+        // Enforced SDK-side too, so the hook's signal aborts when the CLI stops waiting
+        controlHandler.registerCallback(
+          id,
+          hookFn as InternalHookCallback,
+          matcher.timeout !== undefined ? matcher.timeout * 1000 : undefined
+        );
         return id;
       });
 
@@ -68,3 +73,23 @@ export function buildHookConfig(
 
   return hooksConfig;
 }
+
+/**
+ * Merge hook matcher sets, keeping earlier sets' matchers first per event.
+ * Used to combine SDK-internal hooks with user-provided options.hooks.
+ */
+export function mergeHooks(
+  ...sets: Array<Partial<Record<HookEvent, HookCallbackMatcher[]>> | undefined>
+): Partial<Record<HookEvent, HookCallbackMatcher[]>> | undefined {
+  let merged: Partial<Record<HookEvent, HookCallbackMatcher[]>> | undefined;
+  for (const hooks of sets) {
+    if (!hooks) continue;
+    merged ??= {};
+    for (const [eventName, matchers] of Object.entries(hooks) as Array<
+      [HookEvent, HookCallbackMatcher[]]
+    >) {
+      merged[eventName] = [...(merged[eventName] ?? []), ...matchers];
+    }
+  }
+  return merged;
+}
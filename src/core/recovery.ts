@@ -0,0 +1,105 @@
+/**
+ * Crash recovery
+ *
+ * Bookkeeping for ExtendedOptions.recovery: remembers the session id and the
+ * user messages whose turn has not finished yet, so QueryImpl can respawn a
+ * crashed CLI with `resume` and send those messages again.
+ *
+ * @internal
+ */
+
+import { randomUUID } from 'node:crypto';
+import type {
+  ExtendedOptions,
+  RecoveryOptions,
+  SDKMessage,
+  SDKRecoveryMessage,
+  SDKUserMessage,
+} from '../types/index.ts';
+
+const DEFAULT_BACKOFF_MS = 1000;
+
+export class CrashRecovery {
+  private restarts = 0;
+  private sessionId: string | null = null;
+  private unacked: SDKUserMessage[] = [];
+
+  constructor(private policy: RecoveryOptions) {}
+
+  /** Record a user message written to the CLI */
+  track(msg: SDKUserMessage): void {
+    this.unacked.push(msg);
+  }
+
+  /**
+   * Observe a message from the CLI. A result finishes the oldest open turn,
+   * which acknowledges the user message that started it.
+   */
+  observe(msg: SDKMessage): void {
+    if ('session_id' in msg && msg.session_id) {
+      this.sessionId = msg.session_id;
+    }
+    if (msg.type === 'result') {
+      this.unacked.shift();
+    }
+  }
+
+  /** Whether another restart is allowed */
+  canRestart(): boolean {
+    return this.restarts < this.policy.maxRestarts;
+  }
+
+  /**
+   * Count a restart and return how long to wait before it.
+   */
+  beginRestart(): number {
+    this.restarts++;
+    const { backoff = DEFAULT_BACKOFF_MS } = this.policy;
+    return typeof backoff === 'function'
+      ? backoff(this.restarts)
+      : backoff * 2 ** (this.restarts - 1);
+  }
+
+  get restartCount(): number {
+    return this.restarts;
+  }
+
+  /** User messages to send again after a restart, oldest first */
+  pendingMessages(): SDKUserMessage[] {
+    return [...this.unacked];
+  }
+
+  /**
+   * Options for the replacement process: resume the last seen session.
+   * Session-selection options are dropped, since they would start or fork
+   * a different session. Before any session id is seen nothing was
+   * persisted, so the original options are reused unchanged.
+   */
+  respawnOptions(options: ExtendedOptions): ExtendedOptions {
+    if (!this.sessionId) return options;
+    return {
+      ...options,
+      resume: this.sessionId,
+      continue: undefined,
+      forkSession: undefined,
+      sessionId: undefined,
+      resumeSessionAt: undefined,
+    };
+  }
+
+  /** Stream event announcing a completed restart */
+  event(code: number | null, signal: NodeJS.Signals | null): SDKRecoveryMessage {
+    return {
+      type: 'system',
+      subtype: 'recovery',
+      attempt: this.restarts,
+      max_restarts: this.policy.maxRestarts,
+      exit_code: code,
+      signal,
+      resumed_session_id: this.sessionId,
+      resent_messages: this.unacked.length,
+      uuid: randomUUID(),
+      session_id: this.sessionId ?? '',
+    };
+  }
+}
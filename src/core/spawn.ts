@@ -6,10 +6,13 @@
  * @internal
  */
 
-import { type ChildProcess, spawn, spawnSync } from 'node:child_process';
+import { type ChildProcess, spawn } from 'node:child_process';
 import { accessSync, constants, existsSync, statSync } from 'node:fs';
-import { resolve } from 'node:path';
+import { homedir } from 'node:os';
+import { delimiter, dirname, join, resolve } from 'node:path';
+import { CliNotFoundError } from '../errors.ts';
 import type { Options } from '../types/index.ts';
+import { clearCliVersionCache } from './cliVersion.ts';
 
 // ============================================================================
 // CLI detection
@@ -17,36 +20,39 @@ import type { Options } from '../types/index.ts';
 
 /**
  * Validate that a path points to an executable file
- * @throws {Error} If path is invalid, not a file, or not executable
+ * @throws {CliNotFoundError} If path is invalid, not a file, or not executable
  */
 function validateExecutablePath(path: string): void {
   const resolvedPath = resolve(path);
 
   if (!existsSync(resolvedPath)) {
-    throw new Error(`Claude CLI path does not exist: ${path}`);
+    throw new CliNotFoundError(`Claude CLI path does not exist: ${path}`, path);
   }
 
   const stat = statSync(resolvedPath);
   if (!stat.isFile()) {
-    throw new Error(`Claude CLI path is not a file: ${path}`);
+    throw new CliNotFoundError(`Claude CLI path is not a file: ${path}`, path);
   }
 
   try {
     accessSync(resolvedPath, constants.X_OK);
   } catch {
-    throw new Error(`Claude CLI path is not executable: ${path}`);
+    throw new CliNotFoundError(`Claude CLI path is not executable: ${path}`, path);
   }
 }
 
+/** Automatic search results by search context (PATH, cwd, home directory) */
+const discoveryCache = new Map<string, string>();
+
 /**
  * Detect Claude CLI binary location
  *
  * Priority:
  * 1. pathToClaudeCodeExecutable option (if provided)
  * 2. CLAUDE_BINARY env var (absolute path)
- * 3. PATH lookup (using 'which claude')
+ * 3. Automatic search (see claudeCandidates), cached per PATH, cwd and home
  *
- * @throws {Error} If Claude CLI is not found
+ * @throws {CliNotFoundError} If Claude CLI is not found
  */
 export function detectClaudeBinary(options?: Options): string {
   if (options?.pathToClaudeCodeExecutable) {
@@ -59,23 +65,105 @@ export function detectClaudeBinary(options?: Options): string {
     return resolve(process.env.CLAUDE_BINARY);
   }
 
-  try {
-    const result = spawnSync('which', ['claude'], { encoding: 'utf-8' });
-    if (result.status === 0 && result.stdout) {
-      const path = result.stdout.trim();
-      if (path) return path;
-    }
-  } catch (_e) {
-    // Ignore - will throw below
+  const cwd = options?.cwd ?? process.cwd();
+  const cacheKey = [process.env.PATH ?? '', resolve(cwd), homeDirectory()].join('\0');
+  const cached = discoveryCache.get(cacheKey);
+  // Trust a cached path only while it is still there (uninstalled or moved otherwise)
+  if (cached && isExecutableFile(cached)) return cached;
+  discoveryCache.delete(cacheKey);
+
+  const searched = claudeCandidates(cwd);
+  const found = searched.find(isExecutableFile);
+  if (found) {
+    discoveryCache.set(cacheKey, found);
+    return found;
   }
 
-  throw new Error(
-    'Claude CLI not found. Install with:\n' +
+  throw new CliNotFoundError(
+    'Claude CLI not found. Searched:\n' +
+      searched.map((path) => `  ${path}`).join('\n') +
+      '\nInstall with:\n' +
       '  npm install -g @anthropic-ai/claude-code\n' +
-      'Or set CLAUDE_BINARY environment variable to the path of your claude binary.'
+      'Or set CLAUDE_BINARY environment variable to the path of your claude binary.',
+    undefined,
+    searched
   );
 }
 
+/**
+ * Forget automatically discovered CLI paths and their probed versions, e.g.
+ * after installing or updating a CLI. Missing paths are re-searched anyway.
+ */
+export function clearCliDiscoveryCache(): void {
+  discoveryCache.clear();
+  clearCliVersionCache();
+}
+
+/**
+ * Where a CLI may be installed, in search order:
+ * 1. Each PATH directory, as a shell would resolve `claude`
+ * 2. ~/.claude/local (local install made by `claude migrate-installer`)
+ * 3. node_modules/.bin and node_modules/@anthropic-ai/claude-code/cli.js,
+ *    from cwd up to the filesystem root
+ * 4. The npm global prefix, which version managers keep off PATH at times
+ *
+ * On Windows only `claude.exe` is a candidate name: npm's `claude.cmd` shims
+ * can't be spawned without a shell, so npm installs are found by their
+ * cli.js instead, which DefaultProcessFactory runs with node (or bun).
+ */
+function claudeCandidates(cwd: string): string[] {
+  const names = process.platform === 'win32' ? ['claude.exe'] : ['claude'];
+  const candidates: string[] = [];
+
+  for (const dir of (process.env.PATH ?? '').split(delimiter)) {
+    if (dir) candidates.push(...names.map((name) => resolve(dir, name)));
+  }
+
+  candidates.push(...names.map((name) => join(homeDirectory(), '.claude', 'local', name)));
+
+  for (let dir = resolve(cwd); ; dir = dirname(dir)) {
+    candidates.push(...names.map((name) => join(dir, 'node_modules', '.bin', name)));
+    candidates.push(join(dir, 'node_modules', '@anthropic-ai', 'claude-code', 'cli.js'));
+    if (dirname(dir) === dir) break;
+  }
+
+  const prefix = npmGlobalPrefix();
+  const [globalBin, globalModules] =
+    process.platform === 'win32'
+      ? [prefix, join(prefix, 'node_modules')]
+      : [join(prefix, 'bin'), join(prefix, 'lib', 'node_modules')];
+  candidates.push(...names.map((name) => join(globalBin, name)));
+  candidates.push(join(globalModules, '@anthropic-ai', 'claude-code', 'cli.js'));
+
+  return [...new Set(candidates)];
+}
+
+/**
+ * npm's global prefix without running npm: the configured prefix if set,
+ * otherwise npm's default next to the running runtime's binary
+ */
+function npmGlobalPrefix(): string {
+  const configured = process.env.npm_config_prefix ?? process.env.NPM_CONFIG_PREFIX;
+  if (configured) return configured;
+  const binDir = dirname(process.execPath);
+  return process.platform === 'win32' ? binDir : dirname(binDir);
+}
+
+/** $HOME as the shell sees it; os.homedir() as the fallback */
+function homeDirectory(): string {
+  return process.env.HOME || homedir();
+}
+
+function isExecutableFile(path: string): boolean {
+  try {
+    if (!statSync(path).isFile()) return false;
+    accessSync(path, constants.X_OK);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 // ============================================================================
 // Process spawning
 // ============================================================================
@@ -85,7 +173,7 @@ export function detectClaudeBinary(options?: Options): string {
  *
  * @param binary Path to claude binary or runtime executable
  * @param args CLI arguments
- * @param options Spawn options (cwd, env, stderr callback)
+ * @param options Spawn options (cwd, env, stderr callback, own process group)
  */
 export function spawnClaude(
   binary: string,
@@ -94,6 +182,7 @@ export function spawnClaude(
     cwd?: string;
     env?: Record<string, string | undefined>;
     stderr?: (data: string) => void;
+    processGroup?: boolean;
   }
 ): ChildProcess {
   const env: Record<string, string | undefined> = {
@@ -113,6 +202,8 @@ export function spawnClaude(
   const proc = spawn(binary, args, {
     stdio: ['pipe', 'pipe', 'pipe'],
     shell: false,
+    // Own process group, so close() can terminate the CLI's tool subprocesses too
+    detached: options?.processGroup === true && process.platform !== 'win32',
     cwd: options?.cwd,
     env: env as NodeJS.ProcessEnv,
   });
@@ -0,0 +1,131 @@
+/**
+ * Query runtime statistics
+ *
+ * Counters and timings behind q.stats(). MessageRouter, the writer in
+ * QueryImpl, ControlRequestManager and ControlProtocolHandler report into one
+ * collector per query, so totals survive a crash-recovery respawn.
+ *
+ * @internal
+ */
+
+import type { LatencyStats, QueryStats, SDKMessage } from '../types/index.ts';
+
+type Latency = { count: number; totalMs: number; minMs: number; maxMs: number };
+
+export class StatsCollector {
+  private readonly createdAt = performance.now();
+  private messagesIn = 0;
+  private bytesIn = 0;
+  private messagesOut = 0;
+  private bytesOut = 0;
+  private timeToInitMs: number | null = null;
+  private firstPromptAt: number | null = null;
+  private timeToFirstTokenMs: number | null = null;
+  /** Start times of turns awaiting their result, oldest first */
+  private openTurns: number[] = [];
+  private turnDurationsMs: number[] = [];
+  private controlRequests = new Map<string, Latency>();
+  private hooks = new Map<string, Latency>();
+  private canUseTool: Latency = emptyLatency();
+
+  /** A line read from the CLI */
+  lineIn(line: string): void {
+    this.messagesIn++;
+    this.bytesIn += Buffer.byteLength(line) + 1;
+  }
+
+  /** A message written to the CLI */
+  messageOut(data: string): void {
+    this.messagesOut++;
+    this.bytesOut += Buffer.byteLength(data);
+  }
+
+  initialized(): void {
+    this.timeToInitMs ??= performance.now() - this.createdAt;
+  }
+
+  /** A user message was written */
+  turnStarted(): void {
+    const now = performance.now();
+    this.firstPromptAt ??= now;
+    this.openTurns.push(now);
+  }
+
+  /** Observe a routed message: first token and turn completion */
+  observe(msg: SDKMessage): void {
+    if (
+      this.timeToFirstTokenMs === null &&
+      this.firstPromptAt !== null &&
+      (msg.type === 'assistant' ||
+        (msg.type === 'stream_event' && msg.event.type === 'content_block_delta'))
+    ) {
+      this.timeToFirstTokenMs = performance.now() - this.firstPromptAt;
+    }
+    if (msg.type === 'result') {
+      const startedAt = this.openTurns.shift();
+      if (startedAt !== undefined) this.turnDurationsMs.push(performance.now() - startedAt);
+    }
+  }
+
+  controlRoundTrip(subtype: string, ms: number): void {
+    record(this.controlRequests, subtype, ms);
+  }
+
+  hookCallback(hookEvent: string, ms: number): void {
+    record(this.hooks, hookEvent, ms);
+  }
+
+  canUseToolCallback(ms: number): void {
+    add(this.canUseTool, ms);
+  }
+
+  snapshot(queueDepth: number): QueryStats {
+    return {
+      messagesIn: this.messagesIn,
+      bytesIn: this.bytesIn,
+      messagesOut: this.messagesOut,
+      bytesOut: this.bytesOut,
+      timeToInitMs: this.timeToInitMs,
+      timeToFirstTokenMs: this.timeToFirstTokenMs,
+      turnDurationsMs: [...this.turnDurationsMs],
+      controlRequests: summarizeAll(this.controlRequests),
+      hooks: summarizeAll(this.hooks),
+      canUseTool: summarize(this.canUseTool),
+      queueDepth,
+    };
+  }
+}
+
+function emptyLatency(): Latency {
+  return { count: 0, totalMs: 0, minMs: Number.POSITIVE_INFINITY, maxMs: 0 };
+}
+
+function add(latency: Latency, ms: number): void {
+  latency.count++;
+  latency.totalMs += ms;
+  latency.minMs = Math.min(latency.minMs, ms);
+  latency.maxMs = Math.max(latency.maxMs, ms);
+}
+
+function record(byKey: Map<string, Latency>, key: string, ms: number): void {
+  let latency = byKey.get(key);
+  if (!latency) {
+    latency = emptyLatency();
+    byKey.set(key, latency);
+  }
+  add(latency, ms);
+}
+
+function summarize({ count, totalMs, minMs, maxMs }: Latency): LatencyStats {
+  return {
+    count,
+    totalMs,
+    minMs: count > 0 ? minMs : 0,
+    maxMs,
+    meanMs: count > 0 ? totalMs / count : 0,
+  };
+}
+
+function summarizeAll(byKey: Map<string, Latency>): Record<string, LatencyStats> {
+  return Object.fromEntries([...byKey].map(([key, latency]) => [key, summarize(latency)]));
+}
@@ -0,0 +1,128 @@
+/**
+ * Stall watchdog
+ *
+ * Enforces ExtendedOptions.timeoutMs (wall clock from the first prompt) and
+ * idleTimeoutMs (no CLI output while the query is waiting on the CLI). The
+ * query waits on the CLI while a turn is open (a user message without its
+ * result yet) or a control request is pending. Between turns of a streaming
+ * query nothing is expected, so the idle clock doesn't run. Neither does it
+ * while the CLI waits on the SDK: an inbound request (canUseTool, a hook,
+ * an SDK MCP tool) is still being answered.
+ *
+ * The watchdog only detects; QueryImpl interrupts and closes on a trip.
+ *
+ * @internal
+ */
+
+import { QueryTimeoutError } from '../errors.ts';
+import type { SDKMessage } from '../types/index.ts';
+
+export type WatchdogOptions = {
+  timeoutMs?: number;
+  idleTimeoutMs?: number;
+  /** Time of the last line read from the CLI (MessageRouter) */
+  lastOutputAt: () => number;
+  /** Outstanding outbound control requests */
+  pendingRequests: () => string[];
+  /** Inbound requests the SDK's callbacks are still answering */
+  pendingCallbacks: () => string[];
+  /** Tool calls without a result yet */
+  pendingTools: () => string[];
+  /** Called once, on the first trip */
+  onTimeout: (error: QueryTimeoutError) => void;
+};
+
+export class Watchdog {
+  private openTurns = 0;
+  private lastInputAt = 0;
+  private wallTimer: ReturnType<typeof setTimeout> | undefined;
+  private idleTimer: ReturnType<typeof setTimeout> | undefined;
+  private stopped = false;
+
+  constructor(private options: WatchdogOptions) {}
+
+  /** Start the wall clock and the idle checks */
+  start(): void {
+    const { timeoutMs, idleTimeoutMs } = this.options;
+    if (timeoutMs !== undefined) {
+      this.wallTimer = setTimeout(() => this.trip('timeout', timeoutMs), timeoutMs);
+    }
+    if (idleTimeoutMs !== undefined) {
+      this.scheduleIdleCheck(idleTimeoutMs);
+    }
+  }
+
+  /** A user message was written: a turn is open until its result */
+  turnStarted(): void {
+    this.openTurns++;
+    this.lastInputAt = Date.now();
+    // The idle clock starts now rather than at the next periodic check
+    if (this.openTurns === 1 && this.idleTimer && !this.stopped) {
+      clearTimeout(this.idleTimer);
+      this.scheduleIdleCheck(this.options.idleTimeoutMs as number);
+    }
+  }
+
+  /** Anything was written to the CLI; its idle clock restarts */
+  inputWritten(): void {
+    this.lastInputAt = Date.now();
+  }
+
+  /** Observe a message from the CLI; a result closes the oldest open turn */
+  observe(msg: SDKMessage): void {
+    if (msg.type === 'result' && this.openTurns > 0) {
+      this.openTurns--;
+    }
+  }
+
+  stop(): void {
+    this.stopped = true;
+    clearTimeout(this.wallTimer);
+    clearTimeout(this.idleTimer);
+  }
+
+  /** What the query is waiting on right now */
+  pending(): string[] {
+    const pending = [
+      ...this.options.pendingTools().map((tool) => `tool ${tool}`),
+      ...this.options.pendingCallbacks(),
+      ...this.options.pendingRequests(),
+    ];
+    if (pending.length === 0 && this.openTurns > 0) pending.push('turn in progress');
+    return pending;
+  }
+
+  private isWaiting(): boolean {
+    return this.openTurns > 0 || this.options.pendingRequests().length > 0;
+  }
+
+  /**
+   * Check again once idleTimeoutMs could have passed since the last output
+   * or input, so lines don't have to reset a timer each.
+   */
+  private scheduleIdleCheck(delay: number): void {
+    this.idleTimer = setTimeout(() => {
+      const idleTimeoutMs = this.options.idleTimeoutMs as number;
+      // Callbacks may wait on a person; the clock restarts once they answer
+      if (!this.isWaiting() || this.options.pendingCallbacks().length > 0) {
+        this.scheduleIdleCheck(idleTimeoutMs);
+        return;
+      }
+      const lastActivity = Math.max(this.options.lastOutputAt(), this.lastInputAt);
+      const idleFor = Date.now() - lastActivity;
+      if (idleFor >= idleTimeoutMs) {
+        this.trip('idle', idleTimeoutMs);
+      } else {
+        this.scheduleIdleCheck(idleTimeoutMs - idleFor);
+      }
+    }, delay);
+    // An idle query must not keep the host alive
+    this.idleTimer.unref?.();
+  }
+
+  private trip(kind: 'timeout' | 'idle', timeoutMs: number): void {
+    if (this.stopped) return;
+    this.stop();
+    this.options.onTimeout(new QueryTimeoutError(kind, timeoutMs, this.pending()));
+  }
+}
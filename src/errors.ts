@@ -0,0 +1,147 @@
+/**
+ * Error classes
+ *
+ * Every failure the SDK raises on its own account uses one of these, so
+ * callers can branch on `instanceof` instead of matching messages.
+ * AbortError mirrors the official SDK's export of the same name.
+ */
+
+import type { OptionsDiagnostic } from './types/index.ts';
+
+/**
+ * An operation was cancelled: the query's abortController fired before
+ * initialization, a control request's signal aborted, or the query was
+ * closed while the request was pending (or before it was sent).
+ */
+export class AbortError extends Error {
+  constructor(message = 'Operation aborted') {
+    super(message);
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * The Claude CLI binary could not be located, or the configured path
+ * (pathToClaudeCodeExecutable / CLAUDE_BINARY) is not an executable file.
+ */
+export class CliNotFoundError extends Error {
+  constructor(
+    message: string,
+    /** The configured path that failed validation, if any */
+    readonly path?: string,
+    /** Every location the automatic search tried, in order */
+    readonly searched: string[] = []
+  ) {
+    super(message);
+    this.name = 'CliNotFoundError';
+  }
+}
+
+/**
+ * The CLI process exited while the query still needed it.
+ */
+export class CliExitError extends Error {
+  constructor(
+    readonly code: number | null,
+    readonly signal: NodeJS.Signals | null,
+    /** The last few KB the CLI wrote to stderr ('' for custom transports) */
+    readonly stderr: string,
+    message = code !== null
+      ? `Claude CLI exited with code ${code}`
+      : `Claude CLI was killed by ${signal}`
+  ) {
+    super(message);
+    this.name = 'CliExitError';
+  }
+}
+
+/**
+ * The CLI rejected the initialize handshake.
+ */
+export class InitializationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InitializationError';
+  }
+}
+
+/**
+ * A control request (setModel, mcpServerStatus, ...) failed: the CLI
+ * answered with an error, or no answer arrived before the timeout.
+ */
+export class ControlRequestError extends Error {
+  constructor(
+    message: string,
+    /** Request subtype, e.g. 'set_model' */
+    readonly subtype: string,
+    readonly requestId: string
+  ) {
+    super(message);
+    this.name = 'ControlRequestError';
+  }
+}
+
+/**
+ * A line on the CLI's stdout was not valid JSON. The line is skipped and
+ * the stream continues; the error is reported through q.on('error').
+ */
+export class ProtocolParseError extends Error {
+  constructor(
+    message: string,
+    /** The offending line */
+    readonly line: string
+  ) {
+    super(message);
+    this.name = 'ProtocolParseError';
+  }
+}
+
+/**
+ * The query hit its timeoutMs (wall clock) or idleTimeoutMs (no CLI output
+ * while waiting on it). The CLI was interrupted, then the query was closed.
+ */
+export class QueryTimeoutError extends Error {
+  constructor(
+    readonly kind: 'timeout' | 'idle',
+    readonly timeoutMs: number,
+    /** What the query was waiting on, e.g. 'tool Bash (toolu_01…)' or 'hook_callback PreToolUse' */
+    readonly pending: string[]
+  ) {
+    const reason =
+      kind === 'timeout'
+        ? `Query timed out after ${timeoutMs}ms`
+        : `Query stalled: no output from the CLI for ${timeoutMs}ms`;
+    super(pending.length > 0 ? `${reason} (waiting on: ${pending.join(', ')})` : reason);
+    this.name = 'QueryTimeoutError';
+  }
+}
+
+/**
+ * A BudgetGovernor budget is spent: a new query was refused, or a running
+ * query was closed (onExceeded: 'close').
+ */
+export class BudgetExceededError extends Error {
+  constructor(
+    /** The sub-budget key, or null for the governor's overall cap */
+    readonly key: string | null,
+    readonly spentUsd: number,
+    readonly limitUsd: number
+  ) {
+    const scope = key === null ? 'Budget' : `Budget for '${key}'`;
+    super(`${scope} exceeded: $${spentUsd.toFixed(4)} spent of $${limitUsd.toFixed(4)}`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * validateOptions() found errors (or, in strict mode, warnings) before the
+ * CLI was spawned.
+ */
+export class OptionsValidationError extends Error {
+  constructor(readonly diagnostics: OptionsDiagnostic[]) {
+    super(
+      `Invalid options:\n${diagnostics.map((d) => `  - ${d.option}: ${d.message}`).join('\n')}`
+    );
+    this.name = 'OptionsValidationError';
+  }
+}
@@ -5,8 +5,70 @@
 
 export const version = '0.9.1';
 
+// Query API — query(), V2 sessions, pre-warmed process pool, budgets, CLI discovery and transports
+export {
+  type BudgetEventMap,
+  type BudgetExceededEvent,
+  type BudgetGovernor,
+  type BudgetGovernorOptions,
+  type BudgetThresholdEvent,
+  type BudgetUsage,
+  createBudgetGovernor,
+} from './api/BudgetGovernor.ts';
+export {
+  ChildProcessTransport,
+  type ChildProcessTransportOptions,
+} from './api/ChildProcessTransport.ts';
+export { getCliInfo } from './api/cliInfo.ts';
+export {
+  createQueryPool,
+  type QueryPool,
+  type QueryPoolEventMap,
+  type QueryPoolOptions,
+} from './api/QueryPool.ts';
 export { query } from './api/query.ts';
+export { SocketTransport, type SocketTransportOptions } from './api/SocketTransport.ts';
+export {
+  unstable_v2_createSession,
+  unstable_v2_prompt,
+  unstable_v2_resumeSession,
+} from './api/session.ts';
+export { shutdownAllQueries } from './api/shutdown.ts';
+// Approvals — answer canUseTool from a remote UI
+export {
+  type ApprovalBroker,
+  type ApprovalBrokerOptions,
+  type ApprovalEventMap,
+  type ApprovalOutcome,
+  type ApprovalResolvedEvent,
+  createApprovalBroker,
+  type PendingApproval,
+} from './approvals.ts';
+export { clearCliDiscoveryCache } from './core/spawn.ts';
+// Error classes — branch on instanceof instead of matching messages
+export {
+  AbortError,
+  BudgetExceededError,
+  CliExitError,
+  CliNotFoundError,
+  ControlRequestError,
+  InitializationError,
+  OptionsValidationError,
+  ProtocolParseError,
+  QueryTimeoutError,
+} from './errors.ts';
 // MCP utilities — our own open source implementations
 export { createSdkMcpServer, tool } from './mcp.ts';
+// Streaming utilities — rebuild assistant messages from includePartialMessages events
+export { PartialJsonParser, PartialMessageAssembler, parsePartialJson } from './partial.ts';
+// Permissions — compile allow/deny/ask rules into a canUseTool callback; remember accepted rules
+export {
+  createPermissionPolicy,
+  createPermissionStore,
+  type PermissionPolicy,
+  type PermissionStore,
+} from './permissions.ts';
 // Re-export all types
 export type * from './types/index.ts';
+// Options checks — the same diagnostics query() reports, without spawning
+export { validateOptions } from './validation.ts';
@@ -0,0 +1,435 @@
+/**
+ * Partial-message assembly
+ *
+ * With includePartialMessages the CLI streams raw API events (stream_event
+ * messages) ahead of each complete assistant message. PartialMessageAssembler
+ * folds them into an AssembledMessage that grows as deltas arrive, including
+ * tool input parsed from incomplete JSON, and then reconciles it with the
+ * final SDKAssistantMessage(s) for the same API message id.
+ *
+ * Usable on any message stream; queries with assemblePartialMessages feed one
+ * and emit its events as q.on('partial').
+ */
+
+import type {
+  AssembledContentBlock,
+  AssembledMessage,
+  PartialMessageEvent,
+  SDKAssistantMessage,
+  SDKMessage,
+  SDKPartialAssistantMessage,
+  StreamContentDelta,
+} from './types/index.ts';
+
+/** Snapshots kept for reconciliation after their message_stop */
+const MAX_RECENT_MESSAGES = 16;
+
+export class PartialMessageAssembler {
+  /** Messages being streamed, by parent_tool_use_id (subagents stream separately) */
+  private streaming = new Map<string | null, AssembledMessage>();
+  /** Recent snapshots by message id, waiting for their final assistant messages */
+  private recent = new Map<string, AssembledMessage>();
+  private reconciled = new WeakSet<AssembledContentBlock>();
+  /** Tool input parsers of the blocks being streamed */
+  private inputParsers = new WeakMap<AssembledContentBlock, PartialJsonParser>();
+
+  /**
+   * Feed a message from the query. Returns the events it produced; messages
+   * other than stream_event and assistant produce none.
+   */
+  push(msg: SDKMessage): PartialMessageEvent[] {
+    if (msg.type === 'stream_event') return this.applyStreamEvent(msg);
+    if (msg.type === 'assistant') return [this.reconcile(msg)];
+    return [];
+  }
+
+  /** The message currently streaming for the main thread or a subagent */
+  current(parentToolUseId: string | null = null): AssembledMessage | undefined {
+    return this.streaming.get(parentToolUseId);
+  }
+
+  private applyStreamEvent(msg: SDKPartialAssistantMessage): PartialMessageEvent[] {
+    const { event } = msg;
+    if (event.type === 'message_start') {
+      const snapshot: AssembledMessage = {
+        id: event.message.id,
+        model: event.message.model,
+        parent_tool_use_id: msg.parent_tool_use_id,
+        session_id: msg.session_id,
+        content: [],
+        stop_reason: event.message.stop_reason,
+        usage: { ...event.message.usage },
+        done: false,
+      };
+      this.streaming.set(msg.parent_tool_use_id, snapshot);
+      this.remember(snapshot);
+      return [{ type: 'message_start', snapshot }];
+    }
+
+    const snapshot = this.streaming.get(msg.parent_tool_use_id);
+    // Joined mid-message: nothing to attach the event to
+    if (!snapshot) return [];
+
+    switch (event.type) {
+      case 'content_block_start': {
+        const block: AssembledContentBlock = { ...event.content_block, done: false };
+        if ('input' in block) {
+          block.partialJson = '';
+          this.inputParsers.set(block, new PartialJsonParser());
+        }
+        snapshot.content[event.index] = block;
+        return [{ type: 'block_start', index: event.index, block, snapshot }];
+      }
+      case 'content_block_delta': {
+        const block = snapshot.content[event.index];
+        if (!block) return [];
+        applyDelta(block, event.delta, this.inputParsers.get(block));
+        return [{ type: 'block_delta', index: event.index, delta: event.delta, block, snapshot }];
+      }
+      case 'content_block_stop': {
+        const block = snapshot.content[event.index];
+        if (!block) return [];
+        block.done = true;
+        return [{ type: 'block_stop', index: event.index, block, snapshot }];
+      }
+      case 'message_delta': {
+        snapshot.stop_reason = event.delta.stop_reason;
+        const usage = snapshot.usage as unknown as Record<string, unknown>;
+        for (const [key, value] of Object.entries(event.usage)) {
+          if (value !== null) usage[key] = value;
+        }
+        return [];
+      }
+      case 'message_stop':
+        snapshot.done = true;
+        this.streaming.delete(msg.parent_tool_use_id);
+        return [{ type: 'message_stop', snapshot }];
+    }
+    return [];
+  }
+
+  /**
+   * Replace streamed blocks with their final versions. The CLI may split one
+   * API message into several assistant messages, so each final block is
+   * matched by id (tool calls) or as the next unreconciled block of its type.
+   * Without streamed events the snapshot is built from the message alone.
+   */
+  private reconcile(msg: SDKAssistantMessage): PartialMessageEvent {
+    let snapshot = this.recent.get(msg.message.id);
+    if (!snapshot) {
+      snapshot = {
+        id: msg.message.id,
+        model: msg.message.model,
+        parent_tool_use_id: msg.parent_tool_use_id,
+        session_id: msg.session_id,
+        content: [],
+        stop_reason: msg.message.stop_reason,
+        usage: { ...msg.message.usage },
+        done: true,
+      };
+      this.remember(snapshot);
+    }
+
+    for (const final of msg.message.content) {
+      const target = snapshot.content.find((block) =>
+        'id' in final
+          ? 'id' in block && block.id === final.id
+          : block.type === final.type && !this.reconciled.has(block)
+      );
+      if (target) {
+        Object.assign(target, final, { done: true });
+        this.reconciled.add(target);
+      } else {
+        const block: AssembledContentBlock = { ...final, done: true };
+        snapshot.content.push(block);
+        this.reconciled.add(block);
+      }
+    }
+    return { type: 'reconciled', message: msg, snapshot };
+  }
+
+  private remember(snapshot: AssembledMessage): void {
+    this.recent.set(snapshot.id, snapshot);
+    if (this.recent.size > MAX_RECENT_MESSAGES) {
+      const oldest = this.recent.keys().next().value as string;
+      this.recent.delete(oldest);
+    }
+  }
+}
+
+function applyDelta(
+  block: AssembledContentBlock,
+  delta: StreamContentDelta,
+  inputParser?: PartialJsonParser
+): void {
+  switch (delta.type) {
+    case 'text_delta':
+      if (block.type === 'text') block.text += delta.text;
+      break;
+    case 'citations_delta':
+      if (block.type === 'text') block.citations = [...(block.citations ?? []), delta.citation];
+      break;
+    case 'thinking_delta':
+      if (block.type === 'thinking') block.thinking += delta.thinking;
+      break;
+    case 'signature_delta':
+      if (block.type === 'thinking') block.signature = delta.signature;
+      break;
+    case 'input_json_delta': {
+      if (block.partialJson === undefined || !inputParser || !('input' in block)) break;
+      block.partialJson += delta.partial_json;
+      const input = inputParser.push(delta.partial_json);
+      // Keep the last good value while the JSON is in an unparseable state
+      if (input !== undefined) (block as { input: unknown }).input = input;
+      break;
+    }
+  }
+}
+
+/**
+ * Parse a JSON document that may be cut off anywhere, e.g. streamed tool
+ * input. Unterminated strings, arrays and objects are closed; a trailing
+ * key, literal or escape sequence that can't be completed yet is dropped,
+ * and a trailing number loses an incomplete fraction or exponent. For text that grows chunk by chunk use PartialJsonParser, which
+ * doesn't rescan what it has already seen.
+ *
+ * @returns The parsed value, or undefined if nothing usable was received yet
+ *
+ * @example
+ * parsePartialJson('{"path": "/tmp/fo');    // { path: '/tmp/fo' }
+ * parsePartialJson('{"a": [1, 2], "b": t'); // { a: [1, 2] }
+ */
+export function parsePartialJson(text: string): unknown {
+  return new PartialJsonParser().push(text);
+}
+
+/** An open object or array, and where its value in progress goes */
+type Frame = {
+  container: Record<string, unknown> | unknown[];
+  /** Key of the current member, or index of the current element */
+  slot: string | number;
+  /** Already returned to a caller, so copied before it is written to */
+  shared: boolean;
+};
+
+type Mode = 'value' | 'key' | 'colon' | 'after' | 'string' | 'number' | 'literal' | 'end';
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+const JSON_NUMBER = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?$/;
+const LITERALS: Record<string, unknown> = { true: true, false: false, null: null };
+
+/**
+ * Incremental parser for JSON that arrives in chunks. Each push() scans only
+ * the new text and returns the value parsed so far, like parsePartialJson()
+ * on everything pushed.
+ *
+ * Every push() that changes the value returns a new root; only the objects
+ * and arrays still open are copied, so earlier results never change. After
+ * invalid JSON the last good value is returned and further text is ignored.
+ *
+ * @example
+ * const parser = new PartialJsonParser();
+ * parser.push('{"path": "/tmp/fo'); // { path: '/tmp/fo' }
+ * parser.push('o", "limit": 1');    // { path: '/tmp/foo', limit: 1 }
+ */
+export class PartialJsonParser {
+  private root: unknown;
+  private stack: Frame[] = [];
+  private mode: Mode = 'value';
+  private failed = false;
+  /** Decoded text of the string being read */
+  private text = '';
+  private isKey = false;
+  /** Escape sequence read so far ('\\', '\\u00', ...), or '' */
+  private escape = '';
+  /** Number or literal being read */
+  private token = '';
+
+  /** Feed the next chunk; returns the value parsed so far (undefined if none yet) */
+  push(chunk: string): unknown {
+    for (let i = 0; i < chunk.length && !this.failed; i++) {
+      this.read(chunk[i]);
+    }
+    if (!this.failed) this.showPending();
+    for (const frame of this.stack) frame.shared = true;
+    return this.root;
+  }
+
+  private read(ch: string): void {
+    switch (this.mode) {
+      case 'string':
+        this.readString(ch);
+        return;
+      case 'number':
+      case 'literal':
+        if (/[\w.+-]/.test(ch)) {
+          this.token += ch;
+          return;
+        }
+        this.endToken();
+        if (!this.failed) this.read(ch);
+        return;
+    }
+    if (ch === ' ' || ch === '\n' || ch === '\r' || ch === '\t') return;
+
+    switch (this.mode) {
+      case 'value':
+        this.startValue(ch);
+        return;
+      case 'key':
+        if (ch === '"') this.startString(true);
+        else if (ch === '}') this.close(ch);
+        else this.failed = true;
+        return;
+      case 'colon':
+        if (ch === ':') this.mode = 'value';
+        else this.failed = true;
+        return;
+      case 'after':
+        if (ch === ',') {
+          const top = this.stack[this.stack.length - 1];
+          if (Array.isArray(top.container)) {
+            top.slot = top.container.length;
+            this.mode = 'value';
+          } else {
+            this.mode = 'key';
+          }
+        } else {
+          this.close(ch);
+        }
+        return;
+      case 'end':
+        this.failed = true;
+    }
+  }
+
+  private startValue(ch: string): void {
+    if (ch === '{' || ch === '[') {
+      const container = ch === '{' ? {} : [];
+      this.assign(container);
+      this.stack.push({ container, slot: 0, shared: false });
+      this.mode = ch === '{' ? 'key' : 'value';
+    } else if (ch === '"') {
+      this.startString(false);
+    } else if (ch === '-' || (ch >= '0' && ch <= '9')) {
+      this.token = ch;
+      this.mode = 'number';
+    } else if (ch === 't' || ch === 'f' || ch === 'n') {
+      this.token = ch;
+      this.mode = 'literal';
+    } else if (ch === ']') {
+      // Only an empty array closes where a value is expected
+      const top = this.stack[this.stack.length - 1];
+      if (Array.isArray(top?.container) && top.container.length === 0) this.close(ch);
+      else this.failed = true;
+    } else {
+      this.failed = true;
+    }
+  }
+
+  private startString(isKey: boolean): void {
+    this.text = '';
+    this.isKey = isKey;
+    this.mode = 'string';
+  }
+
+  private readString(ch: string): void {
+    if (this.escape === '\\') {
+      if (ch === 'u') {
+        this.escape += ch;
+      } else if (ch in ESCAPES) {
+        this.text += ESCAPES[ch];
+        this.escape = '';
+      } else {
+        this.failed = true;
+      }
+    } else if (this.escape) {
+      if (!/[0-9a-fA-F]/.test(ch)) {
+        this.failed = true;
+        return;
+      }
+      this.escape += ch;
+      if (this.escape.length === 6) {
+        this.text += String.fromCharCode(Number.parseInt(this.escape.slice(2), 16));
+        this.escape = '';
+      }
+    } else if (ch === '\\') {
+      this.escape = ch;
+    } else if (ch === '"') {
+      if (this.isKey) {
+        this.stack[this.stack.length - 1].slot = this.text;
+        this.mode = 'colon';
+      } else {
+        this.assign(this.text);
+        this.valueDone();
+      }
+    } else {
+      this.text += ch;
+    }
+  }
+
+  private endToken(): void {
+    if (this.mode === 'number' ? !JSON_NUMBER.test(this.token) : !(this.token in LITERALS)) {
+      this.failed = true;
+      return;
+    }
+    this.assign(this.mode === 'number' ? Number(this.token) : LITERALS[this.token]);
+    this.valueDone();
+  }
+
+  private close(ch: string): void {
+    const top = this.stack[this.stack.length - 1];
+    if (!top || Array.isArray(top.container) !== (ch === ']')) {
+      this.failed = true;
+      return;
+    }
+    this.stack.pop();
+    this.valueDone();
+  }
+
+  private valueDone(): void {
+    this.mode = this.stack.length > 0 ? 'after' : 'end';
+  }
+
+  /**
+   * Show the value being read as far as it is valid: a string without its
+   * incomplete escape (or lone high surrogate), a number without a trailing
+   * '.', exponent or sign
+   */
+  private showPending(): void {
+    if (this.mode === 'string' && !this.isKey) {
+      const last = this.text.charCodeAt(this.text.length - 1);
+      this.assign(last >= 0xd800 && last <= 0xdbff ? this.text.slice(0, -1) : this.text);
+    } else if (this.mode === 'number') {
+      const number = this.token.replace(/[.eE+-]+$/, '');
+      if (JSON_NUMBER.test(number)) this.assign(Number(number));
+    }
+  }
+
+  /** Put a value in the current slot, copying open containers already returned */
+  private assign(value: unknown, depth = this.stack.length): void {
+    if (depth === 0) {
+      this.root = value;
+      return;
+    }
+    const frame = this.stack[depth - 1];
+    if (frame.shared) {
+      frame.container = Array.isArray(frame.container)
+        ? [...frame.container]
+        : { ...frame.container };
+      frame.shared = false;
+      this.assign(frame.container, depth - 1);
+    }
+    (frame.container as Record<string | number, unknown>)[frame.slot] = value;
+  }
+}
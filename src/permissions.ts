@@ -0,0 +1,552 @@
+/**
+ * Declarative permission policies and remembered permission rules
+ *
+ * createPermissionPolicy() compiles allow/deny/ask rules over tool names,
+ * file paths and Bash commands into a canUseTool callback, and explains which
+ * rule decided each call. createPermissionStore() keeps the rules users
+ * accept with "always allow" beyond the life of the process.
+ *
+ * @example
+ * const policy = createPermissionPolicy({
+ *   rules: [
+ *     { name: 'no-secrets', path: ['**\/.env*', '~/.ssh/**'], decision: 'deny' },
+ *     { name: 'no-force-push', tool: 'Bash', command: /git\s+push\s+.*--force/, decision: 'deny' },
+ *     { name: 'read-only', tool: ['Read', 'Glob', 'Grep'], decision: 'allow' },
+ *     { name: 'github', tool: 'mcp__github__*', decision: 'ask' },
+ *   ],
+ *   ask: promptTheUser,
+ * });
+ * query({ prompt, options: { canUseTool: policy.canUseTool } });
+ */
+
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { dirname, isAbsolute, resolve } from 'node:path';
+import type {
+  CanUseTool,
+  PermissionExplanation,
+  PermissionPolicyOptions,
+  PermissionPolicyRule,
+  PermissionResult,
+  PermissionStoreBackend,
+  PermissionStoreOptions,
+  PermissionUpdate,
+  PermissionUpdateDestination,
+  StoredPermission,
+} from './types/index.ts';
+
+/** Input field that holds the file path, by tool */
+const PATH_FIELDS: Record<string, string> = {
+  Read: 'file_path',
+  Write: 'file_path',
+  Edit: 'file_path',
+  MultiEdit: 'file_path',
+  NotebookEdit: 'notebook_path',
+  Glob: 'path',
+  Grep: 'path',
+};
+
+/** Tools that search the working directory when no path is given */
+const SEARCH_TOOLS = new Set(['Glob', 'Grep']);
+
+const DECISIONS = ['allow', 'deny', 'ask'] as const;
+
+type CompiledRule = {
+  rule: PermissionPolicyRule;
+  index: number;
+  name: string;
+  tools: RegExp[] | null;
+  paths: RegExp[] | null;
+  commands: RegExp[] | null;
+};
+
+export class PermissionPolicy {
+  private rules: CompiledRule[];
+  private cwd: string;
+
+  /**
+   * @throws {Error} If a rule has no valid decision or an invalid pattern
+   */
+  constructor(private options: PermissionPolicyOptions) {
+    this.cwd = resolve(options.cwd ?? process.cwd());
+    this.rules = options.rules.map((rule, index) => this.compile(rule, index));
+  }
+
+  /** The policy as a canUseTool callback */
+  readonly canUseTool: CanUseTool = async (toolName, input, context) => {
+    const explanation = this.explain(toolName, input);
+    this.options.onDecision?.(explanation);
+    const rule =
+      explanation.ruleIndex === null ? undefined : this.options.rules[explanation.ruleIndex];
+
+    switch (explanation.decision) {
+      case 'allow':
+        return { behavior: 'allow', updatedInput: rewriteInput(rule, input) };
+      case 'deny': {
+        const result: PermissionResult = {
+          behavior: 'deny',
+          message: rule?.message ?? explanation.reason,
+        };
+        if (rule?.interrupt) result.interrupt = true;
+        return result;
+      }
+      case 'ask':
+        if (this.options.ask) return this.options.ask(toolName, input, context);
+        return { behavior: 'deny', message: `${explanation.reason}, and no approver is set` };
+    }
+  };
+
+  /** Which rule decides a tool call, without running it or the `ask` callback */
+  explain(toolName: string, input: Record<string, unknown>): PermissionExplanation {
+    const deciding =
+      this.options.evaluation === 'deny-overrides'
+        ? this.denyOverrides(toolName, input)
+        : this.rules.find((rule) => this.matches(rule, toolName, input));
+
+    if (!deciding) {
+      const decision = this.options.defaultDecision ?? 'ask';
+      return {
+        toolName,
+        decision,
+        rule: null,
+        ruleIndex: null,
+        reason: `No rule matches ${toolName}; the default is ${decision}`,
+      };
+    }
+    const { decision } = deciding.rule;
+    return {
+      toolName,
+      decision,
+      rule: deciding.name,
+      ruleIndex: deciding.index,
+      reason: `Rule '${deciding.name}' says ${decision} for ${toolName}`,
+    };
+  }
+
+  /** Any matching deny wins, then ask, then allow; the first rule of that kind decides */
+  private denyOverrides(
+    toolName: string,
+    input: Record<string, unknown>
+  ): CompiledRule | undefined {
+    const matching = this.rules.filter((rule) => this.matches(rule, toolName, input));
+    for (const decision of ['deny', 'ask', 'allow'] as const) {
+      const rule = matching.find((r) => r.rule.decision === decision);
+      if (rule) return rule;
+    }
+    return undefined;
+  }
+
+  private matches(rule: CompiledRule, toolName: string, input: Record<string, unknown>): boolean {
+    if (rule.tools && !rule.tools.some((re) => re.test(toolName))) return false;
+
+    if (rule.paths) {
+      const path = toolInputPath(toolName, input, this.cwd);
+      if (path === null || !rule.paths.some((re) => re.test(path))) return false;
+    }
+
+    if (rule.commands) {
+      if (toolName !== 'Bash' || typeof input.command !== 'string') return false;
+      const command = input.command;
+      if (!rule.commands.some((re) => re.test(command))) return false;
+    }
+    return true;
+  }
+
+  private compile(rule: PermissionPolicyRule, index: number): CompiledRule {
+    const name = rule.name ?? `rule ${index}`;
+    if (!DECISIONS.includes(rule.decision)) {
+      throw new Error(
+        `Permission rule '${name}': decision must be one of ${DECISIONS.join(', ')}, got ${String(rule.decision)}`
+      );
+    }
+    try {
+      return {
+        rule,
+        index,
+        name,
+        tools: rule.tool === undefined ? null : toArray(rule.tool).map(toolPattern),
+        paths:
+          rule.path === undefined
+            ? null
+            : toArray(rule.path).map((glob) => globToRegExp(this.absoluteGlob(glob))),
+        commands: rule.command === undefined ? null : toArray(rule.command).map(commandPattern),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Permission rule '${name}': ${message}`);
+    }
+  }
+
+  /** Relative globs are anchored at cwd; globs starting with '**' match anywhere */
+  private absoluteGlob(glob: string): string {
+    const expanded = expandHome(glob);
+    if (isAbsolute(expanded) || expanded.startsWith('**')) return expanded;
+    return `${this.cwd}/${expanded}`;
+  }
+}
+
+/**
+ * Compile permission rules into a canUseTool callback.
+ *
+ * @example
+ * const policy = createPermissionPolicy({
+ *   rules: [{ tool: 'Bash', command: /^rm\s/, decision: 'deny', message: 'No deleting' }],
+ *   defaultDecision: 'allow',
+ * });
+ * policy.explain('Bash', { command: 'rm -rf build' });
+ * // { decision: 'deny', rule: 'rule 0', reason: "Rule 'rule 0' says deny for Bash", ... }
+ */
+export function createPermissionPolicy(
+  options: PermissionPolicyOptions | PermissionPolicyRule[]
+): PermissionPolicy {
+  return new PermissionPolicy(Array.isArray(options) ? { rules: options } : options);
+}
+
+/** Destinations that outlive the process; 'session' and 'cliArg' rules are not remembered */
+const PERSISTENT_DESTINATIONS = new Set<PermissionUpdateDestination>([
+  'userSettings',
+  'projectSettings',
+  'localSettings',
+]);
+
+type StoreScope = { project: string; tenant?: string };
+
+/**
+ * Accepted permission rules, per project and tenant. Queries use it through
+ * the `permissionStore` option: rules from allowed canUseTool results are
+ * recorded, and matching requests are answered from the store.
+ */
+export class PermissionStore {
+  /** Read-modify-write cycles run one at a time so concurrent updates don't overwrite each other */
+  private writing: Promise<unknown> = Promise.resolve();
+
+  constructor(private backend: PermissionStoreBackend) {}
+
+  /** Stored rules, optionally only those of one project and/or tenant */
+  async list(
+    filter: { project?: string; tenant?: string | null } = {}
+  ): Promise<StoredPermission[]> {
+    const project = filter.project === undefined ? undefined : resolve(filter.project);
+    return (await this.backend.load()).filter(
+      (permission) =>
+        (project === undefined || permission.project === project) &&
+        (filter.tenant === undefined || permission.tenant === filter.tenant)
+    );
+  }
+
+  /**
+   * Remember the rules of accepted permission updates: `addRules` adds and
+   * `removeRules` removes allow/deny rules. Updates for the session or other
+   * kinds of update are skipped.
+   *
+   * @returns The rules added
+   */
+  record(updates: PermissionUpdate[], scope: StoreScope): Promise<StoredPermission[]> {
+    const project = resolve(scope.project);
+    const tenant = scope.tenant ?? null;
+    return this.update((permissions) => {
+      const added: StoredPermission[] = [];
+      for (const update of updates) {
+        if (update.type !== 'addRules' && update.type !== 'removeRules') continue;
+        const { behavior, destination } = update;
+        if (behavior === 'ask' || !PERSISTENT_DESTINATIONS.has(destination)) continue;
+
+        for (const rule of update.rules) {
+          const index = permissions.findIndex(
+            (p) =>
+              p.project === project &&
+              p.tenant === tenant &&
+              p.toolName === rule.toolName &&
+              p.ruleContent === rule.ruleContent &&
+              p.behavior === behavior
+          );
+          if (update.type === 'removeRules') {
+            if (index !== -1) permissions.splice(index, 1);
+          } else if (index === -1) {
+            const permission: StoredPermission = {
+              id: randomUUID(),
+              project,
+              tenant,
+              toolName: rule.toolName,
+              ...(rule.ruleContent !== undefined && { ruleContent: rule.ruleContent }),
+              behavior,
+              destination,
+              createdAt: Date.now(),
+            };
+            permissions.push(permission);
+            added.push(permission);
+          }
+        }
+      }
+      return added;
+    });
+  }
+
+  /**
+   * Forget one rule.
+   *
+   * @returns false if no rule has this id
+   */
+  revoke(id: string): Promise<boolean> {
+    return this.update((permissions) => {
+      const index = permissions.findIndex((permission) => permission.id === id);
+      if (index !== -1) permissions.splice(index, 1);
+      return index !== -1;
+    });
+  }
+
+  /**
+   * Forget every rule, or those of one project and/or tenant.
+   *
+   * @returns How many rules were removed
+   */
+  clear(filter: { project?: string; tenant?: string | null } = {}): Promise<number> {
+    const project = filter.project === undefined ? undefined : resolve(filter.project);
+    return this.update((permissions) => {
+      const kept = permissions.filter(
+        (permission) =>
+          (project !== undefined && permission.project !== project) ||
+          (filter.tenant !== undefined && permission.tenant !== filter.tenant)
+      );
+      const removed = permissions.length - kept.length;
+      permissions.splice(0, permissions.length, ...kept);
+      return removed;
+    });
+  }
+
+  /** The stored rule that decides a tool call, deny rules first; null if none applies */
+  async match(
+    toolName: string,
+    input: Record<string, unknown>,
+    scope: StoreScope
+  ): Promise<StoredPermission | null> {
+    const permissions = await this.list({
+      project: scope.project,
+      tenant: scope.tenant ?? null,
+    });
+    const matching = permissions.filter((permission) =>
+      storedRuleMatches(permission, toolName, input)
+    );
+    return (
+      matching.find((permission) => permission.behavior === 'deny') ??
+      matching.find((permission) => permission.behavior === 'allow') ??
+      null
+    );
+  }
+
+  private update<T>(change: (permissions: StoredPermission[]) => T): Promise<T> {
+    const run = this.writing.then(async () => {
+      const permissions = await this.backend.load();
+      const result = change(permissions);
+      await this.backend.save(permissions);
+      return result;
+    });
+    this.writing = run.catch(() => {});
+    return run;
+  }
+}
+
+/**
+ * Create a permission store: a JSON `file`, a custom `backend`, or (with
+ * neither) memory. Queries use it with `{ permissionStore: { store, tenant } }`.
+ *
+ * @example
+ * const store = createPermissionStore({ file: '/var/lib/agent/permissions.json' });
+ * query({ prompt, options: { canUseTool, permissionStore: { store, tenant: 'acme' } } });
+ * await store.list({ tenant: 'acme' });
+ */
+export function createPermissionStore(options: PermissionStoreOptions = {}): PermissionStore {
+  if (options.file !== undefined && options.backend !== undefined) {
+    throw new Error('createPermissionStore: pass either file or backend, not both');
+  }
+  const backend =
+    options.backend ??
+    (options.file === undefined ? new MemoryBackend() : new FileBackend(options.file));
+  return new PermissionStore(backend);
+}
+
+class MemoryBackend implements PermissionStoreBackend {
+  private permissions: StoredPermission[] = [];
+
+  async load(): Promise<StoredPermission[]> {
+    return structuredClone(this.permissions);
+  }
+
+  async save(permissions: StoredPermission[]): Promise<void> {
+    this.permissions = structuredClone(permissions);
+  }
+}
+
+/** `{ "version": 1, "permissions": [...] }`, replaced atomically on save */
+class FileBackend implements PermissionStoreBackend {
+  constructor(private path: string) {}
+
+  async load(): Promise<StoredPermission[]> {
+    let text: string;
+    try {
+      text = await readFile(this.path, 'utf-8');
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+    try {
+      const data = JSON.parse(text) as { permissions?: StoredPermission[] };
+      return Array.isArray(data.permissions) ? data.permissions : [];
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Permission store ${this.path} is not valid JSON: ${message}`);
+    }
+  }
+
+  async save(permissions: StoredPermission[]): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    const temp = `${this.path}.${process.pid}.tmp`;
+    await writeFile(temp, `${JSON.stringify({ version: 1, permissions }, null, 2)}\n`);
+    await rename(temp, this.path);
+  }
+}
+
+/**
+ * Chaining, piping, redirection, backgrounding, process substitution (`<(…)`,
+ * `>(…)`), and command substitution or parameter expansion (any `$`)
+ */
+const SHELL_OPERATORS = /&&|\|\||[;|&<>`$\n\r]/;
+
+/**
+ * Settings-file rule semantics: `Bash(npm test:*)` matches by prefix (but
+ * never a command with shell operators), `Read(src/**)` by glob from the
+ * project directory (`//` for absolute paths, `~/` for home),
+ * `WebFetch(domain:host)` by host name, and `mcp__server` covers every tool
+ * of that server.
+ */
+function storedRuleMatches(
+  permission: StoredPermission,
+  toolName: string,
+  input: Record<string, unknown>
+): boolean {
+  const { ruleContent, project } = permission;
+  if (permission.toolName !== toolName) {
+    const isServerRule =
+      permission.toolName.startsWith('mcp__') && !permission.toolName.slice(5).includes('__');
+    return (
+      isServerRule && ruleContent === undefined && toolName.startsWith(`${permission.toolName}__`)
+    );
+  }
+  if (ruleContent === undefined) return true;
+
+  if (toolName === 'Bash') {
+    if (typeof input.command !== 'string') return false;
+    if (!ruleContent.endsWith(':*')) return input.command === ruleContent;
+    // A prefix vouches for one command, not for whatever is chained or substituted after it
+    if (SHELL_OPERATORS.test(input.command)) return false;
+    const prefix = ruleContent.slice(0, -2);
+    return input.command === prefix || input.command.startsWith(`${prefix} `);
+  }
+  if (toolName === 'WebFetch') {
+    if (!ruleContent.startsWith('domain:') || typeof input.url !== 'string') return false;
+    try {
+      return new URL(input.url).hostname === ruleContent.slice('domain:'.length);
+    } catch {
+      return false;
+    }
+  }
+  if (PATH_FIELDS[toolName]) {
+    const path = toolInputPath(toolName, input, project);
+    if (path === null) return false;
+    const glob = ruleContent.startsWith('//')
+      ? ruleContent.slice(1)
+      : ruleContent.startsWith('~/')
+        ? expandHome(ruleContent)
+        : `${project}/${ruleContent.replace(/^\//, '')}`;
+    return globToRegExp(glob).test(path);
+  }
+  return false;
+}
+
+function rewriteInput(
+  rule: PermissionPolicyRule | undefined,
+  input: Record<string, unknown>
+): Record<string, unknown> {
+  const update = rule?.updatedInput;
+  if (update === undefined) return input;
+  return typeof update === 'function' ? update(input) : { ...input, ...update };
+}
+
+/** Absolute path a file tool works on, or null for tools without one */
+function toolInputPath(
+  toolName: string,
+  input: Record<string, unknown>,
+  cwd: string
+): string | null {
+  const field = PATH_FIELDS[toolName];
+  if (!field) return null;
+  const value = input[field];
+  if (typeof value === 'string' && value) return resolve(cwd, expandHome(value));
+  return SEARCH_TOOLS.has(toolName) ? cwd : null;
+}
+
+function toArray<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+function expandHome(path: string): string {
+  return path === '~' || path.startsWith('~/') ? homedir() + path.slice(1) : path;
+}
+
+/** Exact tool name, or '*' as a wildcard for any characters */
+function toolPattern(pattern: string | RegExp): RegExp {
+  if (pattern instanceof RegExp) return withoutGlobalFlag(pattern);
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`);
+}
+
+function commandPattern(pattern: string | RegExp): RegExp {
+  return pattern instanceof RegExp ? withoutGlobalFlag(pattern) : new RegExp(pattern);
+}
+
+/** test() on a /g regex is stateful (lastIndex); rules must give the same answer every time */
+function withoutGlobalFlag(re: RegExp): RegExp {
+  return re.global || re.sticky ? new RegExp(re.source, re.flags.replace(/[gy]/g, '')) : re;
+}
+
+/**
+ * Translate a path glob: `*` and `?` stay within one path segment, `**`
+ * crosses segments (`**\/` also matches no directory at all), `{a,b}`
+ * matches either alternative.
+ */
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let braces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === '*') {
+      if (glob[i + 1] !== '*') {
+        source += '[^/]*';
+      } else if (glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i++;
+      }
+    } else if (ch === '?') {
+      source += '[^/]';
+    } else if (ch === '{') {
+      braces++;
+      source += '(?:';
+    } else if (ch === '}' && braces > 0) {
+      braces--;
+      source += ')';
+    } else if (ch === ',' && braces > 0) {
+      source += '|';
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  if (braces > 0) throw new Error(`Unclosed '{' in glob ${glob}`);
+  return new RegExp(`^${source}$`);
+}
@@ -53,12 +53,26 @@ const outputFile = process.env.CAPTURE_OUTPUT_FILE || `/tmp/capture-${process.pi
 // Capture CLI args (skip node and script path)
 const cliArgs = process.argv.slice(2);
 
+// Version probe (CLI compatibility checks): answer like the real CLI and exit
+if (cliArgs[0] === '--version') {
+  console.log('2.1.37 (Claude Code)');
+  process.exit(0);
+}
+
 // Capture stdin messages
 const stdinMessages = [];
 
 // Track if we've sent init response
 let initResponseSent = false;
 
+const waitForUser = Boolean(process.env.CAPTURE_WAIT_FOR_USER);
+let finishScheduled = false;
+
+// Simulate a crash: with CAPTURE_CRASH_MARKER set, the first run (no marker
+// file yet) creates the marker and exits with code 1 on the first user message.
+const crashMarker = process.env.CAPTURE_CRASH_MARKER;
+const shouldCrash = Boolean(crashMarker) && !fs.existsSync(crashMarker);
+
 const rl = readline.createInterface({
   input: process.stdin,
   crlfDelay: Infinity,
@@ -71,6 +85,16 @@ rl.on('line', (line) => {
     const msg = JSON.parse(line);
     stdinMessages.push(msg);
 
+    if (msg.type === 'user' && shouldCrash) {
+      fs.writeFileSync(crashMarker, String(process.pid));
+      saveCapture();
+      process.exit(1);
+    }
+
+    if (msg.type === 'user' && waitForUser && !finishScheduled) {
+      scheduleFinish();
+    }
+
     // Respond to control_requests so the SDK doesn't hang
     if (msg.type === 'control_request') {
       if (msg.request?.subtype === 'initialize' && !initResponseSent) {
@@ -113,6 +137,17 @@ rl.on('line', (line) => {
             },
           })
         );
+      } else if (msg.request?.subtype === 'rewind_files') {
+        console.log(
+          JSON.stringify({
+            type: 'control_response',
+            response: {
+              subtype: 'success',
+              request_id: msg.request_id,
+              response: { canRewind: true, filesChanged: [], insertions: 0, deletions: 0 },
+            },
+          })
+        );
       } else if (msg.request?.subtype === 'mcp_message') {
         console.log(
           JSON.stringify({
@@ -175,8 +210,15 @@ function saveCapture() {
   fs.renameSync(tempFile, outputFile);
 }
 
-// After delay, send result and save captured data
-setTimeout(() => {
+// After delay, send result and save captured data.
+// With CAPTURE_WAIT_FOR_USER set, the delay starts at the first user message
+// instead of at startup (keeps pre-spawned processes alive, e.g. QueryPool tests).
+function scheduleFinish() {
+  finishScheduled = true;
+  setTimeout(finish, 300);
+}
+
+function finish() {
   // Save captured data FIRST
   saveCapture();
 
@@ -194,7 +236,11 @@ setTimeout(() => {
 
   // Exit cleanly
   process.exit(0);
-}, 300);
+}
+
+if (!waitForUser && !shouldCrash) {
+  scheduleFinish();
+}
 
 // Handle stdin close
 process.stdin.on('end', () => {
@@ -61,6 +61,13 @@ export type InternalHookCallback = (
   options: { signal: AbortSignal }
 ) => Promise<Record<string, unknown>>;
 
+/**
+ * Anything NDJSON can be written to — a Writable stream or a CliTransport
+ */
+export type NdjsonWriter = {
+  write(data: string): unknown;
+};
+
 /**
  * Messages from CLI stdout (can be regular messages OR control requests)
  */
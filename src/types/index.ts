@@ -51,6 +51,12 @@ export type {
   SDKUserMessageReplay,
 } from '@anthropic-ai/claude-agent-sdk';
 
+// ============================================================================
+// V2 SESSION TYPES (unstable)
+// ============================================================================
+
+export type { SDKSession, SDKSessionOptions } from '@anthropic-ai/claude-agent-sdk';
+
 // ============================================================================
 // PERMISSION & CALLBACK TYPES
 // ============================================================================
@@ -183,16 +189,707 @@ export type SDKControlInitializeResponse = {
 // OPEN SDK EXTENSIONS (beyond official SDK)
 // ============================================================================
 
+/**
+ * Extended Options type with settings not in the official SDK.
+ * Accepted anywhere Options is; unknown to the official SDK, so ignored there.
+ */
+export type ExtendedOptions = import('@anthropic-ai/claude-agent-sdk').Options & {
+  /**
+   * Snapshot files in the SDK before Write/Edit/MultiEdit/NotebookEdit run,
+   * so restoreCheckpoint() works regardless of CLI checkpointing support.
+   */
+  sdkFileCheckpointing?: boolean;
+  /**
+   * Reach the CLI through a custom transport instead of spawning it locally.
+   * Called once per query. The remote side owns the CLI command line, so
+   * options that map to CLI flags must be applied there. Transports written
+   * against the official SDK's `Transport` interface are accepted as well.
+   */
+  transport?: (
+    options: import('@anthropic-ai/claude-agent-sdk').Options
+  ) => CliTransport | import('@anthropic-ai/claude-agent-sdk').Transport;
+  /**
+   * Respawn the CLI when it exits non-zero mid-conversation, resuming the
+   * last seen session. Off by default.
+   */
+  recovery?: RecoveryOptions;
+  /**
+   * Bound the buffer of messages the consumer has not read yet. Unbounded
+   * by default.
+   */
+  backpressure?: BackpressureOptions;
+  /**
+   * The query is consumed only through on() handlers and subscribe(): its
+   * own iterator buffers nothing (so it never holds up backpressure), and
+   * iterating it throws. Default: false — the iterator buffers every message
+   * from the start until it is read.
+   */
+  callbacksOnly?: boolean;
+  /**
+   * Messages kept for subscribe()/tee() replay. Default: 0 — nothing is
+   * retained and subscribing with `replay` throws.
+   */
+  replayHistorySize?: number;
+  /**
+   * Default timeout for control requests (interrupt, setModel, mcpServerStatus, ...)
+   * that don't pass their own timeoutMs. Default: no timeout.
+   */
+  controlRequestTimeoutMs?: number;
+  /**
+   * Wall-clock limit for the whole query, from the first prompt. On expiry
+   * the CLI is interrupted, then the query fails with a QueryTimeoutError.
+   */
+  timeoutMs?: number;
+  /**
+   * Fail the query (interrupt, then QueryTimeoutError) when the CLI produces
+   * no output for this long while a turn or control request is pending.
+   */
+  idleTimeoutMs?: number;
+  /**
+   * Spawn the local CLI in its own process group (POSIX only), so close()
+   * also terminates the tool subprocesses it started. A Ctrl-C in the
+   * terminal then no longer reaches the CLI, so while such a query is live
+   * the SDK handles SIGINT/SIGTERM itself: it closes all queries, then
+   * raises the signal again if nothing else listens for it. Default: false.
+   */
+  processGroup?: boolean;
+  /**
+   * Rebuild stream_event partials into assistant-message snapshots and emit
+   * them as q.on('partial') events. Requires includePartialMessages.
+   */
+  assemblePartialMessages?: boolean;
+  /**
+   * Count this query's spend against a shared BudgetGovernor, optionally
+   * under a sub-budget key. The query is refused if the budget is spent.
+   */
+  budget?: BudgetOptions;
+  /**
+   * Remember the rules users accept with "always allow" (or "always deny"):
+   * updatedPermissions of an allowed canUseTool result that add rules to a
+   * settings file. Later permission requests matching a remembered rule, in
+   * any process sharing the store, are answered without calling canUseTool.
+   */
+  permissionStore?: PermissionStoreScope;
+  /**
+   * How query() treats validateOptions() diagnostics: 'warn' (default)
+   * throws on errors and passes warnings to onWarning, 'strict' throws on
+   * warnings too, 'off' skips validation.
+   */
+  optionsValidation?: 'warn' | 'strict' | 'off';
+  /**
+   * Receives non-fatal diagnostics: validateOptions() warnings (in the
+   * default 'warn' mode) and options the installed CLI is likely too old for
+   * ('cli-too-old', 'cli-version-unknown'). Nothing is logged without it,
+   * and the CLI version is not probed.
+   */
+  onWarning?: (warning: OptionsDiagnostic) => void;
+  /**
+   * Requests from the CLI (permission checks, hook callbacks, SDK MCP tool
+   * calls) handled at the same time; more wait their turn. Default 16.
+   * CLI output keeps flowing either way.
+   */
+  controlRequestConcurrency?: number;
+  /**
+   * Answer sent to the CLI when a hook outlives its matcher's `timeout`
+   * (the hook's signal is aborted): 'continue' (default) lets the operation
+   * proceed, 'block' blocks it, or a function builds the hook output.
+   */
+  hookTimeoutFallback?:
+    | 'continue'
+    | 'block'
+    | ((
+        input: import('@anthropic-ai/claude-agent-sdk').HookInput
+      ) => import('@anthropic-ai/claude-agent-sdk').HookJSONOutput);
+};
+
+/**
+ * A problem found by validateOptions()
+ */
+export type OptionsDiagnostic = {
+  /** 'error': the query would fail or misbehave; 'warning': likely a mistake */
+  severity: 'error' | 'warning';
+  /** Stable identifier, e.g. 'unknown-option' or 'unknown-hook-event' */
+  code: string;
+  /** Option path, e.g. 'hooks.PreToolUse' or 'mcpServers.files' */
+  option: string;
+  message: string;
+};
+
+/**
+ * The Claude CLI a query would run (getCliInfo())
+ */
+export type CliInfo = {
+  /** Resolved binary or script path */
+  path: string;
+  /** Semantic version from `claude --version`, or null if it couldn't be read */
+  version: string | null;
+  /** Raw `claude --version` output */
+  versionOutput: string;
+};
+
+/**
+ * One rule of a permission policy (createPermissionPolicy). Every condition
+ * given must match; a rule without conditions matches every tool call.
+ */
+export type PermissionPolicyRule = {
+  /** Shown in explanations and deny messages (default: 'rule <index>') */
+  name?: string;
+  /**
+   * Tool name: exact ('Bash'), a pattern where `*` matches anything
+   * ('mcp__github__*'), or a RegExp. An array matches any of them.
+   */
+  tool?: string | RegExp | Array<string | RegExp>;
+  /**
+   * Globs over the file path of Read, Write, Edit, MultiEdit, NotebookEdit,
+   * Glob and Grep calls (`**` crosses directories, `~` is the home
+   * directory, relative globs are resolved against the policy's cwd).
+   * Other tools never match a rule with `path`.
+   */
+  path?: string | string[];
+  /** Patterns over the Bash command. Other tools never match a rule with `command`. */
+  command?: RegExp | string | Array<RegExp | string>;
+  /** 'ask' hands the call to the policy's `ask` callback */
+  decision: 'allow' | 'deny' | 'ask';
+  /** For 'allow': fields merged into the tool input, or a function returning the new input */
+  updatedInput?:
+    | Record<string, unknown>
+    | ((input: Record<string, unknown>) => Record<string, unknown>);
+  /** For 'deny': message shown to the model */
+  message?: string;
+  /** For 'deny': also interrupt the turn */
+  interrupt?: boolean;
+};
+
+/**
+ * Options for createPermissionPolicy()
+ */
+export type PermissionPolicyOptions = {
+  rules: PermissionPolicyRule[];
+  /**
+   * 'first-match' (default): the first matching rule decides.
+   * 'deny-overrides': any matching deny wins, then ask, then allow.
+   */
+  evaluation?: 'first-match' | 'deny-overrides';
+  /** Decision when no rule matches (default 'ask') */
+  defaultDecision?: 'allow' | 'deny' | 'ask';
+  /** Decides 'ask' outcomes, e.g. by asking a person. Without it they are denied. */
+  ask?: import('@anthropic-ai/claude-agent-sdk').CanUseTool;
+  /** Base for relative path globs and relative input paths (default process.cwd()) */
+  cwd?: string;
+  /** Called with every decision, e.g. for audit logs */
+  onDecision?: (explanation: PermissionExplanation) => void;
+};
+
+/**
+ * Which rule decided a tool call, and why
+ */
+export type PermissionExplanation = {
+  toolName: string;
+  decision: 'allow' | 'deny' | 'ask';
+  /** The deciding rule's name, or null if the default decision applied */
+  rule: string | null;
+  /** Index into `rules`, or null */
+  ruleIndex: number | null;
+  /** Human-readable account of the decision */
+  reason: string;
+};
+
+/**
+ * A permission rule the user accepted, kept by a PermissionStore
+ */
+export type StoredPermission = {
+  id: string;
+  /** Absolute project directory the rule applies to */
+  project: string;
+  /** null for rules stored without a tenant */
+  tenant: string | null;
+  toolName: string;
+  /**
+   * As in settings files: 'npm test:*' (prefix) or an exact command for
+   * Bash, a path glob for file tools, 'domain:example.com' for WebFetch.
+   * Without it the rule covers every call of the tool.
+   */
+  ruleContent?: string;
+  behavior: 'allow' | 'deny';
+  /** Settings file the update was meant for */
+  destination: import('@anthropic-ai/claude-agent-sdk').PermissionUpdateDestination;
+  /** Epoch milliseconds */
+  createdAt: number;
+};
+
+/**
+ * Where a PermissionStore keeps its rules. load() returns the rules of every
+ * project and tenant; save() replaces all of them.
+ */
+export type PermissionStoreBackend = {
+  load(): Promise<StoredPermission[]>;
+  save(permissions: StoredPermission[]): Promise<void>;
+};
+
+/**
+ * Options for createPermissionStore(). Without `file` or `backend`, rules
+ * are kept in memory for the life of the process.
+ */
+export type PermissionStoreOptions = {
+  /** JSON file to keep the rules in; created on the first save */
+  file?: string;
+  backend?: PermissionStoreBackend;
+};
+
+/**
+ * Permission store registration (see ExtendedOptions.permissionStore)
+ */
+export type PermissionStoreScope = {
+  store: import('../permissions.ts').PermissionStore;
+  /** Project the rules belong to (default: the query's cwd) */
+  project?: string;
+  /** Keeps the rules of tenants sharing a store apart */
+  tenant?: string;
+};
+
+/**
+ * Budget registration (see ExtendedOptions.budget)
+ */
+export type BudgetOptions = {
+  governor: import('../api/BudgetGovernor.ts').BudgetGovernor;
+  /** Sub-budget key, e.g. a tenant id */
+  key?: string;
+};
+
+/**
+ * Options for unstable_v2_createSession() and friends: the official session
+ * options plus any query option (timeouts, recovery, ...)
+ */
+export type SessionOptions = import('@anthropic-ai/claude-agent-sdk').SDKSessionOptions &
+  ExtendedOptions;
+
+/**
+ * Per-call options for control methods
+ */
+export type ControlRequestOptions = {
+  /** Reject if the CLI hasn't responded in time. Overrides controlRequestTimeoutMs. */
+  timeoutMs?: number;
+  /** Reject when aborted. The CLI may still apply the request. */
+  signal?: AbortSignal;
+};
+
+/**
+ * Options for subscribe() and tee()
+ */
+export type SubscribeOptions = {
+  /**
+   * Deliver past messages first: everything still in the replay history
+   * ('start'), or from the message with this uuid onward. Needs the
+   * replayHistorySize option.
+   */
+  replay?: 'start' | { fromUuid: string };
+};
+
+/**
+ * What happens when the message buffer reaches its high-water mark:
+ * - 'block': pause reading CLI stdout until the consumer drains half the buffer
+ * - 'drop-partials': discard incoming `stream_event` messages while full
+ * - 'error': fail the query
+ */
+export type OverflowPolicy = 'block' | 'drop-partials' | 'error';
+
+/**
+ * Message buffer bounds (see ExtendedOptions.backpressure)
+ */
+export type BackpressureOptions = {
+  /** Buffered message count that triggers the overflow policy */
+  highWaterMark: number;
+  /** Default: 'block' */
+  overflow?: OverflowPolicy;
+};
+
+/**
+ * Message buffer metrics returned by queueMetrics()
+ */
+export type QueueMetrics = {
+  /** Messages buffered and not yet consumed */
+  depth: number;
+  /** Largest depth seen */
+  maxDepth: number;
+  /** Live subscriptions, including the Query's own iterator */
+  subscribers: number;
+  highWaterMark: number | null;
+  /** Whether reading from the CLI is currently paused ('block' policy) */
+  paused: boolean;
+  /** Times reading was paused */
+  pauseCount: number;
+  /** stream_event messages discarded ('drop-partials' policy) */
+  droppedPartials: number;
+};
+
+/**
+ * Timing summary for one kind of request or callback
+ */
+export type LatencyStats = {
+  count: number;
+  totalMs: number;
+  minMs: number;
+  maxMs: number;
+  meanMs: number;
+};
+
+/**
+ * Runtime statistics returned by stats()
+ */
+export type QueryStats = {
+  /** Lines read from the CLI, control messages included */
+  messagesIn: number;
+  bytesIn: number;
+  /** Messages written to the CLI, control messages included */
+  messagesOut: number;
+  bytesOut: number;
+  /** From spawn to the init handshake response; null until initialized */
+  timeToInitMs: number | null;
+  /** From the first prompt to the first assistant output; null until then */
+  timeToFirstTokenMs: number | null;
+  /** Prompt-to-result time of each finished turn, oldest first */
+  turnDurationsMs: number[];
+  /** Round-trip latency of SDK → CLI control requests, by subtype */
+  controlRequests: Record<string, LatencyStats>;
+  /** Duration of hook callbacks, by hook event */
+  hooks: Record<string, LatencyStats>;
+  /** Duration of canUseTool callbacks */
+  canUseTool: LatencyStats;
+  /** Messages buffered and not yet consumed (see queueMetrics()) */
+  queueDepth: number;
+};
+
+/**
+ * Everything a turn produced, returned by collect()
+ */
+export type CollectedResult = {
+  /** Every message up to and including the result, in order */
+  messages: QueryMessage[];
+  /** The result text, or the last assistant text if the turn failed */
+  finalText: string;
+  /** Parsed output when outputFormat requested a JSON schema */
+  structuredOutput: unknown;
+  usage: import('@anthropic-ai/claude-agent-sdk').NonNullableUsage;
+  costUsd: number;
+  sessionId: string;
+};
+
+/**
+ * Crash recovery policy (see ExtendedOptions.recovery)
+ */
+export type RecoveryOptions = {
+  /** Restarts allowed over the lifetime of the query */
+  maxRestarts: number;
+  /**
+   * Delay before each restart: a base delay in ms that doubles per attempt,
+   * or a function of the 1-based attempt number. Default: 1000.
+   */
+  backoff?: number | ((attempt: number) => number);
+};
+
+/**
+ * Emitted on the message stream after the CLI crashed and was respawned.
+ * The consumer sees it between the last message of the crashed process and
+ * the first message of the new one.
+ */
+export type SDKRecoveryMessage = {
+  type: 'system';
+  subtype: 'recovery';
+  /** 1-based restart count */
+  attempt: number;
+  max_restarts: number;
+  exit_code: number | null;
+  signal: NodeJS.Signals | null;
+  /** Session the new process resumed, or null if none was seen before the crash */
+  resumed_session_id: string | null;
+  /** User messages sent again because the CLI never finished their turn */
+  resent_messages: number;
+  uuid: import('node:crypto').UUID;
+  session_id: string;
+};
+
+/**
+ * Bidirectional NDJSON channel to a Claude CLI process.
+ *
+ * ChildProcessTransport spawns the CLI locally; SocketTransport connects to
+ * one running in another container or sidecar over TCP or a Unix socket.
+ */
+export type CliTransport = {
+  /** Write raw NDJSON (each message terminated by a newline) */
+  write(data: string): void;
+  /** Lines emitted by the CLI on stdout, ends when the CLI closes its output */
+  readLines(): AsyncIterable<string>;
+  /** Signal end of input — the CLI sees EOF on stdin */
+  endInput(): void;
+  /** Tear down the channel and terminate the CLI */
+  close(): void;
+  /** CLI exited (or the connection to it closed) */
+  on(event: 'exit', listener: (code: number | null, signal: NodeJS.Signals | null) => void): void;
+  /** Spawn or connection failure */
+  on(event: 'error', listener: (error: Error) => void): void;
+  /** Stop reading CLI output (backpressure); optional for custom transports */
+  pause?(): void;
+  /** Resume reading after pause() */
+  resume?(): void;
+  /** Send a signal to the CLI (and its child processes); used to escalate close() */
+  kill?(signal: NodeJS.Signals): void;
+};
+
+/**
+ * Every message a query's iterators yield: the official SDKMessage union
+ * plus SDKRecoveryMessage, emitted after a crash-recovery restart
+ */
+export type QueryMessage = import('@anthropic-ai/claude-agent-sdk').SDKMessage | SDKRecoveryMessage;
+
+/**
+ * Options for close() and shutdownAllQueries()
+ */
+export type CloseOptions = {
+  /**
+   * End stdin and let the CLI finish its current turn (the final result is
+   * still delivered) instead of terminating it right away. Default: false.
+   */
+  graceful?: boolean;
+  /** How long to wait for the CLI to exit before sending SIGKILL. Default: 5000. */
+  timeoutMs?: number;
+};
+
+/**
+ * Per-file change reported by restoreCheckpoint()
+ */
+export type FileCheckpointDiff = {
+  /** Absolute file path */
+  path: string;
+  /** What restoring does to the file: recreate it, rewrite it, or delete it */
+  action: 'created' | 'modified' | 'deleted';
+  insertions: number;
+  deletions: number;
+};
+
+/**
+ * Result of restoreCheckpoint() — RewindFilesResult plus per-file diffs
+ */
+export type CheckpointRestoreResult = import('@anthropic-ai/claude-agent-sdk').RewindFilesResult & {
+  diffs: FileCheckpointDiff[];
+};
+
 /**
  * Extended Query type with convenience methods not in the official SDK.
  * Use this type instead of Query to access extra methods like
  * availableOutputStyles() and currentOutputStyle().
  */
-export type ExtendedQuery = import('@anthropic-ai/claude-agent-sdk').Query & {
-  availableOutputStyles(): Promise<string[]>;
-  currentOutputStyle(): Promise<string>;
+export type ExtendedQuery = Omit<
+  import('@anthropic-ai/claude-agent-sdk').Query,
+  'next' | 'return' | 'throw' | typeof Symbol.asyncIterator
+> &
+  // The stream also carries this SDK's own messages (see QueryMessage)
+  AsyncGenerator<QueryMessage, void> & {
+    /**
+     * Stop the query. Resolves once the CLI has exited; see CloseOptions for
+     * the graceful path and SIGKILL escalation.
+     */
+    close(options?: CloseOptions): Promise<void>;
+    // Control methods also take per-call timeout and cancellation
+    interrupt(options?: ControlRequestOptions): Promise<void>;
+    setPermissionMode(
+      mode: import('@anthropic-ai/claude-agent-sdk').PermissionMode,
+      options?: ControlRequestOptions
+    ): Promise<void>;
+    setModel(model?: string, options?: ControlRequestOptions): Promise<void>;
+    setMaxThinkingTokens(
+      maxThinkingTokens: number | null,
+      options?: ControlRequestOptions
+    ): Promise<void>;
+    mcpServerStatus(
+      options?: ControlRequestOptions
+    ): Promise<import('@anthropic-ai/claude-agent-sdk').McpServerStatus[]>;
+    reconnectMcpServer(serverName: string, options?: ControlRequestOptions): Promise<void>;
+    toggleMcpServer(
+      serverName: string,
+      enabled: boolean,
+      options?: ControlRequestOptions
+    ): Promise<void>;
+    setMcpServers(
+      servers: Record<string, import('@anthropic-ai/claude-agent-sdk').McpServerConfig>,
+      options?: ControlRequestOptions
+    ): Promise<import('@anthropic-ai/claude-agent-sdk').McpSetServersResult>;
+    rewindFiles(
+      userMessageId: string,
+      options?: { dryRun?: boolean } & ControlRequestOptions
+    ): Promise<import('@anthropic-ai/claude-agent-sdk').RewindFilesResult>;
+    availableOutputStyles(): Promise<string[]>;
+    currentOutputStyle(): Promise<string>;
+    /**
+     * Read messages up to the next result and resolve to it. Consumes the
+     * query's own iterator; rejects if the stream ends first.
+     */
+    result(): Promise<import('@anthropic-ai/claude-agent-sdk').SDKResultMessage>;
+    /**
+     * Text of the top-level assistant output up to the next result: text
+     * deltas with includePartialMessages, whole text blocks otherwise.
+     * Consumes the query's own iterator.
+     */
+    text(): AsyncIterableIterator<string>;
+    /** Read messages up to the next result and summarize the turn */
+    collect(): Promise<CollectedResult>;
+    /**
+     * Restore files from the SDK-side checkpoint store (requires sdkFileCheckpointing).
+     * Keyed by the uuid the SDK stamps on each outgoing user message.
+     */
+    restoreCheckpoint(
+      userMessageId: string,
+      options?: { dryRun?: boolean }
+    ): Promise<CheckpointRestoreResult>;
+    /**
+     * Ids of the SDK-side checkpoints begun so far, oldest first (requires
+     * sdkFileCheckpointing). Includes the ids the SDK generated itself, e.g.
+     * for a string prompt.
+     */
+    listCheckpoints(): string[];
+    /** Depth and backpressure counters of the unread message buffers */
+    queueMetrics(): QueueMetrics;
+    /** Traffic, latency and callback timing counters for this query */
+    stats(): QueryStats;
+    /**
+     * Independent iterator over this query's messages, with its own buffer.
+     * Returning from it (e.g. `break`) unsubscribes without closing the query.
+     */
+    subscribe<T extends QueryMessage>(
+      filter: (message: QueryMessage) => message is T,
+      options?: SubscribeOptions
+    ): AsyncIterableIterator<T>;
+    subscribe(
+      filter?: (message: QueryMessage) => boolean,
+      options?: SubscribeOptions
+    ): AsyncIterableIterator<QueryMessage>;
+    /**
+     * Split the stream into `n` independent iterators. Each starts with the
+     * messages the query's own iterator has not consumed yet; the query itself
+     * must not be iterated afterwards.
+     */
+    tee(n: number, options?: SubscribeOptions): Array<AsyncIterableIterator<QueryMessage>>;
+    /**
+     * Register an event handler. Handlers see messages as they are routed,
+     * independent of iteration. Returns a function that removes the handler.
+     */
+    on<E extends QueryEventName>(
+      event: E,
+      handler: (payload: QueryEventMap[E]) => void
+    ): () => void;
+    /** Remove a handler registered with on() */
+    off<E extends QueryEventName>(event: E, handler: (payload: QueryEventMap[E]) => void): void;
+  };
+
+/**
+ * A tool call from an assistant message (q.on('tool_use'))
+ */
+export type ToolUseEvent = {
+  /** tool_use block id, matched by the tool_result's tool_use_id */
+  id: string;
+  name: string;
+  input: unknown;
+  /** Set for calls made by a subagent (the parent Task tool_use id) */
+  parent_tool_use_id: string | null;
+  message: import('@anthropic-ai/claude-agent-sdk').SDKAssistantMessage;
+};
+
+/**
+ * A tool result from a user message (q.on('tool_result'))
+ */
+export type ToolResultEvent = {
+  tool_use_id: string;
+  /** Result content as sent to the model: a string or content blocks */
+  content: unknown;
+  is_error: boolean;
+  /** The matching tool call, if it was seen on this query */
+  toolUse?: ToolUseEvent;
+  message: import('@anthropic-ai/claude-agent-sdk').SDKUserMessage;
+};
+
+type StreamEvent = import('@anthropic-ai/claude-agent-sdk').SDKPartialAssistantMessage['event'];
+type StreamMessage = Extract<StreamEvent, { type: 'message_start' }>['message'];
+
+/**
+ * A content_block_delta payload: text, input_json, citations, thinking or signature
+ */
+export type StreamContentDelta = Extract<StreamEvent, { type: 'content_block_delta' }>['delta'];
+
+/**
+ * A content block of an AssembledMessage. Deltas are applied in place:
+ * text, thinking and signature are appended, citations collected, and tool
+ * input JSON is parsed incrementally as chunks arrive.
+ */
+export type AssembledContentBlock = Extract<
+  StreamEvent,
+  { type: 'content_block_start' }
+>['content_block'] & {
+  /** Raw input JSON received so far (tool_use, server_tool_use, mcp_tool_use) */
+  partialJson?: string;
+  /** content_block_stop was seen, or the final assistant message replaced the block */
+  done: boolean;
+};
+
+/**
+ * An assistant message rebuilt from stream events (see PartialMessageAssembler)
+ */
+export type AssembledMessage = {
+  /** API message id, shared with the final SDKAssistantMessage(s) */
+  id: string;
+  model: string;
+  parent_tool_use_id: string | null;
+  session_id: string;
+  content: AssembledContentBlock[];
+  stop_reason: StreamMessage['stop_reason'];
+  usage: StreamMessage['usage'];
+  /** message_stop was seen */
+  done: boolean;
 };
 
+/**
+ * Progress of an assembled message (q.on('partial')). `snapshot` is the same
+ * object for every event of a message and is updated in place.
+ */
+export type PartialMessageEvent =
+  | { type: 'message_start'; snapshot: AssembledMessage }
+  | { type: 'block_start'; index: number; block: AssembledContentBlock; snapshot: AssembledMessage }
+  | {
+      type: 'block_delta';
+      index: number;
+      delta: StreamContentDelta;
+      block: AssembledContentBlock;
+      snapshot: AssembledMessage;
+    }
+  | { type: 'block_stop'; index: number; block: AssembledContentBlock; snapshot: AssembledMessage }
+  | { type: 'message_stop'; snapshot: AssembledMessage }
+  | {
+      /** A final assistant message replaced the streamed blocks it contains */
+      type: 'reconciled';
+      message: import('@anthropic-ai/claude-agent-sdk').SDKAssistantMessage;
+      snapshot: AssembledMessage;
+    };
+
+/**
+ * Events emitted by q.on() and their payloads
+ */
+export type QueryEventMap = {
+  assistant: import('@anthropic-ai/claude-agent-sdk').SDKAssistantMessage;
+  result: import('@anthropic-ai/claude-agent-sdk').SDKResultMessage;
+  tool_use: ToolUseEvent;
+  tool_result: ToolResultEvent;
+  'system:init': import('@anthropic-ai/claude-agent-sdk').SDKSystemMessage;
+  compact_boundary: import('@anthropic-ai/claude-agent-sdk').SDKCompactBoundaryMessage;
+  stream_event: import('@anthropic-ai/claude-agent-sdk').SDKPartialAssistantMessage;
+  /** Assembled partial-message progress (requires assemblePartialMessages) */
+  partial: PartialMessageEvent;
+  /**
+   * The stream failed, a handler threw, or a CLI output line was not JSON
+   * (ProtocolParseError; the line is skipped and the stream continues)
+   */
+  error: Error;
+};
+
+export type QueryEventName = keyof QueryEventMap;
+
 // ============================================================================
 // ADVANCED TYPES (for completeness)
 // ============================================================================
@@ -0,0 +1,436 @@
+/**
+ * Options validation
+ *
+ * validateOptions() collects every problem it can find in an options object
+ * before a CLI is spawned: typos, values the CLI rejects, and combinations
+ * that silently don't do what they say. query() runs it and throws an
+ * OptionsValidationError on errors (and, with optionsValidation: 'strict',
+ * on warnings); warnings go to options.onWarning otherwise.
+ */
+
+import { OptionsValidationError } from './errors.ts';
+import type {
+  ExtendedOptions,
+  HookEvent,
+  McpServerConfig,
+  OptionsDiagnostic,
+  PermissionMode,
+} from './types/index.ts';
+
+/** Every option key; the type check keeps this in sync with ExtendedOptions */
+const KNOWN_OPTIONS: Record<keyof ExtendedOptions, true> = {
+  abortController: true,
+  additionalDirectories: true,
+  agent: true,
+  agents: true,
+  allowedTools: true,
+  canUseTool: true,
+  continue: true,
+  cwd: true,
+  disallowedTools: true,
+  tools: true,
+  env: true,
+  executable: true,
+  executableArgs: true,
+  extraArgs: true,
+  fallbackModel: true,
+  enableFileCheckpointing: true,
+  forkSession: true,
+  betas: true,
+  hooks: true,
+  persistSession: true,
+  includePartialMessages: true,
+  maxThinkingTokens: true,
+  maxTurns: true,
+  maxBudgetUsd: true,
+  mcpServers: true,
+  model: true,
+  outputFormat: true,
+  pathToClaudeCodeExecutable: true,
+  permissionMode: true,
+  allowDangerouslySkipPermissions: true,
+  permissionPromptToolName: true,
+  plugins: true,
+  resume: true,
+  sessionId: true,
+  resumeSessionAt: true,
+  sandbox: true,
+  settingSources: true,
+  debug: true,
+  debugFile: true,
+  stderr: true,
+  strictMcpConfig: true,
+  systemPrompt: true,
+  spawnClaudeCodeProcess: true,
+  sdkFileCheckpointing: true,
+  transport: true,
+  recovery: true,
+  backpressure: true,
+  callbacksOnly: true,
+  replayHistorySize: true,
+  controlRequestTimeoutMs: true,
+  timeoutMs: true,
+  idleTimeoutMs: true,
+  processGroup: true,
+  assemblePartialMessages: true,
+  budget: true,
+  permissionStore: true,
+  optionsValidation: true,
+  onWarning: true,
+  hookTimeoutFallback: true,
+  controlRequestConcurrency: true,
+};
+
+const PERMISSION_MODES: Record<PermissionMode, true> = {
+  default: true,
+  acceptEdits: true,
+  bypassPermissions: true,
+  plan: true,
+  delegate: true,
+  dontAsk: true,
+};
+
+const HOOK_EVENTS: Record<HookEvent, true> = {
+  PreToolUse: true,
+  PostToolUse: true,
+  PostToolUseFailure: true,
+  Notification: true,
+  UserPromptSubmit: true,
+  SessionStart: true,
+  SessionEnd: true,
+  Stop: true,
+  SubagentStart: true,
+  SubagentStop: true,
+  PreCompact: true,
+  PermissionRequest: true,
+  Setup: true,
+  TeammateIdle: true,
+  TaskCompleted: true,
+};
+
+/** Numeric options and whether they must be whole numbers */
+const POSITIVE_NUMBERS: Array<[keyof ExtendedOptions, 'integer' | 'number']> = [
+  ['maxTurns', 'integer'],
+  ['maxBudgetUsd', 'number'],
+  ['controlRequestTimeoutMs', 'number'],
+  ['controlRequestConcurrency', 'integer'],
+  ['timeoutMs', 'number'],
+  ['idleTimeoutMs', 'number'],
+];
+
+/**
+ * Check options for mistakes without spawning anything.
+ *
+ * @param options Options as passed to query()
+ * @param config.strict Report warnings as errors
+ * @returns Every problem found, errors first; empty if the options look right
+ *
+ * @example
+ * const problems = validateOptions({ permissionMode: 'bypassPermisions', maxTurn: 3 });
+ * // [{ severity: 'error', code: 'invalid-permission-mode', ... },
+ * //  { severity: 'warning', code: 'unknown-option', message: "Unknown option 'maxTurn' (did you mean 'maxTurns'?)", ... }]
+ */
+export function validateOptions(
+  options: ExtendedOptions,
+  config: { strict?: boolean } = {}
+): OptionsDiagnostic[] {
+  const diagnostics: OptionsDiagnostic[] = [];
+  const report = (
+    severity: OptionsDiagnostic['severity'],
+    code: string,
+    option: string,
+    message: string
+  ) => diagnostics.push({ severity, code, option, message });
+
+  // Typos
+  for (const key of Object.keys(options)) {
+    // Underscore-prefixed keys are test hooks (e.g. _testCliArgs)
+    if (key in KNOWN_OPTIONS || key.startsWith('_')) continue;
+    const suggestion = closestMatch(key, Object.keys(KNOWN_OPTIONS));
+    report(
+      'warning',
+      'unknown-option',
+      key,
+      `Unknown option '${key}'${suggestion ? ` (did you mean '${suggestion}'?)` : ''}`
+    );
+  }
+
+  // Permissions
+  const mode = options.permissionMode;
+  if (mode !== undefined && !(mode in PERMISSION_MODES)) {
+    report(
+      'error',
+      'invalid-permission-mode',
+      'permissionMode',
+      `Unknown permission mode '${mode}'. Expected one of: ${Object.keys(PERMISSION_MODES).join(', ')}`
+    );
+  }
+  if (mode === 'bypassPermissions' && !options.allowDangerouslySkipPermissions) {
+    report(
+      'warning',
+      'bypass-without-allow',
+      'permissionMode',
+      "permissionMode 'bypassPermissions' also requires allowDangerouslySkipPermissions: true"
+    );
+  }
+  if (options.canUseTool && options.permissionPromptToolName) {
+    report(
+      'error',
+      'can-use-tool-with-prompt-tool',
+      'canUseTool',
+      'canUseTool callback cannot be used with permissionPromptToolName. Please use one or the other.'
+    );
+  }
+  if (options.canUseTool && mode === 'bypassPermissions') {
+    report(
+      'warning',
+      'can-use-tool-bypassed',
+      'canUseTool',
+      "canUseTool is never called in 'bypassPermissions' mode; use a PreToolUse hook to see every tool call"
+    );
+  }
+  if (options.permissionStore && !options.canUseTool) {
+    report(
+      'warning',
+      'permission-store-without-callback',
+      'permissionStore',
+      'permissionStore is only consulted for canUseTool requests; without canUseTool the CLI never sends them'
+    );
+  }
+
+  // Models
+  if (options.fallbackModel && options.fallbackModel === options.model) {
+    report(
+      'error',
+      'fallback-model-same',
+      'fallbackModel',
+      'Fallback model cannot be the same as the main model. Please specify a different model for fallbackModel option.'
+    );
+  }
+
+  // Numbers
+  for (const [key, kind] of POSITIVE_NUMBERS) {
+    const value = options[key];
+    if (value === undefined) continue;
+    if (
+      typeof value !== 'number' ||
+      !(value > 0) ||
+      (kind === 'integer' && !Number.isInteger(value))
+    ) {
+      report(
+        'error',
+        'invalid-number',
+        key,
+        `${key} must be a positive ${kind === 'integer' ? 'integer' : 'number'}, got ${String(value)}`
+      );
+    }
+  }
+  if (
+    options.maxThinkingTokens !== undefined &&
+    !(Number.isInteger(options.maxThinkingTokens) && options.maxThinkingTokens >= 0)
+  ) {
+    report(
+      'error',
+      'invalid-number',
+      'maxThinkingTokens',
+      `maxThinkingTokens must be a non-negative integer, got ${options.maxThinkingTokens}`
+    );
+  }
+  if (
+    options.replayHistorySize !== undefined &&
+    !(Number.isInteger(options.replayHistorySize) && options.replayHistorySize >= 0)
+  ) {
+    report(
+      'error',
+      'invalid-number',
+      'replayHistorySize',
+      `replayHistorySize must be a non-negative integer, got ${options.replayHistorySize}`
+    );
+  }
+  const highWaterMark = options.backpressure?.highWaterMark;
+  if (highWaterMark !== undefined && (!Number.isInteger(highWaterMark) || highWaterMark < 1)) {
+    report(
+      'error',
+      'invalid-number',
+      'backpressure.highWaterMark',
+      `backpressure.highWaterMark must be a positive integer, got ${highWaterMark}`
+    );
+  }
+
+  // Hooks
+  for (const [event, matchers] of Object.entries(options.hooks ?? {})) {
+    if (!(event in HOOK_EVENTS)) {
+      const suggestion = closestMatch(event, Object.keys(HOOK_EVENTS));
+      report(
+        'warning',
+        'unknown-hook-event',
+        `hooks.${event}`,
+        `Unknown hook event '${event}'; its hooks never run${suggestion ? ` (did you mean '${suggestion}'?)` : ''}`
+      );
+    }
+    for (const [i, matcher] of (matchers ?? []).entries()) {
+      if (
+        !Array.isArray(matcher?.hooks) ||
+        matcher.hooks.some((hook) => typeof hook !== 'function')
+      ) {
+        report(
+          'error',
+          'invalid-hook-matcher',
+          `hooks.${event}[${i}]`,
+          'A hook matcher needs a `hooks` array of callback functions'
+        );
+      }
+    }
+  }
+
+  // Settings
+  const settings = options.extraArgs?.settings;
+  if (options.sandbox && settings && !isJsonObject(settings)) {
+    report(
+      'warning',
+      'settings-overwritten',
+      'extraArgs.settings',
+      'extraArgs.settings is not a JSON object, so merging sandbox into it replaces it entirely'
+    );
+  }
+  if (options.assemblePartialMessages && !options.includePartialMessages) {
+    report(
+      'warning',
+      'partials-not-included',
+      'assemblePartialMessages',
+      'assemblePartialMessages has no effect without includePartialMessages: true'
+    );
+  }
+
+  // MCP servers
+  checkMcpServers(options.mcpServers ?? {}, report);
+
+  // Sessions
+  if (options.continue && options.resume) {
+    report(
+      'warning',
+      'resume-and-continue',
+      'continue',
+      'continue and resume both pick a session to load; resume wins and continue is ignored'
+    );
+  }
+
+  if (config.strict) {
+    for (const diagnostic of diagnostics) diagnostic.severity = 'error';
+  }
+  return diagnostics.sort((a, b) => severityRank(a) - severityRank(b));
+}
+
+/**
+ * Run validateOptions() the way options.optionsValidation asks for.
+ * Diagnostics that `checked` (options validated earlier) already produced
+ * are skipped, so they aren't reported twice.
+ *
+ * @throws {OptionsValidationError} On errors, or on warnings in strict mode
+ * @internal
+ */
+export function assertValidOptions(options: ExtendedOptions, checked?: ExtendedOptions): void {
+  const mode = options.optionsValidation ?? 'warn';
+  if (mode === 'off') return;
+
+  const strict = mode === 'strict';
+  const reported = new Set(
+    checked ? validateOptions(checked, { strict }).map((d) => `${d.code} ${d.message}`) : []
+  );
+  const diagnostics = validateOptions(options, { strict }).filter(
+    (d) => !reported.has(`${d.code} ${d.message}`)
+  );
+  const errors = diagnostics.filter((d) => d.severity === 'error');
+  if (errors.length > 0) {
+    throw new OptionsValidationError(errors);
+  }
+  for (const warning of diagnostics) {
+    try {
+      options.onWarning?.(warning);
+    } catch (error: unknown) {
+      console.error('[validateOptions] onWarning handler threw:', error);
+    }
+  }
+}
+
+/**
+ * Two servers sharing one McpServer instance disconnect each other, and the
+ * CLI turns names into tool prefixes (mcp__<name>__tool) with anything but
+ * letters, digits, '_' and '-' replaced, so 'my.server' and 'my_server' clash.
+ */
+function checkMcpServers(
+  servers: Record<string, McpServerConfig>,
+  report: (severity: 'error' | 'warning', code: string, option: string, message: string) => void
+): void {
+  const byInstance = new Map<unknown, string>();
+  const byToolPrefix = new Map<string, string>();
+  for (const [name, config] of Object.entries(servers)) {
+    if ('instance' in config && config.instance) {
+      const other = byInstance.get(config.instance);
+      if (other !== undefined) {
+        report(
+          'error',
+          'mcp-instance-shared',
+          `mcpServers.${name}`,
+          `SDK MCP servers '${other}' and '${name}' share one server instance; create one per entry`
+        );
+      }
+      byInstance.set(config.instance, name);
+    }
+
+    const prefix = name.replace(/[^a-zA-Z0-9_-]/g, '_');
+    const other = byToolPrefix.get(prefix);
+    if (other !== undefined) {
+      report(
+        'error',
+        'mcp-name-collision',
+        `mcpServers.${name}`,
+        `MCP servers '${other}' and '${name}' both get the tool prefix 'mcp__${prefix}__'`
+      );
+    }
+    byToolPrefix.set(prefix, name);
+  }
+}
+
+function isJsonObject(text: string): boolean {
+  try {
+    const value = JSON.parse(text);
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  } catch {
+    return false;
+  }
+}
+
+function severityRank(diagnostic: OptionsDiagnostic): number {
+  return diagnostic.severity === 'error' ? 0 : 1;
+}
+
+/** The candidate within edit distance 2 (case-insensitive), if any */
+function closestMatch(input: string, candidates: string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = 3;
+  for (const candidate of candidates) {
+    const distance = editDistance(input.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
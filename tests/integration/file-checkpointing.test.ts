@@ -0,0 +1,127 @@
+/**
+ * Integration tests for file checkpointing (rewindFiles)
+ *
+ * Requires:
+ * - enableFileCheckpointing: true (sets CLAUDE_CODE_ENABLE_SDK_FILE_CHECKPOINTING)
+ * - extraArgs: { 'replay-user-messages': null } so user messages carry a uuid
+ * - streaming input, so the CLI is still alive when rewindFiles() is called
+ */
+
+import { expect } from 'bun:test';
+import { readFile, unlink } from 'node:fs/promises';
+import path from 'node:path';
+import { query as officialQuery } from '@anthropic-ai/claude-agent-sdk';
+import { query as openQuery } from '../../src/api/query.ts';
+import type { Query, SDKUserMessage } from '../../src/types/index.ts';
+import { testWithBothSDKs } from './comparison-utils.ts';
+
+const CLI_PATH = path.resolve('./node_modules/@anthropic-ai/claude-agent-sdk/cli.js');
+
+/**
+ * Run a single turn over streaming input and keep the CLI alive until `release()`.
+ * Returns the first replayed user message uuid (the checkpoint).
+ */
+async function runCheckpointedTurn(sdk: 'open' | 'official', prompt: string) {
+  const queryFn = sdk === 'open' ? openQuery : officialQuery;
+
+  let release: () => void = () => {};
+  const released = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+
+  async function* input(): AsyncIterable<SDKUserMessage> {
+    yield {
+      type: 'user',
+      message: { role: 'user', content: prompt },
+      session_id: '',
+      parent_tool_use_id: null,
+    };
+    await released;
+  }
+
+  const q: Query = queryFn({
+    prompt: input(),
+    options: {
+      model: 'haiku',
+      permissionMode: 'acceptEdits',
+      settingSources: [],
+      pathToClaudeCodeExecutable: CLI_PATH,
+      maxTurns: 5,
+      enableFileCheckpointing: true,
+      extraArgs: { 'replay-user-messages': null },
+    },
+  });
+
+  let checkpoint: string | undefined;
+  for await (const msg of q) {
+    if (msg.type === 'user' && !checkpoint && 'uuid' in msg && msg.uuid) {
+      checkpoint = msg.uuid;
+    }
+    if (msg.type === 'result') break;
+  }
+
+  return { q, checkpoint, release };
+}
+
+testWithBothSDKs(
+  'rewindFiles() restores files to checkpoint state',
+  async (sdk) => {
+    const testFile = `/tmp/rewind-test-${sdk}-${Date.now()}.txt`;
+    await unlink(testFile).catch(() => {});
+
+    const { q, checkpoint, release } = await runCheckpointedTurn(
+      sdk,
+      `Write "original" to ${testFile}, then change it to "modified"`
+    );
+
+    try {
+      expect(checkpoint).toBeTruthy();
+      expect(await readFile(testFile, 'utf-8')).toContain('modified');
+
+      const result = await q.rewindFiles(checkpoint as string);
+      expect(result.canRewind).toBe(true);
+
+      // File did not exist at the checkpoint, so rewind removes it
+      const contentAfter = await readFile(testFile, 'utf-8').catch(() => null);
+      expect(contentAfter === null || !contentAfter.includes('modified')).toBe(true);
+
+      console.log(`   [${sdk}] rewindFiles() changed: ${result.filesChanged?.join(', ')}`);
+    } finally {
+      release();
+      q.close();
+      await unlink(testFile).catch(() => {});
+    }
+  },
+  180000
+);
+
+testWithBothSDKs(
+  'rewindFiles({ dryRun: true }) previews without applying',
+  async (sdk) => {
+    const testFile = `/tmp/rewind-dry-run-${sdk}-${Date.now()}.txt`;
+    await unlink(testFile).catch(() => {});
+
+    const { q, checkpoint, release } = await runCheckpointedTurn(
+      sdk,
+      `Write "dry run" to ${testFile}`
+    );
+
+    try {
+      expect(checkpoint).toBeTruthy();
+
+      const preview = await q.rewindFiles(checkpoint as string, { dryRun: true });
+      expect(preview.canRewind).toBe(true);
+      expect(preview.filesChanged?.some((f) => f.endsWith(path.basename(testFile)))).toBe(true);
+
+      // Nothing was applied
+      expect(await readFile(testFile, 'utf-8')).toContain('dry run');
+
+      console.log(`   [${sdk}] dry run: +${preview.insertions} -${preview.deletions}`);
+    } finally {
+      release();
+      q.close();
+      await unlink(testFile).catch(() => {});
+    }
+  },
+  180000
+);
@@ -0,0 +1,174 @@
+/**
+ * Unit tests for ApprovalBroker
+ *
+ * The broker is driven directly as a canUseTool callback, and once through
+ * ControlProtocolHandler to check what reaches the CLI. No API calls.
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { Writable } from 'node:stream';
+import {
+  type ApprovalResolvedEvent,
+  createApprovalBroker,
+  type PendingApproval,
+} from '../../src/approvals.ts';
+import { ControlProtocolHandler } from '../../src/core/control.ts';
+import { createPermissionPolicy } from '../../src/permissions.ts';
+import type { ControlRequest } from '../../src/types/control.ts';
+import type { CanUseTool, PermissionUpdate } from '../../src/types/index.ts';
+
+function context(overrides: Partial<Parameters<CanUseTool>[2]> = {}): Parameters<CanUseTool>[2] {
+  return { signal: new AbortController().signal, toolUseID: 'tu-1', ...overrides };
+}
+
+describe('ApprovalBroker', () => {
+  test('holds each request until it is approved', async () => {
+    const broker = createApprovalBroker();
+    const requested: PendingApproval[] = [];
+    broker.on('requested', (approval) => requested.push(approval));
+
+    const suggestions: PermissionUpdate[] = [
+      {
+        type: 'addRules',
+        rules: [{ toolName: 'Bash' }],
+        behavior: 'allow',
+        destination: 'session',
+      },
+    ];
+    const answer = broker.canUseTool(
+      'Bash',
+      { command: 'rm -rf build' },
+      context({ decisionReason: 'Bash needs approval', agentID: 'agent-1', suggestions })
+    );
+
+    expect(requested).toHaveLength(1);
+    const [approval] = requested;
+    expect(approval).toMatchObject({
+      toolName: 'Bash',
+      input: { command: 'rm -rf build' },
+      toolUseID: 'tu-1',
+      agentID: 'agent-1',
+      decisionReason: 'Bash needs approval',
+      suggestions,
+      expiresAt: null,
+    });
+    expect(broker.list()).toEqual([approval]);
+    expect(broker.get(approval.id)).toBe(approval);
+
+    expect(broker.approve(approval.id, { updatedPermissions: suggestions })).toBe(true);
+    expect(await answer).toEqual({
+      behavior: 'allow',
+      updatedInput: { command: 'rm -rf build' },
+      updatedPermissions: suggestions,
+    });
+    expect(broker.list()).toEqual([]);
+    expect(broker.approve(approval.id)).toBe(false);
+  });
+
+  test('modify allows with edited input; deny carries the message', async () => {
+    const broker = createApprovalBroker();
+    const resolved: ApprovalResolvedEvent[] = [];
+    broker.on('resolved', (event) => resolved.push(event));
+
+    const modified = broker.canUseTool('Bash', { command: 'rm -rf /' }, context());
+    const denied = broker.canUseTool('WebFetch', { url: 'x' }, context({ toolUseID: 'tu-2' }));
+    const [first, second] = broker.list();
+
+    broker.modify(first.id, { command: 'rm -rf ./build' });
+    broker.deny(second.id, { message: 'Not now', interrupt: true });
+
+    expect(await modified).toEqual({
+      behavior: 'allow',
+      updatedInput: { command: 'rm -rf ./build' },
+    });
+    expect(await denied).toEqual({ behavior: 'deny', message: 'Not now', interrupt: true });
+    expect(resolved.map((event) => [event.approval.toolUseID, event.outcome])).toEqual([
+      ['tu-1', 'modified'],
+      ['tu-2', 'denied'],
+    ]);
+  });
+
+  test('expired approvals get the default decision', async () => {
+    const denying = createApprovalBroker({ timeoutMs: 20 });
+    const allowing = createApprovalBroker({ timeoutMs: 20, timeoutDecision: 'allow' });
+    const outcomes: string[] = [];
+    denying.on('resolved', ({ outcome }) => outcomes.push(outcome));
+
+    const denied = denying.canUseTool('Write', { file_path: '/a' }, context());
+    expect(denying.list()[0].expiresAt).toBe(denying.list()[0].createdAt + 20);
+
+    expect(await denied).toEqual({
+      behavior: 'deny',
+      message: 'No one approved Write within 20ms',
+    });
+    expect(await allowing.canUseTool('Write', { file_path: '/a' }, context())).toEqual({
+      behavior: 'allow',
+      updatedInput: { file_path: '/a' },
+    });
+    expect(outcomes).toEqual(['expired']);
+  });
+
+  test('cancels approvals whose request was aborted', async () => {
+    const broker = createApprovalBroker();
+    const controller = new AbortController();
+    const outcomes: string[] = [];
+    broker.on('resolved', ({ outcome }) => outcomes.push(outcome));
+
+    const answer = broker.canUseTool(
+      'Bash',
+      { command: 'ls' },
+      context({ signal: controller.signal })
+    );
+    controller.abort();
+
+    expect((await answer).behavior).toBe('deny');
+    expect(broker.list()).toEqual([]);
+    expect(outcomes).toEqual(['cancelled']);
+  });
+
+  test('canUseToolFor() tags approvals with metadata', () => {
+    const broker = createApprovalBroker();
+    broker.canUseToolFor({ sessionId: 's-1' })('Read', { file_path: '/a' }, context());
+    expect(broker.list()[0].metadata).toEqual({ sessionId: 's-1' });
+  });
+
+  test('rejects a non-positive timeout', () => {
+    expect(() => createApprovalBroker({ timeoutMs: 0 })).toThrow(
+      'Approval timeoutMs must be a positive number, got 0'
+    );
+  });
+
+  test('answers the CLI through ControlProtocolHandler, behind a policy', async () => {
+    const writes: string[] = [];
+    const stdin = new Writable({
+      write(chunk, _encoding, callback) {
+        writes.push(chunk.toString());
+        callback();
+      },
+    });
+    const broker = createApprovalBroker();
+    const policy = createPermissionPolicy({
+      rules: [{ tool: 'Read', decision: 'allow' }],
+      ask: broker.canUseTool,
+    });
+    const handler = new ControlProtocolHandler(stdin, { canUseTool: policy.canUseTool });
+    broker.on('requested', (approval) => broker.deny(approval.id, { message: 'Denied in UI' }));
+
+    const req: ControlRequest = {
+      type: 'control_request',
+      request_id: 'req-1',
+      request: {
+        subtype: 'can_use_tool',
+        tool_name: 'Bash',
+        input: { command: 'make deploy' },
+        tool_use_id: 'tu-9',
+        blocked_path: '/etc',
+      },
+    };
+    await handler.handleControlRequest(req);
+
+    const response = JSON.parse(writes[0]);
+    expect(response.response.request_id).toBe('req-1');
+    expect(response.response.response).toEqual({ behavior: 'deny', message: 'Denied in UI' });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Unit tests for message buffer backpressure
+ *
+ * An in-memory CliTransport plays the CLI: it answers the init handshake and
+ * replies to a prompt with a burst of stream_event messages. No API calls.
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { MessageQueue } from '../../src/api/MessageQueue.ts';
+import { query } from '../../src/api/query.ts';
+import type {
+  BackpressureOptions,
+  CliTransport,
+  ExtendedQuery,
+  SDKMessage,
+} from '../../src/types/index.ts';
+
+const PARTIALS = 10;
+
+class BurstTransport implements CliTransport {
+  pauses = 0;
+  resumes = 0;
+  private out = new MessageQueue<string>();
+
+  write(data: string): void {
+    for (const line of data.split('\n').filter(Boolean)) {
+      const msg = JSON.parse(line);
+      if (msg.type === 'control_request' && msg.request.subtype === 'initialize') {
+        this.emit({
+          type: 'control_response',
+          response: { subtype: 'success', request_id: msg.request_id, response: {} },
+        });
+      } else if (msg.type === 'user') {
+        this.burst();
+      }
+    }
+  }
+
+  readLines(): AsyncIterable<string> {
+    return { [Symbol.asyncIterator]: () => this.out };
+  }
+
+  endInput(): void {}
+
+  close(): void {
+    this.out.complete();
+  }
+
+  on(): void {}
+
+  pause(): void {
+    this.pauses++;
+  }
+
+  resume(): void {
+    this.resumes++;
+  }
+
+  private burst(): void {
+    for (let i = 0; i < PARTIALS; i++) {
+      this.emit({
+        type: 'stream_event',
+        event: {
+          type: 'content_block_delta',
+          index: 0,
+          delta: { type: 'text_delta', text: `${i}` },
+        },
+        session_id: 'burst',
+        parent_tool_use_id: null,
+      });
+    }
+    this.emit({ type: 'assistant', message: { content: [] }, session_id: 'burst' });
+    this.emit({ type: 'result', subtype: 'success', session_id: 'burst' });
+  }
+
+  private emit(msg: unknown): void {
+    this.out.push(JSON.stringify(msg));
+  }
+}
+
+/** Start a query and let the transport's burst reach the buffer unread */
+async function burstQuery(backpressure: BackpressureOptions) {
+  const transport = new BurstTransport();
+  const q = query({
+    prompt: 'burst',
+    options: { transport: () => transport, backpressure },
+  }) as ExtendedQuery;
+  await q.initializationResult();
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  return { q, transport };
+}
+
+async function drain(q: AsyncIterable<SDKMessage>): Promise<SDKMessage[]> {
+  const messages: SDKMessage[] = [];
+  for await (const msg of q) {
+    messages.push(msg);
+    if (msg.type === 'result') break;
+  }
+  return messages;
+}
+
+describe('backpressure', () => {
+  test("'block' pauses reading when full and resumes once drained", async () => {
+    const { q, transport } = await burstQuery({ highWaterMark: 4 });
+
+    expect(transport.pauses).toBe(1);
+    expect(q.queueMetrics()).toMatchObject({ paused: true, pauseCount: 1, highWaterMark: 4 });
+
+    const messages = await drain(q);
+    expect(messages).toHaveLength(PARTIALS + 2);
+    expect(transport.resumes).toBe(1);
+    expect(q.queueMetrics()).toMatchObject({ depth: 0, maxDepth: PARTIALS + 2, paused: false });
+  });
+
+  test("'drop-partials' discards stream events while full", async () => {
+    const { q, transport } = await burstQuery({ highWaterMark: 4, overflow: 'drop-partials' });
+
+    expect(transport.pauses).toBe(0);
+    expect(q.queueMetrics()).toMatchObject({ depth: 6, droppedPartials: PARTIALS - 4 });
+
+    const types = (await drain(q)).map((m) => m.type);
+    expect(types).toEqual([
+      'stream_event',
+      'stream_event',
+      'stream_event',
+      'stream_event',
+      'assistant',
+      'result',
+    ]);
+  });
+
+  test("'error' fails the query after the buffered messages", async () => {
+    const { q } = await burstQuery({ highWaterMark: 4, overflow: 'error' });
+
+    const received: SDKMessage[] = [];
+    await expect(
+      (async () => {
+        for await (const msg of q) received.push(msg);
+      })()
+    ).rejects.toThrow('Message queue overflow');
+    expect(received).toHaveLength(4);
+  });
+
+  test('rejects an invalid high-water mark', () => {
+    expect(() =>
+      query({
+        prompt: 'test',
+        options: { transport: () => new BurstTransport(), backpressure: { highWaterMark: 0 } },
+      })
+    ).toThrow('backpressure.highWaterMark must be a positive integer');
+  });
+});
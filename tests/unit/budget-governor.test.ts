@@ -0,0 +1,311 @@
+/**
+ * Unit tests for BudgetGovernor
+ *
+ * Accounting runs against stub queries fed synthetic messages; the
+ * Query-level test uses a fake bash CLI. No API calls.
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { existsSync, readFileSync, unlinkSync, writeFileSync } from 'node:fs';
+import { createBudgetGovernor } from '../../src/api/BudgetGovernor.ts';
+import type { QueryImpl } from '../../src/api/QueryImpl.ts';
+import { query } from '../../src/api/query.ts';
+import { BudgetExceededError } from '../../src/errors.ts';
+import type { SDKMessage } from '../../src/types/index.ts';
+
+function createTempScript(content: string): string {
+  const path = `/tmp/fake-cli-${Date.now()}-${Math.random().toString(36).slice(2)}.sh`;
+  writeFileSync(path, `#!/bin/bash\n${content}`, { mode: 0o755 });
+  return path;
+}
+
+/** Just enough of QueryImpl for the governor */
+function stubQuery() {
+  const observers: Array<(msg: SDKMessage) => void> = [];
+  const endListeners: Array<() => void> = [];
+  const stub = {
+    interrupts: 0,
+    closedWith: null as Error | null,
+    observe(observer: (msg: SDKMessage) => void) {
+      observers.push(observer);
+    },
+    async interrupt() {
+      stub.interrupts++;
+    },
+    closeWithError(error: Error) {
+      stub.closedWith = error;
+    },
+    isAlive: () => stub.closedWith === null,
+    onEnd(listener: () => void) {
+      endListeners.push(listener);
+    },
+    emit(msg: SDKMessage) {
+      for (const observer of observers) observer(msg);
+    },
+    end() {
+      for (const listener of endListeners.splice(0)) listener();
+    },
+  };
+  return stub;
+}
+
+function result(totalCostUsd: number, modelUsage: Record<string, unknown> = {}): SDKMessage {
+  return {
+    type: 'result',
+    subtype: 'success',
+    total_cost_usd: totalCostUsd,
+    modelUsage,
+  } as unknown as SDKMessage;
+}
+
+function assistant(id: string, outputTokens: number): SDKMessage {
+  return {
+    type: 'assistant',
+    message: {
+      id,
+      model: 'claude-sonnet-4-5',
+      content: [],
+      usage: { input_tokens: 0, output_tokens: outputTokens },
+    },
+    parent_tool_use_id: null,
+  } as unknown as SDKMessage;
+}
+
+function register(governor: ReturnType<typeof createBudgetGovernor>, key?: string) {
+  const q = stubQuery();
+  governor.register(q as unknown as QueryImpl, key);
+  return q;
+}
+
+describe('BudgetGovernor', () => {
+  test('sums result costs overall and per key, with thresholds and admission', () => {
+    const governor = createBudgetGovernor({ maxUsd: 10, budgets: { acme: 2 }, thresholds: [50] });
+    const thresholds: Array<[string | null, number]> = [];
+    const exceeded: Array<string | null> = [];
+    governor.on('threshold', (e) => thresholds.push([e.key, e.percent]));
+    governor.on('exceeded', (e) => exceeded.push(e.key));
+
+    const acme = register(governor, 'acme');
+    const other = register(governor, 'other');
+    acme.emit(result(1));
+    // total_cost_usd is cumulative per CLI process
+    acme.emit(result(1.5));
+    other.emit(result(4));
+
+    expect(governor.spent('acme')).toBe(1.5);
+    expect(governor.spent('other')).toBe(4);
+    expect(governor.spent()).toBe(5.5);
+    expect(governor.remaining('acme')).toBe(0.5);
+    expect(governor.remaining('other')).toBe(4.5);
+    expect(thresholds).toEqual([
+      ['acme', 50],
+      [null, 50],
+    ]);
+
+    acme.emit(result(2.5));
+    expect(exceeded).toEqual(['acme']);
+    expect(() => governor.admit('acme')).toThrow(BudgetExceededError);
+    expect(() => governor.admit('other')).not.toThrow();
+  });
+
+  test('estimates assistant usage until the result settles it', () => {
+    const governor = createBudgetGovernor({ estimateUsd: (_model, usage) => usage.output_tokens });
+    const q = register(governor);
+
+    q.emit(assistant('msg_1', 3));
+    // Same API message split into another assistant message: replaced, not added
+    q.emit(assistant('msg_1', 3));
+    q.emit(assistant('msg_2', 4));
+    expect(governor.spent()).toBe(7);
+
+    q.emit(result(0.5));
+    expect(governor.spent()).toBe(0.5);
+  });
+
+  test('interrupts running turns under a spent budget, once per turn', () => {
+    const governor = createBudgetGovernor({
+      budgets: { acme: 1 },
+      estimateUsd: (_model, usage) => usage.output_tokens,
+    });
+    const busy = register(governor, 'acme');
+    const idle = register(governor, 'acme');
+    const elsewhere = register(governor, 'other');
+    elsewhere.emit(assistant('msg_0', 0));
+
+    busy.emit(assistant('msg_1', 1));
+    busy.emit(assistant('msg_2', 1));
+    expect(busy.interrupts).toBe(1);
+    expect(idle.interrupts).toBe(0);
+    expect(elsewhere.interrupts).toBe(0);
+
+    // Next turn after the result is interrupted as soon as it spends
+    busy.emit(result(2));
+    busy.emit(assistant('msg_3', 1));
+    expect(busy.interrupts).toBe(2);
+  });
+
+  test("onExceeded: 'close' fails the queries with BudgetExceededError", () => {
+    const governor = createBudgetGovernor({ maxUsd: 1, onExceeded: 'close' });
+    const a = register(governor);
+    const b = register(governor);
+
+    a.emit(result(1.25));
+
+    expect(a.closedWith).toBeInstanceOf(BudgetExceededError);
+    expect(b.closedWith).toBeInstanceOf(BudgetExceededError);
+    expect((a.closedWith as BudgetExceededError).key).toBeNull();
+    expect((a.closedWith as BudgetExceededError).limitUsd).toBe(1);
+  });
+
+  test('handles CLI restarts and aggregates model usage', () => {
+    const governor = createBudgetGovernor();
+    const q = register(governor, 'acme');
+    const usage = (tokens: number, cost: number) => ({
+      'claude-sonnet-4-5': {
+        inputTokens: tokens,
+        outputTokens: tokens,
+        cacheReadInputTokens: 0,
+        cacheCreationInputTokens: 0,
+        webSearchRequests: 0,
+        costUSD: cost,
+        contextWindow: 200000,
+        maxOutputTokens: 64000,
+      },
+    });
+
+    q.emit(result(1, usage(100, 1)));
+    q.emit(result(3, usage(300, 3)));
+    // Respawned CLI: its counters start again from zero
+    q.emit(result(0.5, usage(50, 0.5)));
+
+    expect(governor.spent()).toBe(3.5);
+    const { modelUsage } = governor.usage('acme');
+    expect(modelUsage['claude-sonnet-4-5'].inputTokens).toBe(350);
+    expect(modelUsage['claude-sonnet-4-5'].costUSD).toBe(3.5);
+    expect(modelUsage['claude-sonnet-4-5'].contextWindow).toBe(200000);
+  });
+
+  test('stops tracking a query once its stream ends', () => {
+    const governor = createBudgetGovernor({ maxUsd: 1, onExceeded: 'close' });
+    const ended = register(governor);
+    const running = register(governor);
+    ended.end();
+
+    running.emit(result(1.25));
+
+    expect(running.closedWith).toBeInstanceOf(BudgetExceededError);
+    expect(ended.closedWith).toBeNull();
+  });
+
+  test('scales the default estimate to the costs the CLI reports', () => {
+    const governor = createBudgetGovernor();
+    const q = register(governor);
+    const usage = {
+      'claude-sonnet-4-5': {
+        inputTokens: 0,
+        outputTokens: 100_000,
+        cacheReadInputTokens: 0,
+        cacheCreationInputTokens: 0,
+        webSearchRequests: 0,
+        // Twice the list price of 100k output tokens
+        costUSD: 3,
+        contextWindow: 200000,
+        maxOutputTokens: 64000,
+      },
+    };
+
+    q.emit(assistant('msg_1', 100_000));
+    expect(governor.spent()).toBeCloseTo(1.5);
+    q.emit(result(3, usage));
+    q.emit(assistant('msg_2', 100_000));
+    expect(governor.spent()).toBeCloseTo(6);
+  });
+
+  test('caps the CLI budget at what is left of the shared budget', () => {
+    const governor = createBudgetGovernor({ maxUsd: 2, budgets: { acme: 10 } });
+    register(governor, 'acme').emit(result(1.5));
+
+    expect(governor.capOptions({}, 'acme')).toEqual({ maxBudgetUsd: 0.5 });
+    expect(governor.capOptions({ maxBudgetUsd: 0.25 }, 'acme')).toEqual({ maxBudgetUsd: 0.25 });
+    expect(createBudgetGovernor().capOptions({})).toEqual({});
+  });
+
+  test('rejects invalid limits', () => {
+    expect(() => createBudgetGovernor({ budgets: { acme: -1 } })).toThrow(
+      "Budget 'acme' must be a non-negative number of USD"
+    );
+  });
+});
+
+describe('query() with a budget', () => {
+  test('refuses new queries once the cap is spent', async () => {
+    const script = createTempScript(`
+read -r _; read -r _
+echo '{"type":"system","subtype":"init","session_id":"s1","tools":[],"mcp_servers":[]}'
+echo '{"type":"result","subtype":"success","result":"ok","total_cost_usd":1.5,"modelUsage":{},"session_id":"s1"}'
+`);
+    try {
+      const governor = createBudgetGovernor({ maxUsd: 1 });
+      const options = { pathToClaudeCodeExecutable: script, budget: { governor } };
+
+      for await (const _ of query({ prompt: 'first', options })) {
+        // drain
+      }
+
+      expect(governor.spent()).toBe(1.5);
+      expect(() => query({ prompt: 'second', options })).toThrow(BudgetExceededError);
+    } finally {
+      unlinkSync(script);
+    }
+  }, 15000);
+
+  test('a budgeted query still buffers messages for a late iterator', async () => {
+    const script = createTempScript(`
+read -r _; read -r _
+echo '{"type":"system","subtype":"init","session_id":"s1","tools":[],"mcp_servers":[]}'
+echo '{"type":"result","subtype":"success","result":"ok","total_cost_usd":0.5,"modelUsage":{},"session_id":"s1"}'
+`);
+    try {
+      const governor = createBudgetGovernor({ maxUsd: 10 });
+      const q = query({
+        prompt: 'test',
+        options: { pathToClaudeCodeExecutable: script, budget: { governor } },
+      });
+      // The whole turn has been seen before the first read
+      while (governor.spent() === 0) await new Promise((resolve) => setTimeout(resolve, 20));
+
+      const types: string[] = [];
+      for await (const msg of q) types.push(msg.type);
+      expect(types).toEqual(['system', 'result']);
+    } finally {
+      unlinkSync(script);
+    }
+  }, 15000);
+
+  test("passes what is left of the budget as the CLI's --max-budget-usd", async () => {
+    const argsFile = `/tmp/budget-args-${Date.now()}`;
+    const script = createTempScript(`
+if [ "$1" = "--version" ]; then echo '2.1.37 (Claude Code)'; exit 0; fi
+echo "$@" > ${argsFile}
+read -r _; read -r _
+echo '{"type":"system","subtype":"init","session_id":"s1","tools":[],"mcp_servers":[]}'
+echo '{"type":"result","subtype":"success","result":"ok","total_cost_usd":1.5,"modelUsage":{},"session_id":"s1"}'
+`);
+    try {
+      const governor = createBudgetGovernor({ maxUsd: 2 });
+      const options = { pathToClaudeCodeExecutable: script, budget: { governor } };
+
+      for await (const _ of query({ prompt: 'first', options })) {
+        // drain
+      }
+      expect(readFileSync(argsFile, 'utf-8')).toContain('--max-budget-usd 2');
+      for await (const _ of query({ prompt: 'second', options })) {
+        // drain
+      }
+      expect(readFileSync(argsFile, 'utf-8')).toContain('--max-budget-usd 0.5');
+    } finally {
+      unlinkSync(script);
+      if (existsSync(argsFile)) unlinkSync(argsFile);
+    }
+  }, 15000);
+});
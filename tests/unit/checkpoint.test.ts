@@ -0,0 +1,266 @@
+/**
+ * Unit tests for SDK-side file checkpointing (FileCheckpointer)
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ContentStore, FileCheckpointer } from '../../src/core/checkpoint.ts';
+import type { ExtendedQuery, HookInput } from '../../src/types/index.ts';
+import { capture, openQuery } from './compat/capture-utils.ts';
+
+/** Invoke the checkpointer's internal PreToolUse hook as the CLI would */
+async function firePreToolUse(
+  checkpointer: FileCheckpointer,
+  toolName: string,
+  toolInput: Record<string, unknown>,
+  cwd: string
+) {
+  const matcher = checkpointer.hooks().PreToolUse?.[0];
+  expect(matcher).toBeDefined();
+  expect(new RegExp(`^(${matcher?.matcher})$`).test(toolName)).toBe(true);
+
+  const input = {
+    hook_event_name: 'PreToolUse',
+    session_id: 'test',
+    transcript_path: '',
+    cwd,
+    tool_name: toolName,
+    tool_input: toolInput,
+    tool_use_id: 'tu-1',
+  } as HookInput;
+  return matcher?.hooks[0](input, 'tu-1', { signal: new AbortController().signal });
+}
+
+describe('FileCheckpointer', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'checkpoint-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('restores modified files and deletes files created after the checkpoint', async () => {
+    const existing = join(dir, 'existing.txt');
+    const created = join(dir, 'created.txt');
+    writeFileSync(existing, 'line 1\nline 2\n');
+
+    const checkpointer = new FileCheckpointer(dir);
+    checkpointer.beginCheckpoint('msg-1');
+
+    const result = await firePreToolUse(checkpointer, 'Edit', { file_path: existing }, dir);
+    expect(result).toEqual({ continue: true });
+    await firePreToolUse(checkpointer, 'Write', { file_path: 'created.txt' }, dir);
+
+    writeFileSync(existing, 'line 1\nline 2 changed\nline 3\n');
+    writeFileSync(created, 'new file\n');
+
+    const restored = await checkpointer.restore('msg-1');
+
+    expect(restored.canRewind).toBe(true);
+    expect(readFileSync(existing, 'utf-8')).toBe('line 1\nline 2\n');
+    expect(existsSync(created)).toBe(false);
+    expect(restored.filesChanged?.sort()).toEqual([created, existing].sort());
+    expect(restored.diffs.find((d) => d.path === existing)).toMatchObject({
+      action: 'modified',
+      insertions: 1,
+      deletions: 2,
+    });
+    expect(restored.diffs.find((d) => d.path === created)?.action).toBe('deleted');
+  });
+
+  test('dryRun reports diffs without touching files', async () => {
+    const file = join(dir, 'notebook.ipynb');
+    writeFileSync(file, '{}\n');
+
+    const checkpointer = new FileCheckpointer(dir);
+    checkpointer.beginCheckpoint('msg-1');
+    await firePreToolUse(checkpointer, 'NotebookEdit', { notebook_path: file }, dir);
+    writeFileSync(file, '{"cells":[]}\n');
+
+    const preview = await checkpointer.restore('msg-1', { dryRun: true });
+
+    expect(preview.canRewind).toBe(true);
+    expect(preview.insertions).toBe(1);
+    expect(preview.deletions).toBe(1);
+    expect(readFileSync(file, 'utf-8')).toBe('{"cells":[]}\n');
+  });
+
+  test('restoring an earlier checkpoint uses the earliest snapshot per file', async () => {
+    const file = join(dir, 'file.txt');
+    writeFileSync(file, 'v1\n');
+
+    const checkpointer = new FileCheckpointer(dir);
+    checkpointer.beginCheckpoint('msg-1');
+    await firePreToolUse(checkpointer, 'Write', { file_path: file }, dir);
+    writeFileSync(file, 'v2\n');
+
+    checkpointer.beginCheckpoint('msg-2');
+    await firePreToolUse(checkpointer, 'MultiEdit', { file_path: file }, dir);
+    writeFileSync(file, 'v3\n');
+
+    await checkpointer.restore('msg-2');
+    expect(readFileSync(file, 'utf-8')).toBe('v2\n');
+
+    await checkpointer.restore('msg-1');
+    expect(readFileSync(file, 'utf-8')).toBe('v1\n');
+  });
+
+  test('a checkpoint begun during a snapshot does not take the snapshot', async () => {
+    const file = join(dir, 'file.txt');
+    writeFileSync(file, 'original\n');
+
+    const checkpointer = new FileCheckpointer(dir);
+    checkpointer.beginCheckpoint('msg-1');
+    const snapshot = checkpointer.snapshot(file);
+    checkpointer.beginCheckpoint('msg-2');
+    await snapshot;
+    writeFileSync(file, 'edited\n');
+
+    expect((await checkpointer.restore('msg-2')).diffs).toEqual([]);
+    await checkpointer.restore('msg-1');
+    expect(readFileSync(file, 'utf-8')).toBe('original\n');
+  });
+
+  test('messages queued during a turn get their checkpoint when it ends', async () => {
+    const file = join(dir, 'file.txt');
+    writeFileSync(file, 'v1\n');
+
+    const checkpointer = new FileCheckpointer(dir);
+    checkpointer.enqueue('msg-1');
+    checkpointer.enqueue('msg-2');
+    await firePreToolUse(checkpointer, 'Write', { file_path: file }, dir);
+    writeFileSync(file, 'v2\n');
+    expect(checkpointer.hasCheckpoint('msg-2')).toBe(false);
+
+    checkpointer.turnEnded();
+    await firePreToolUse(checkpointer, 'Edit', { file_path: file }, dir);
+    writeFileSync(file, 'v3\n');
+    checkpointer.turnEnded();
+
+    await checkpointer.restore('msg-2');
+    expect(readFileSync(file, 'utf-8')).toBe('v2\n');
+    await checkpointer.restore('msg-1');
+    expect(readFileSync(file, 'utf-8')).toBe('v1\n');
+
+    // The next message after an idle gap starts its turn right away
+    checkpointer.enqueue('msg-3');
+    expect(checkpointer.hasCheckpoint('msg-3')).toBe(true);
+  });
+
+  test('unknown checkpoint cannot be rewound', async () => {
+    const checkpointer = new FileCheckpointer(dir);
+    const result = await checkpointer.restore('missing');
+
+    expect(result.canRewind).toBe(false);
+    expect(result.error).toContain('No checkpoint found');
+  });
+
+  test('a file that exists but cannot be read is left out, not deleted on restore', async () => {
+    // Reading a directory fails with EISDIR rather than ENOENT
+    const path = join(dir, 'unreadable');
+    mkdirSync(path);
+
+    const checkpointer = new FileCheckpointer(dir);
+    checkpointer.beginCheckpoint('msg-1');
+    await firePreToolUse(checkpointer, 'Write', { file_path: path }, dir);
+
+    // Readable again by restore time
+    rmSync(path, { recursive: true });
+    writeFileSync(path, 'data\n');
+
+    const result = await checkpointer.restore('msg-1');
+    expect(result.canRewind).toBe(true);
+    expect(result.diffs).toEqual([]);
+    expect(readFileSync(path, 'utf-8')).toBe('data\n');
+  });
+
+  test('lists checkpoint ids in the order they began', () => {
+    const checkpointer = new FileCheckpointer(dir);
+    checkpointer.enqueue('msg-1');
+    checkpointer.enqueue('msg-2');
+    expect(checkpointer.listCheckpoints()).toEqual(['msg-1']);
+
+    checkpointer.turnEnded();
+    expect(checkpointer.listCheckpoints()).toEqual(['msg-1', 'msg-2']);
+  });
+
+  test('ignores edits before the first checkpoint and non-file tools', async () => {
+    const file = join(dir, 'file.txt');
+    writeFileSync(file, 'original\n');
+
+    const checkpointer = new FileCheckpointer(dir);
+    await checkpointer.snapshot(file);
+    checkpointer.beginCheckpoint('msg-1');
+    await firePreToolUse(checkpointer, 'Write', { content: 'no path' }, dir);
+
+    const result = await checkpointer.restore('msg-1');
+    expect(result.diffs).toEqual([]);
+  });
+});
+
+describe('ContentStore', () => {
+  test('stores identical content once', () => {
+    const store = new ContentStore();
+    const a = store.put(Buffer.from('same'));
+    const b = store.put(Buffer.from('same'));
+
+    expect(a).toBe(b);
+    expect(store.size).toBe(1);
+    expect(store.get(a)?.toString()).toBe('same');
+  });
+});
+
+describe('sdkFileCheckpointing option', () => {
+  test('registers PreToolUse hook and stamps user messages with a uuid', async () => {
+    const result = await capture(openQuery, 'test', { sdkFileCheckpointing: true });
+
+    const init = result.stdin.find((m) => m.request?.subtype === 'initialize');
+    const preToolUse = init?.request.hooks?.PreToolUse;
+    expect(preToolUse?.[0].matcher).toBe('Write|Edit|MultiEdit|NotebookEdit');
+
+    const userMsg = result.stdin.find((m) => m.type === 'user');
+    expect(userMsg?.uuid).toMatch(/^[0-9a-f-]{36}$/);
+  }, 30000);
+
+  test('listCheckpoints() exposes the id generated for a string prompt', async () => {
+    const q = openQuery({
+      prompt: 'test',
+      options: {
+        pathToClaudeCodeExecutable: './src/tools/capture-cli.cjs',
+        settingSources: [],
+        sdkFileCheckpointing: true,
+      },
+    }) as ExtendedQuery;
+    try {
+      const [id] = q.listCheckpoints();
+      expect(id).toMatch(/^[0-9a-f-]{36}$/);
+      expect((await q.restoreCheckpoint(id)).canRewind).toBe(true);
+    } finally {
+      await q.close();
+    }
+  }, 30000);
+
+  test('listCheckpoints() requires sdkFileCheckpointing', async () => {
+    const q = openQuery({
+      prompt: 'test',
+      options: { pathToClaudeCodeExecutable: './src/tools/capture-cli.cjs', settingSources: [] },
+    }) as ExtendedQuery;
+    try {
+      expect(() => q.listCheckpoints()).toThrow('sdkFileCheckpointing');
+    } finally {
+      await q.close();
+    }
+  }, 30000);
+
+  test('does not stamp user messages when disabled', async () => {
+    const result = await capture(openQuery, 'test');
+
+    const userMsg = result.stdin.find((m) => m.type === 'user');
+    expect(userMsg?.uuid).toBeUndefined();
+  }, 30000);
+});
@@ -0,0 +1,146 @@
+/**
+ * Unit tests for CLI version detection and compatibility checks
+ *
+ * Fake CLIs are bash scripts that print a version and count how often they
+ * were asked. No API calls.
+ */
+
+import { describe, expect, spyOn, test } from 'bun:test';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { getCliInfo } from '../../src/api/cliInfo.ts';
+import { query } from '../../src/api/query.ts';
+import {
+  checkCliSupport,
+  compareVersions,
+  parseCliVersion,
+  probeCliVersion,
+} from '../../src/core/cliVersion.ts';
+import { clearCliDiscoveryCache } from '../../src/core/spawn.ts';
+import type { OptionsDiagnostic } from '../../src/types/index.ts';
+
+/** A CLI that answers --version with `output` and logs each probe to `<path>.probes` */
+function createFakeCli(output: string): string {
+  const path = `/tmp/fake-cli-${Date.now()}-${Math.random().toString(36).slice(2)}.sh`;
+  writeFileSync(
+    path,
+    `#!/bin/bash\nif [ "$1" = "--version" ]; then echo x >> "${path}.probes"; echo "${output}"; exit 0; fi\nexit 1\n`,
+    { mode: 0o755 }
+  );
+  return path;
+}
+
+function probeCount(path: string): number {
+  return existsSync(`${path}.probes`)
+    ? readFileSync(`${path}.probes`, 'utf-8').trim().split('\n').length
+    : 0;
+}
+
+describe('version parsing', () => {
+  test('reads release and pre-release output', () => {
+    expect(parseCliVersion('2.1.37 (Claude Code)')).toBe('2.1.37');
+    expect(parseCliVersion('2.1.280-dev.20260921.t204017 (Claude Code)')).toBe(
+      '2.1.280-dev.20260921.t204017'
+    );
+    expect(parseCliVersion('command not found')).toBeNull();
+  });
+
+  test('compares numerically and ignores pre-release suffixes', () => {
+    expect(compareVersions('2.0.10', '2.0.9')).toBeGreaterThan(0);
+    expect(compareVersions('1.9.99', '2.0.0')).toBeLessThan(0);
+    expect(compareVersions('2.1.0-dev.1', '2.1.0')).toBe(0);
+  });
+});
+
+describe('probeCliVersion', () => {
+  test('runs --version once per path, shared by concurrent callers', async () => {
+    const path = createFakeCli('2.1.37 (Claude Code)');
+    const [info] = await Promise.all([probeCliVersion(path), probeCliVersion(path)]);
+    expect(info).toEqual({
+      path,
+      version: '2.1.37',
+      versionOutput: '2.1.37 (Claude Code)',
+    });
+    await probeCliVersion(path);
+    expect(probeCount(path)).toBe(1);
+  });
+
+  test('clearCliDiscoveryCache() forgets probed versions', async () => {
+    const path = createFakeCli('2.1.37 (Claude Code)');
+    await probeCliVersion(path);
+    clearCliDiscoveryCache();
+    await probeCliVersion(path);
+    expect(probeCount(path)).toBe(2);
+  });
+
+  test('getCliInfo() resolves the binary like query()', async () => {
+    const path = createFakeCli('2.0.50 (Claude Code)');
+    expect((await getCliInfo({ pathToClaudeCodeExecutable: path })).version).toBe('2.0.50');
+  });
+});
+
+describe('checkCliSupport', () => {
+  test('does not probe when no option has a version requirement', async () => {
+    const path = createFakeCli('1.0.0 (Claude Code)');
+    expect(await checkCliSupport({ model: 'sonnet', maxTurns: 2 }, path)).toEqual([]);
+    expect(probeCount(path)).toBe(0);
+  });
+
+  test('warns about every option the CLI is likely too old for', async () => {
+    const path = createFakeCli('2.0.25 (Claude Code)');
+    const warnings = await checkCliSupport(
+      { tools: [], betas: ['context-1m-2025-08-07'], sandbox: { enabled: true } },
+      path
+    );
+
+    expect(warnings.map((w) => [w.severity, w.code, w.option]).sort()).toEqual([
+      ['warning', 'cli-too-old', 'betas'],
+      ['warning', 'cli-too-old', 'tools'],
+    ]);
+    expect(warnings.find((w) => w.option === 'betas')?.message).toContain(
+      'betas (--betas) needs Claude CLI 2.0.58 or newer'
+    );
+  });
+
+  test('accepts options a new enough CLI supports', async () => {
+    const path = createFakeCli('2.1.37 (Claude Code)');
+    expect(
+      await checkCliSupport({ fallbackModel: 'haiku', resumeSessionAt: 'msg-1' }, path)
+    ).toEqual([]);
+  });
+
+  test('reports an unreadable version once instead of checking', async () => {
+    const path = createFakeCli('dev build');
+    const warnings = await checkCliSupport({ betas: ['x'], tools: [] }, path);
+    expect(warnings.map((w) => w.code)).toEqual(['cli-version-unknown']);
+  });
+
+  test('query() still runs an old CLI and reports to onWarning', async () => {
+    const path = createFakeCli('2.0.0 (Claude Code)');
+    const warned = new Promise<OptionsDiagnostic>((resolve) => {
+      const q = query({
+        prompt: 'test',
+        options: { pathToClaudeCodeExecutable: path, betas: ['x'], onWarning: resolve },
+      });
+      q.next().catch(() => {});
+    });
+
+    expect(await warned).toMatchObject({ code: 'cli-too-old', option: 'betas' });
+  }, 15000);
+
+  test('query() warns on the console without onWarning', async () => {
+    const path = createFakeCli('2.0.0 (Claude Code)');
+    const warnSpy = spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      const warned = new Promise<unknown>((resolve) => warnSpy.mockImplementation(resolve));
+      const q = query({
+        prompt: 'test',
+        options: { pathToClaudeCodeExecutable: path, betas: ['x'] },
+      });
+      q.next().catch(() => {});
+
+      expect(await warned).toContain('betas (--betas) needs Claude CLI 2.0.58 or newer');
+    } finally {
+      warnSpy.mockRestore();
+    }
+  }, 15000);
+});
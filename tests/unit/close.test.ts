@@ -0,0 +1,190 @@
+/**
+ * Unit tests for close() and shutdownAllQueries()
+ *
+ * Uses capture-cli and fake bash CLIs that ignore SIGTERM. No API calls.
+ */
+
+import { describe, expect, spyOn, test } from 'bun:test';
+import { spawn } from 'node:child_process';
+import { existsSync, readFileSync, unlinkSync, writeFileSync } from 'node:fs';
+import { ChildProcessTransport } from '../../src/api/ChildProcessTransport.ts';
+import { query } from '../../src/api/query.ts';
+import { shutdownAllQueries } from '../../src/api/shutdown.ts';
+import type { ExtendedQuery, SDKMessage } from '../../src/types/index.ts';
+
+const CAPTURE_CLI = './src/tools/capture-cli.cjs';
+
+function createTempScript(content: string): string {
+  const path = `/tmp/fake-cli-${Date.now()}-${Math.random().toString(36).slice(2)}.sh`;
+  writeFileSync(path, `#!/bin/bash\n${content}`, { mode: 0o755 });
+  return path;
+}
+
+/** Running and not a zombie waiting to be reaped */
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+  } catch {
+    return false;
+  }
+  try {
+    return readFileSync(`/proc/${pid}/stat`, 'utf-8').split(' ')[2] !== 'Z';
+  } catch {
+    return false;
+  }
+}
+
+/** Field 5 of /proc/<pid>/stat */
+function processGroupOf(pid: number): string {
+  return readFileSync(`/proc/${pid}/stat`, 'utf-8').split(' ')[4];
+}
+
+async function waitUntil(condition: () => boolean, timeoutMs = 2000): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) return false;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  return true;
+}
+
+/** A CLI that ignores SIGTERM and leaves a subprocess (like a Bash tool call) running */
+function stubbornCli(pidFile: string): string {
+  return createTempScript(`
+trap '' TERM
+sleep 30 &
+echo $! > ${pidFile}
+echo '{"type":"system","subtype":"init","session_id":"stubborn","tools":[],"mcp_servers":[]}'
+wait
+`);
+}
+
+describe('close()', () => {
+  test('graceful close still delivers the final result', async () => {
+    const q = query({
+      prompt: 'test',
+      options: { pathToClaudeCodeExecutable: CAPTURE_CLI, settingSources: [] },
+    }) as ExtendedQuery;
+
+    const types: string[] = [];
+    const iterating = (async () => {
+      for await (const msg of q) types.push(msg.type);
+    })();
+    await q.close({ graceful: true });
+    await iterating;
+
+    expect(types).toEqual(['system', 'result']);
+  }, 15000);
+
+  test('escalates to SIGKILL and takes down the process group', async () => {
+    const pidFile = `/tmp/close-pid-${Date.now()}`;
+    const script = stubbornCli(pidFile);
+
+    try {
+      const q = query({
+        prompt: 'test',
+        options: { pathToClaudeCodeExecutable: script, settingSources: [], processGroup: true },
+      }) as ExtendedQuery;
+      const first = await q.next();
+      expect((first.value as SDKMessage).type).toBe('system');
+      const grandchild = Number(readFileSync(pidFile, 'utf-8'));
+
+      const started = Date.now();
+      await q.close({ timeoutMs: 200 });
+
+      expect(Date.now() - started).toBeGreaterThanOrEqual(150);
+      expect(await waitUntil(() => !isRunning(grandchild))).toBe(true);
+    } finally {
+      unlinkSync(script);
+      if (existsSync(pidFile)) unlinkSync(pidFile);
+    }
+  }, 15000);
+});
+
+describe('ChildProcessTransport.kill()', () => {
+  test('signals only the CLI process without a process group of its own', async () => {
+    const child = spawn('sleep', ['30'], { stdio: 'pipe' });
+    const transport = new ChildProcessTransport(child);
+    const killSpy = spyOn(process, 'kill');
+
+    try {
+      const exited = new Promise((resolve) => child.once('exit', resolve));
+      transport.kill('SIGTERM');
+      expect(await exited).toBeNull();
+      expect(child.signalCode).toBe('SIGTERM');
+      expect(killSpy).not.toHaveBeenCalled();
+    } finally {
+      killSpy.mockRestore();
+      child.kill('SIGKILL');
+    }
+  });
+
+  test('signals nothing once the CLI has exited', async () => {
+    const child = spawn('true', [], { stdio: 'pipe', detached: true });
+    const transport = new ChildProcessTransport(child, { processGroup: true });
+    await new Promise((resolve) => child.once('exit', resolve));
+    const killSpy = spyOn(process, 'kill');
+    const childKillSpy = spyOn(child, 'kill');
+
+    try {
+      transport.close();
+      expect(killSpy).not.toHaveBeenCalled();
+      expect(childKillSpy).not.toHaveBeenCalled();
+    } finally {
+      killSpy.mockRestore();
+    }
+  });
+});
+
+describe('shutdownAllQueries()', () => {
+  test('closes live queries and removes its signal handlers', async () => {
+    const pidFile = `/tmp/shutdown-pid-${Date.now()}`;
+    const script = stubbornCli(pidFile);
+    const sigintListeners = process.listenerCount('SIGINT');
+
+    try {
+      const q = query({
+        prompt: 'test',
+        options: { pathToClaudeCodeExecutable: script, settingSources: [], processGroup: true },
+      });
+      await q.next();
+      expect(process.listenerCount('SIGINT')).toBe(sigintListeners + 1);
+
+      await shutdownAllQueries({ timeoutMs: 200 });
+
+      expect((await q.next()).done).toBe(true);
+      expect(process.listenerCount('SIGINT')).toBe(sigintListeners);
+    } finally {
+      unlinkSync(script);
+      if (existsSync(pidFile)) unlinkSync(pidFile);
+    }
+  }, 15000);
+
+  test('installs no signal handlers and keeps the terminal group by default', async () => {
+    const pidFile = `/tmp/shutdown-pid-${Date.now()}`;
+    const script = stubbornCli(pidFile);
+    const sigintListeners = process.listenerCount('SIGINT');
+
+    try {
+      const q = query({
+        prompt: 'test',
+        options: { pathToClaudeCodeExecutable: script, settingSources: [] },
+      });
+      await q.next();
+      expect(process.listenerCount('SIGINT')).toBe(sigintListeners);
+      // The CLI (and so its subprocess) stays in the test runner's process group
+      const grandchild = Number(readFileSync(pidFile, 'utf-8'));
+      expect(processGroupOf(grandchild)).toBe(processGroupOf(process.pid));
+
+      await shutdownAllQueries({ timeoutMs: 200 });
+      expect((await q.next()).done).toBe(true);
+    } finally {
+      unlinkSync(script);
+      if (existsSync(pidFile)) {
+        const grandchild = Number(readFileSync(pidFile, 'utf-8'));
+        if (isRunning(grandchild)) process.kill(grandchild);
+        unlinkSync(pidFile);
+      }
+    }
+  }, 15000);
+});
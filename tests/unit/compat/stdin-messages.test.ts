@@ -659,6 +659,47 @@ describe('stdin message compatibility', () => {
     { timeout: 60000 }
   );
 
+  test.concurrent(
+    'rewindFiles sends rewind_files control request matching official SDK',
+    async () => {
+      const [open, official] = await Promise.all([
+        captureWithQuery(
+          openQuery,
+          'test',
+          async (q) => {
+            await q.rewindFiles('user-msg-uuid', { dryRun: true });
+          },
+          { enableFileCheckpointing: true }
+        ),
+        captureWithQuery(
+          officialQuery,
+          'test',
+          async (q) => {
+            await q.rewindFiles('user-msg-uuid', { dryRun: true });
+          },
+          { enableFileCheckpointing: true }
+        ),
+      ]);
+
+      const openRewind = open.stdin.find((m) => m.request?.subtype === 'rewind_files');
+      const officialRewind = official.stdin.find((m) => m.request?.subtype === 'rewind_files');
+
+      expect(openRewind).toBeTruthy();
+      expect(officialRewind).toBeTruthy();
+
+      if (openRewind && officialRewind) {
+        const openNorm = normalizeMessage(openRewind);
+        const officialNorm = normalizeMessage(officialRewind);
+        expect(openNorm).toEqual(officialNorm);
+        expect(openRewind.request.user_message_id).toBe('user-msg-uuid');
+        expect(openRewind.request.dry_run).toBe(true);
+      }
+
+      console.log('   rewindFiles stdin messages match');
+    },
+    { timeout: 60000 }
+  );
+
   test.concurrent(
     'outputFormat json_schema args match official SDK',
     async () => {
@@ -0,0 +1,148 @@
+/**
+ * Unit tests for ControlRequestManager
+ *
+ * The manager writes to an in-memory writer; responses are fed back by hand.
+ * The Query-level test runs against capture-cli. No API calls.
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { ControlRequestManager } from '../../src/api/ControlRequestManager.ts';
+import { query } from '../../src/api/query.ts';
+import { ControlRequests } from '../../src/core/control.ts';
+import { AbortError, ControlRequestError, InitializationError } from '../../src/errors.ts';
+import type { ExtendedQuery } from '../../src/types/index.ts';
+
+const CAPTURE_CLI = './src/tools/capture-cli.cjs';
+
+function createManager(defaultTimeoutMs?: number) {
+  const sent: { request_id: string; request: { subtype: string } }[] = [];
+  const manager = new ControlRequestManager(
+    { write: (data: string) => sent.push(JSON.parse(data)) },
+    defaultTimeoutMs
+  );
+  return { manager, sent };
+}
+
+describe('ControlRequestManager', () => {
+  test('resolves with the response and numbers requests sequentially', async () => {
+    const { manager, sent } = createManager();
+    const first = manager.sendControlRequestWithResponse(ControlRequests.mcpStatus());
+    manager.sendControlRequestWithResponse(ControlRequests.interrupt());
+
+    expect(sent.map((m) => m.request_id)).toEqual(['req_1', 'req_2']);
+
+    manager.handleControlResponse({
+      subtype: 'success',
+      request_id: 'req_1',
+      response: { mcpServers: [] },
+    });
+    expect(await first).toEqual({ mcpServers: [] });
+  });
+
+  test('rejects with the CLI error text as a ControlRequestError', async () => {
+    const { manager, sent } = createManager();
+    const pending = manager.sendControlRequestWithResponse(ControlRequests.setModel('nope'));
+
+    manager.handleControlResponse({
+      subtype: 'error',
+      request_id: sent[0].request_id,
+      error: 'Unknown model: nope',
+    });
+    const error = await pending.catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ControlRequestError);
+    expect(error).toMatchObject({
+      message: 'Unknown model: nope',
+      subtype: 'set_model',
+      requestId: sent[0].request_id,
+    });
+  });
+
+  test('a failed handshake rejects with InitializationError', async () => {
+    const { manager } = createManager();
+    manager.initRequestId = manager.nextRequestId('init');
+
+    manager.handleControlResponse({
+      subtype: 'error',
+      request_id: manager.initRequestId,
+      error: 'bad hooks',
+    });
+    const error = await manager.waitForInit().catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(InitializationError);
+    expect((error as Error).message).toBe('Initialization failed: bad hooks');
+  });
+
+  test('times out and ignores a late response', async () => {
+    const { manager, sent } = createManager(10);
+    const pending = manager.sendControlRequestWithResponse(ControlRequests.interrupt());
+
+    await expect(pending).rejects.toThrow("Control request 'interrupt' timed out after 10ms");
+    await expect(pending).rejects.toBeInstanceOf(ControlRequestError);
+    // Must not throw or resolve anything
+    manager.handleControlResponse({ subtype: 'success', request_id: sent[0].request_id });
+  });
+
+  test('per-call timeoutMs overrides the default', async () => {
+    const { manager } = createManager(10_000);
+    await expect(
+      manager.sendControlRequestWithResponse(ControlRequests.mcpStatus(), { timeoutMs: 5 })
+    ).rejects.toThrow('timed out after 5ms');
+  });
+
+  test('aborting the signal rejects the pending request', async () => {
+    const { manager } = createManager();
+    const controller = new AbortController();
+    const pending = manager.sendControlRequestWithResponse(ControlRequests.setModel('x'), {
+      signal: controller.signal,
+    });
+
+    controller.abort();
+    await expect(pending).rejects.toThrow("Control request 'set_model' was aborted");
+    await expect(pending).rejects.toBeInstanceOf(AbortError);
+  });
+
+  test('an already-aborted signal rejects without sending', async () => {
+    const { manager, sent } = createManager();
+    await expect(
+      manager.sendControlRequestWithResponse(ControlRequests.interrupt(), {
+        signal: AbortSignal.abort(),
+      })
+    ).rejects.toThrow('was aborted');
+    expect(sent).toHaveLength(0);
+  });
+});
+
+describe('Query control methods', () => {
+  test('resolve once the CLI acknowledges them', async () => {
+    const q = query({
+      prompt: 'test',
+      options: {
+        pathToClaudeCodeExecutable: CAPTURE_CLI,
+        settingSources: [],
+        controlRequestTimeoutMs: 5000,
+      },
+    }) as ExtendedQuery;
+
+    await q.setModel('claude-sonnet-4-5');
+    await q.setPermissionMode('plan', { timeoutMs: 5000 });
+
+    for await (const _ of q) {
+      // drain
+    }
+    // The CLI is gone, so this settles instead of hanging
+    await expect(q.setModel('other')).rejects.toThrow(/exited before responding|query is closed/);
+  }, 15000);
+
+  test('reject with AbortError once the query is closed', async () => {
+    const q = query({
+      prompt: 'test',
+      options: { pathToClaudeCodeExecutable: CAPTURE_CLI, settingSources: [] },
+    }) as ExtendedQuery;
+    await q.initializationResult();
+
+    const pending = q.setModel('claude-sonnet-4-5');
+    q.close();
+
+    await expect(pending).rejects.toBeInstanceOf(AbortError);
+    await expect(q.setModel('other')).rejects.toBeInstanceOf(AbortError);
+  }, 15000);
+});
@@ -3,8 +3,11 @@
  */
 
 import { describe, expect, mock, test } from 'bun:test';
+import { writeFileSync } from 'node:fs';
 import { Writable } from 'node:stream';
+import { query } from '../../src/api/query.ts';
 import { ControlProtocolHandler } from '../../src/core/control.ts';
+import { AbortError } from '../../src/errors.ts';
 import type { ControlRequest } from '../../src/types/control.ts';
 
 // Helper to create a mock writable stream that captures writes
@@ -350,4 +353,138 @@ describe('ControlProtocolHandler', () => {
       expect(response.response.response.from).toBe('second');
     });
   });
+
+  describe('callback signals', () => {
+    /** Resolves with `value` once the signal aborts */
+    const untilAborted = <T>(signal: AbortSignal, value: T) =>
+      new Promise<T>((resolve) => signal.addEventListener('abort', () => resolve(value)));
+
+    const canUseToolRequest: ControlRequest = {
+      type: 'control_request',
+      request_id: 'req-perm',
+      request: { subtype: 'can_use_tool', tool_name: 'Bash', input: {}, tool_use_id: 'tu-1' },
+    };
+
+    const hookRequest = (callbackId: string): ControlRequest => ({
+      type: 'control_request',
+      request_id: 'req-hook',
+      request: {
+        subtype: 'hook_callback',
+        callback_id: callbackId,
+        input: { hook_event_name: 'PreToolUse' },
+      },
+    });
+
+    test('abortCallbacks() aborts running canUseTool and hook signals', async () => {
+      const { stream, writes } = createMockStdin();
+      const signals: AbortSignal[] = [];
+      const handler = new ControlProtocolHandler(stream, {
+        canUseTool: async (_tool, _input, { signal }) => {
+          signals.push(signal);
+          return untilAborted(signal, { behavior: 'deny' as const, message: 'Aborted' });
+        },
+      });
+      handler.registerCallback('hook_0', async (_input, _id, { signal }) => {
+        signals.push(signal);
+        return untilAborted(signal, { continue: false });
+      });
+
+      const handled = Promise.all([
+        handler.handleControlRequest(canUseToolRequest),
+        handler.handleControlRequest(hookRequest('hook_0')),
+      ]);
+      const reason = new AbortError('Query interrupted');
+      handler.abortCallbacks(reason);
+      await handled;
+
+      expect(signals.map((signal) => signal.reason)).toEqual([reason, reason]);
+      expect(writes.map((w) => JSON.parse(w).response.response)).toEqual([
+        { behavior: 'deny', message: 'Aborted' },
+        { continue: false },
+      ]);
+    });
+
+    test('a hook past its timeout is aborted and answered with continue', async () => {
+      const { stream, writes } = createMockStdin();
+      const handler = new ControlProtocolHandler(stream, {});
+      let hookSignal: AbortSignal | undefined;
+      handler.registerCallback(
+        'slow',
+        async (_input, _id, { signal }) => {
+          hookSignal = signal;
+          return new Promise(() => {});
+        },
+        20
+      );
+
+      await handler.handleControlRequest(hookRequest('slow'));
+
+      expect(hookSignal?.reason).toBeInstanceOf(AbortError);
+      expect(JSON.parse(writes[0]).response.response).toEqual({ continue: true });
+    });
+
+    test('hookTimeoutFallback picks the answer', async () => {
+      const slow = async () => new Promise<Record<string, unknown>>(() => {});
+
+      const blocking = createMockStdin();
+      const blocked = new ControlProtocolHandler(blocking.stream, { hookTimeoutFallback: 'block' });
+      blocked.registerCallback('slow', slow, 10);
+      await blocked.handleControlRequest(hookRequest('slow'));
+      expect(JSON.parse(blocking.writes[0]).response.response).toEqual({
+        decision: 'block',
+        reason: 'PreToolUse hook timed out after 10ms',
+      });
+
+      const custom = createMockStdin();
+      const handler = new ControlProtocolHandler(custom.stream, {
+        hookTimeoutFallback: (input) => ({ systemMessage: `${input.hook_event_name} skipped` }),
+      });
+      handler.registerCallback('slow', slow, 10);
+      await handler.handleControlRequest(hookRequest('slow'));
+      expect(JSON.parse(custom.writes[0]).response.response).toEqual({
+        systemMessage: 'PreToolUse skipped',
+      });
+    });
+
+    test('query interrupt() and close() abort a waiting canUseTool', async () => {
+      // Asks for permission right after the init request, then idles
+      const cli = `/tmp/fake-cli-${Date.now()}-${Math.random().toString(36).slice(2)}.sh`;
+      writeFileSync(
+        cli,
+        `#!/bin/bash
+read -r _
+echo '{"type":"control_request","request_id":"perm-1","request":{"subtype":"can_use_tool","tool_name":"Bash","input":{},"tool_use_id":"t1"}}'
+while read -r _; do :; done
+`,
+        { mode: 0o755 }
+      );
+
+      for (const stop of ['interrupt', 'close'] as const) {
+        let resolveSignal: (signal: AbortSignal) => void = () => {};
+        const asked = new Promise<AbortSignal>((resolve) => {
+          resolveSignal = resolve;
+        });
+        const q = query({
+          prompt: 'test',
+          options: {
+            pathToClaudeCodeExecutable: cli,
+            settingSources: [],
+            canUseTool: async (_tool, _input, { signal }) => {
+              resolveSignal(signal);
+              return untilAborted(signal, { behavior: 'deny' as const, message: 'stopped' });
+            },
+          },
+        });
+
+        const signal = await asked;
+        expect(signal.aborted).toBe(false);
+        if (stop === 'interrupt') q.interrupt().catch(() => {});
+        else await q.close();
+        expect((signal.reason as Error).message).toBe(
+          stop === 'interrupt' ? 'Query interrupted' : 'Query closed'
+        );
+        await q.close();
+      }
+    }, 15000);
+  });
 });
@@ -3,10 +3,11 @@
  */
 
 import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
-import { chmodSync, unlinkSync, writeFileSync } from 'node:fs';
+import { chmodSync, mkdirSync, mkdtempSync, rmSync, unlinkSync, writeFileSync } from 'node:fs';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
-import { detectClaudeBinary } from '../../src/core/spawn.ts';
+import { clearCliDiscoveryCache, detectClaudeBinary } from '../../src/core/spawn.ts';
+import { CliNotFoundError } from '../../src/errors.ts';
 
 describe('detectClaudeBinary', () => {
   let tempFile: string | null = null;
@@ -137,3 +138,98 @@ describe('detectClaudeBinary', () => {
     expect(result.startsWith('/')).toBe(true);
   });
 });
+
+describe('detectClaudeBinary automatic search', () => {
+  const savedEnv = { ...process.env };
+  let root: string;
+
+  /** An executable `claude` (or other name) in a directory under the temp root */
+  function install(dir: string, name = 'claude'): string {
+    const path = join(root, dir, name);
+    mkdirSync(join(root, dir), { recursive: true });
+    writeFileSync(path, '#!/bin/bash\necho "test"', { mode: 0o755 });
+    return path;
+  }
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'claude-search-'));
+    clearCliDiscoveryCache();
+    // Nothing outside the temp root may match
+    delete process.env.CLAUDE_BINARY;
+    process.env.PATH = join(root, 'bin');
+    process.env.HOME = join(root, 'home');
+    process.env.npm_config_prefix = join(root, 'npm-global');
+  });
+
+  afterEach(() => {
+    process.env = { ...savedEnv };
+    clearCliDiscoveryCache();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  test('scans PATH without shelling out', () => {
+    const path = install('bin');
+    expect(detectClaudeBinary()).toBe(path);
+  });
+
+  test('finds project installs from cwd upward', () => {
+    const path = install('project/node_modules/.bin');
+    mkdirSync(join(root, 'project/src'), { recursive: true });
+    expect(detectClaudeBinary({ cwd: join(root, 'project/src') })).toBe(path);
+  });
+
+  test('finds the package cli.js, ~/.claude/local and the npm prefix', () => {
+    const cliJs = install('app/node_modules/@anthropic-ai/claude-code', 'cli.js');
+    expect(detectClaudeBinary({ cwd: join(root, 'app') })).toBe(cliJs);
+
+    const global = install('npm-global/bin');
+    expect(detectClaudeBinary({ cwd: root })).toBe(global);
+
+    const local = install('home/.claude/local');
+    clearCliDiscoveryCache();
+    expect(detectClaudeBinary({ cwd: root })).toBe(local);
+  });
+
+  test('caches results and searches again once the cached path is gone', () => {
+    const global = install('npm-global/bin');
+    expect(detectClaudeBinary()).toBe(global);
+
+    // Installed earlier in the search order: the cached result still wins
+    const local = install('home/.claude/local');
+    expect(detectClaudeBinary()).toBe(global);
+    clearCliDiscoveryCache();
+    expect(detectClaudeBinary()).toBe(local);
+
+    unlinkSync(local);
+    expect(detectClaudeBinary()).toBe(global);
+  });
+
+  test('finds the cli.js of a global npm install', () => {
+    const cliJs = install('npm-global/lib/node_modules/@anthropic-ai/claude-code', 'cli.js');
+    expect(detectClaudeBinary({ cwd: root })).toBe(cliJs);
+  });
+
+  test('clearCliDiscoveryCache is exported from the package entry', async () => {
+    const sdk = await import('../../src/index.ts');
+    expect(sdk.clearCliDiscoveryCache).toBe(clearCliDiscoveryCache);
+  });
+
+  test('lists every location it tried', () => {
+    try {
+      detectClaudeBinary({ cwd: root });
+      throw new Error('expected CliNotFoundError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(CliNotFoundError);
+      const { searched, message } = error as CliNotFoundError;
+      expect(searched).toContain(join(root, 'bin', 'claude'));
+      expect(searched).toContain(join(root, 'home', '.claude', 'local', 'claude'));
+      expect(searched).toContain(join(root, 'node_modules', '.bin', 'claude'));
+      expect(searched).toContain(
+        join(root, 'node_modules', '@anthropic-ai', 'claude-code', 'cli.js')
+      );
+      expect(searched).toContain(join(root, 'npm-global', 'bin', 'claude'));
+      expect(searched.some((path) => path.endsWith('.cmd'))).toBe(false);
+      expect(message).toContain(`  ${join(root, 'bin', 'claude')}\n`);
+    }
+  });
+});
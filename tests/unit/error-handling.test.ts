@@ -8,7 +8,8 @@
 import { describe, expect, test } from 'bun:test';
 import { unlinkSync, writeFileSync } from 'node:fs';
 import { query } from '../../src/api/query.ts';
-import type { SDKMessage } from '../../src/types/index.ts';
+import { CliExitError, CliNotFoundError, ProtocolParseError } from '../../src/errors.ts';
+import type { ExtendedQuery, SDKMessage } from '../../src/types/index.ts';
 
 // NOTE: These tests use fake bash scripts as CLI — no API calls, zero cost.
 
@@ -41,7 +42,8 @@ describe('error handling', () => {
         }
       } catch (err) {
         threwError = true;
-        expect(err).toBeInstanceOf(Error);
+        expect(err).toBeInstanceOf(CliNotFoundError);
+        expect((err as CliNotFoundError).path).toBe('/nonexistent/path/to/claude');
         expect((err as Error).message).toContain('does not exist');
       }
 
@@ -197,4 +199,60 @@ exit 0
     },
     { timeout: 15000 }
   );
+
+  test(
+    'CLI exit carries code and stderr tail',
+    async () => {
+      const script = createTempScript(`
+echo 'fatal: invalid settings file' >&2
+exit 2
+`);
+
+      try {
+        const q = query({
+          prompt: 'test',
+          options: { pathToClaudeCodeExecutable: script, settingSources: [] },
+        });
+
+        const error = await q.initializationResult().catch((e: unknown) => e);
+        expect(error).toBeInstanceOf(CliExitError);
+        expect((error as CliExitError).code).toBe(2);
+        expect((error as CliExitError).signal).toBeNull();
+        expect((error as CliExitError).stderr).toContain('fatal: invalid settings file');
+      } finally {
+        unlinkSync(script);
+      }
+    },
+    { timeout: 15000 }
+  );
+
+  test(
+    'invalid NDJSON is reported as ProtocolParseError',
+    async () => {
+      const script = createTempScript(`
+echo 'THIS IS NOT JSON'
+exit 0
+`);
+
+      try {
+        const q = query({
+          prompt: 'test',
+          options: { pathToClaudeCodeExecutable: script, settingSources: [] },
+        }) as ExtendedQuery;
+        const errors: Error[] = [];
+        q.on('error', (e) => errors.push(e));
+
+        for await (const _ of q) {
+          // drain
+        }
+
+        expect(errors).toHaveLength(1);
+        expect(errors[0]).toBeInstanceOf(ProtocolParseError);
+        expect((errors[0] as ProtocolParseError).line).toBe('THIS IS NOT JSON');
+      } finally {
+        unlinkSync(script);
+      }
+    },
+    { timeout: 15000 }
+  );
 });
@@ -0,0 +1,209 @@
+/**
+ * Unit tests for MessageHub and Query subscribe()/tee()
+ *
+ * The hub is tested directly; the Query methods run against capture-cli
+ * (system init + result). No API calls.
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { MessageHub } from '../../src/api/MessageHub.ts';
+import type { MessageQueue } from '../../src/api/MessageQueue.ts';
+import { query } from '../../src/api/query.ts';
+import type { ExtendedQuery, SDKMessage } from '../../src/types/index.ts';
+
+const CAPTURE_CLI = './src/tools/capture-cli.cjs';
+
+function message(uuid: string, type = 'assistant'): SDKMessage {
+  return { type, uuid, session_id: 's' } as unknown as SDKMessage;
+}
+
+async function collect(queue: MessageQueue<SDKMessage>): Promise<string[]> {
+  const uuids: string[] = [];
+  for (;;) {
+    const { value, done } = await queue.next();
+    if (done) return uuids;
+    uuids.push((value as { uuid: string }).uuid);
+  }
+}
+
+describe('MessageHub', () => {
+  test('every subscription receives every message', async () => {
+    const hub = new MessageHub({ historySize: 10 });
+    const a = hub.subscribe();
+    const b = hub.subscribe();
+
+    hub.publish(message('1'));
+    hub.publish(message('2'));
+    hub.complete();
+
+    expect(await collect(a)).toEqual(['1', '2']);
+    expect(await collect(b)).toEqual(['1', '2']);
+  });
+
+  test('filters apply per subscription', async () => {
+    const hub = new MessageHub({ historySize: 10 });
+    const results = hub.subscribe((msg) => msg.type === 'result');
+
+    hub.publish(message('1'));
+    hub.publish(message('2', 'result'));
+    hub.complete();
+
+    expect(await collect(results)).toEqual(['2']);
+  });
+
+  test('late subscribers replay from the start or from a uuid', async () => {
+    const hub = new MessageHub({ historySize: 10 });
+    hub.publish(message('1'));
+    hub.publish(message('2'));
+
+    const fromStart = hub.subscribe(undefined, 'start');
+    const fromTwo = hub.subscribe(undefined, { fromUuid: '2' });
+    const live = hub.subscribe();
+    hub.publish(message('3'));
+    hub.complete();
+
+    expect(await collect(fromStart)).toEqual(['1', '2', '3']);
+    expect(await collect(fromTwo)).toEqual(['2', '3']);
+    expect(await collect(live)).toEqual(['3']);
+  });
+
+  test('history is bounded', () => {
+    const hub = new MessageHub({ historySize: 2 });
+    hub.publish(message('1'));
+    hub.publish(message('2'));
+    hub.publish(message('3'));
+
+    expect(() => hub.subscribe(undefined, { fromUuid: '1' })).toThrow(
+      'Message 1 is not in the replay history'
+    );
+  });
+
+  test('replay is off without a history size', () => {
+    const hub = new MessageHub({ historySize: 0 });
+    hub.publish(message('1'));
+
+    expect(() => hub.subscribe(undefined, 'start')).toThrow('Replay is disabled');
+  });
+
+  test('initial messages the replay already holds are delivered once', async () => {
+    const hub = new MessageHub({ historySize: 10 });
+    const unread = [message('1'), message('2')];
+    for (const msg of unread) hub.publish(msg);
+
+    const branch = hub.subscribe(undefined, 'start', unread);
+    hub.complete();
+
+    expect(await collect(branch)).toEqual(['1', '2']);
+  });
+
+  test('subscribing after completion replays, then ends', async () => {
+    const hub = new MessageHub({ historySize: 10 });
+    hub.publish(message('1'));
+    hub.complete(new Error('boom'));
+
+    const late = hub.subscribe(undefined, 'start');
+    expect((await late.next()).done).toBe(false);
+    await expect(late.next()).rejects.toThrow('boom');
+  });
+
+  test('unsubscribing a full subscription releases backpressure', () => {
+    const events: string[] = [];
+    const hub = new MessageHub({
+      historySize: 10,
+      highWaterMark: 1,
+      onFull: () => events.push('full'),
+      onDrain: () => events.push('drain'),
+    });
+    const slow = hub.subscribe();
+    hub.subscribe();
+
+    hub.publish(message('1'));
+    expect(events).toEqual(['full']);
+
+    hub.unsubscribe(slow);
+    // The other subscription is still full
+    expect(events).toEqual(['full']);
+  });
+});
+
+describe('Query subscribe() / tee()', () => {
+  const options = {
+    pathToClaudeCodeExecutable: CAPTURE_CLI,
+    settingSources: [],
+  };
+
+  test('subscribers and the query iterator each see all messages', async () => {
+    const q = query({ prompt: 'test', options }) as ExtendedQuery;
+    const all = q.subscribe();
+    const results = q.subscribe((msg) => msg.type === 'result');
+
+    const [own, fromAll, fromResults] = await Promise.all([
+      (async () => {
+        const types: string[] = [];
+        for await (const msg of q) types.push(msg.type);
+        return types;
+      })(),
+      (async () => {
+        const types: string[] = [];
+        for await (const msg of all) types.push(msg.type);
+        return types;
+      })(),
+      (async () => {
+        const types: string[] = [];
+        for await (const msg of results) types.push(msg.type);
+        return types;
+      })(),
+    ]);
+
+    expect(own).toEqual(['system', 'result']);
+    expect(fromAll).toEqual(own);
+    expect(fromResults).toEqual(['result']);
+  }, 15000);
+
+  test('breaking out of a subscription does not close the query', async () => {
+    const q = query({ prompt: 'test', options }) as ExtendedQuery;
+    const sub = q.subscribe();
+    const first = q.next();
+
+    for await (const _ of sub) break;
+    expect(q.queueMetrics().subscribers).toBe(1);
+
+    const types: string[] = [(await first).value.type];
+    for await (const msg of q) types.push(msg.type);
+    expect(types).toEqual(['system', 'result']);
+  }, 15000);
+
+  test('tee() branches start with the unread messages', async () => {
+    const q = query({ prompt: 'test', options }) as ExtendedQuery;
+    const first = await q.next();
+    expect(first.value.type).toBe('system');
+
+    const [a, b] = q.tee(2);
+    const typesA: string[] = [];
+    const typesB: string[] = [];
+    for await (const msg of a) typesA.push(msg.type);
+    for await (const msg of b) typesB.push(msg.type);
+
+    expect(typesA).toEqual(['result']);
+    expect(typesB).toEqual(['result']);
+    await expect(q.next()).rejects.toThrow('split with tee()');
+  }, 15000);
+
+  test('replay is opt-in through replayHistorySize', async () => {
+    const q = query({ prompt: 'test', options }) as ExtendedQuery;
+    expect(() => q.subscribe(undefined, { replay: 'start' })).toThrow('Replay is disabled');
+    q.close();
+
+    const replaying = query({
+      prompt: 'test',
+      options: { ...options, replayHistorySize: 10 },
+    }) as ExtendedQuery;
+    for await (const _ of replaying);
+
+    const types: string[] = [];
+    for await (const msg of replaying.subscribe(undefined, { replay: 'start' })) {
+      types.push(msg.type);
+    }
+    expect(types).toEqual(['system', 'result']);
+  }, 15000);
+});
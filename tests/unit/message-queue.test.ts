@@ -152,4 +152,31 @@ describe('MessageQueue', () => {
     expect(r1.value).toEqual({ type: 'a', data: 1 });
     expect(r2.value).toEqual({ type: 'b', data: 2 });
   });
+
+  test('reports full at the high-water mark and drained at half', async () => {
+    const events: string[] = [];
+    const queue = new MessageQueue<number>({
+      highWaterMark: 4,
+      onFull: () => events.push('full'),
+      onDrain: () => events.push('drain'),
+    });
+
+    for (let i = 0; i < 5; i++) queue.push(i);
+    expect(queue.isFull()).toBe(true);
+    expect(queue.size).toBe(5);
+    expect(events).toEqual(['full']);
+
+    await queue.next(); // 4 left
+    await queue.next(); // 3 left
+    expect(events).toEqual(['full']);
+    await queue.next(); // 2 left — half of the mark
+    expect(events).toEqual(['full', 'drain']);
+    expect(queue.highestSize).toBe(5);
+  });
+
+  test('never full without a high-water mark', () => {
+    const queue = new MessageQueue<number>();
+    for (let i = 0; i < 1000; i++) queue.push(i);
+    expect(queue.isFull()).toBe(false);
+  });
 });
@@ -162,4 +162,107 @@ describe('MessageRouter', () => {
     // Should complete without error
     await readPromise;
   });
+
+  describe('control request dispatch', () => {
+    const permissionRequest = (id: string, tool: string) =>
+      JSON.stringify({
+        type: 'control_request',
+        request_id: id,
+        request: { subtype: 'can_use_tool', tool_name: tool, input: {}, tool_use_id: `tu-${id}` },
+      });
+
+    /** canUseTool that holds 'Slow' until release() and answers everything else right away */
+    function slowPermissions() {
+      const answered: string[] = [];
+      let release = () => {};
+      const released = new Promise<void>((resolve) => {
+        release = resolve;
+      });
+      const writable = new Writable({
+        write(chunk, _encoding, callback) {
+          answered.push(JSON.parse(chunk.toString()).response.request_id);
+          callback();
+        },
+      });
+      const handler = new ControlProtocolHandler(writable, {
+        canUseTool: async (tool) => {
+          if (tool === 'Slow') await released;
+          return { behavior: 'allow', updatedInput: {} };
+        },
+      });
+      return { handler, answered, release };
+    }
+
+    test('a slow request holds up neither other requests nor messages', async () => {
+      const { handler, answered, release } = slowPermissions();
+      const messages: SDKMessage[] = [];
+      const router = new MessageRouter(
+        createReadableFromLines([
+          permissionRequest('r1', 'Slow'),
+          permissionRequest('r2', 'Read'),
+          JSON.stringify({ type: 'assistant', message: 'after' }),
+        ]),
+        handler,
+        (msg) => messages.push(msg),
+        () => {}
+      );
+
+      await router.startReading();
+      await Bun.sleep(10);
+      expect(messages).toHaveLength(1);
+      expect(answered).toEqual(['r2']);
+
+      release();
+      await Bun.sleep(10);
+      expect(answered).toEqual(['r2', 'r1']);
+    });
+
+    test('queues requests beyond the concurrency limit in arrival order', async () => {
+      const { handler, answered, release } = slowPermissions();
+      const messages: SDKMessage[] = [];
+      const router = new MessageRouter(
+        createReadableFromLines([
+          permissionRequest('r1', 'Slow'),
+          permissionRequest('r2', 'Read'),
+          permissionRequest('r3', 'Glob'),
+          JSON.stringify({ type: 'assistant', message: 'after' }),
+        ]),
+        handler,
+        (msg) => messages.push(msg),
+        () => {},
+        undefined,
+        undefined,
+        undefined,
+        1
+      );
+
+      await router.startReading();
+      await Bun.sleep(10);
+      // Output keeps flowing while r2 and r3 wait for r1's slot
+      expect(messages).toHaveLength(1);
+      expect(answered).toEqual([]);
+
+      release();
+      await Bun.sleep(10);
+      expect(answered).toEqual(['r1', 'r2', 'r3']);
+    });
+
+    test('a limit below 1 still handles one request at a time', async () => {
+      const { handler, answered } = slowPermissions();
+      const router = new MessageRouter(
+        createReadableFromLines([permissionRequest('r1', 'Read'), permissionRequest('r2', 'Glob')]),
+        handler,
+        () => {},
+        () => {},
+        undefined,
+        undefined,
+        undefined,
+        0
+      );
+
+      await router.startReading();
+      await Bun.sleep(10);
+      expect(answered).toEqual(['r1', 'r2']);
+    });
+  });
 });
@@ -0,0 +1,260 @@
+/**
+ * Unit tests for PartialMessageAssembler, PartialJsonParser and parsePartialJson
+ *
+ * The assembler is fed synthetic stream events; the Query-level test runs a
+ * fake bash CLI. No API calls.
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { unlinkSync, writeFileSync } from 'node:fs';
+import { query } from '../../src/api/query.ts';
+import { PartialJsonParser, PartialMessageAssembler, parsePartialJson } from '../../src/partial.ts';
+import type { ExtendedQuery, PartialMessageEvent, SDKMessage } from '../../src/types/index.ts';
+
+function createTempScript(content: string): string {
+  const path = `/tmp/fake-cli-${Date.now()}-${Math.random().toString(36).slice(2)}.sh`;
+  writeFileSync(path, `#!/bin/bash\n${content}`, { mode: 0o755 });
+  return path;
+}
+
+function streamEvent(event: unknown, parent: string | null = null): SDKMessage {
+  return {
+    type: 'stream_event',
+    event,
+    parent_tool_use_id: parent,
+    session_id: 's1',
+  } as unknown as SDKMessage;
+}
+
+function assistant(content: unknown[]): SDKMessage {
+  return {
+    type: 'assistant',
+    message: { id: 'msg_1', model: 'claude', content, stop_reason: null, usage: {} },
+    parent_tool_use_id: null,
+    session_id: 's1',
+  } as unknown as SDKMessage;
+}
+
+const MESSAGE_START = streamEvent({
+  type: 'message_start',
+  message: {
+    id: 'msg_1',
+    model: 'claude',
+    content: [],
+    stop_reason: null,
+    usage: { input_tokens: 10, output_tokens: 1 },
+  },
+});
+
+/** A text block followed by a Read tool call whose input streams in pieces */
+const TURN: SDKMessage[] = [
+  MESSAGE_START,
+  streamEvent({ type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } }),
+  streamEvent({
+    type: 'content_block_delta',
+    index: 0,
+    delta: { type: 'text_delta', text: 'Let me ' },
+  }),
+  streamEvent({
+    type: 'content_block_delta',
+    index: 0,
+    delta: { type: 'text_delta', text: 'look.' },
+  }),
+  streamEvent({ type: 'content_block_stop', index: 0 }),
+  streamEvent({
+    type: 'content_block_start',
+    index: 1,
+    content_block: { type: 'tool_use', id: 'toolu_1', name: 'Read', input: {} },
+  }),
+  streamEvent({
+    type: 'content_block_delta',
+    index: 1,
+    delta: { type: 'input_json_delta', partial_json: '{"file_path": "/tmp/rea' },
+  }),
+  streamEvent({
+    type: 'content_block_delta',
+    index: 1,
+    delta: { type: 'input_json_delta', partial_json: 'dme.md", "limit": 1' },
+  }),
+  streamEvent({
+    type: 'content_block_delta',
+    index: 1,
+    delta: { type: 'input_json_delta', partial_json: '0}' },
+  }),
+  streamEvent({ type: 'content_block_stop', index: 1 }),
+  streamEvent({
+    type: 'message_delta',
+    delta: { stop_reason: 'tool_use', stop_sequence: null },
+    usage: { input_tokens: null, output_tokens: 42 },
+  }),
+  streamEvent({ type: 'message_stop' }),
+];
+
+describe('parsePartialJson', () => {
+  test('parses complete and truncated documents', () => {
+    expect(parsePartialJson('{"a": 1}')).toEqual({ a: 1 });
+    expect(parsePartialJson('{"path": "/tmp/fo')).toEqual({ path: '/tmp/fo' });
+    expect(parsePartialJson('{"a": [1, 2')).toEqual({ a: [1, 2] });
+    expect(parsePartialJson('{"a": 1,')).toEqual({ a: 1 });
+    expect(parsePartialJson('{"a": 1, "b')).toEqual({ a: 1 });
+    expect(parsePartialJson('{"a": [1, 2], "b": t')).toEqual({ a: [1, 2] });
+    expect(parsePartialJson('{"a": {"b": "x\\')).toEqual({ a: { b: 'x' } });
+    expect(parsePartialJson('{"s": "a,b:{c"')).toEqual({ s: 'a,b:{c' });
+  });
+
+  test('returns undefined when nothing usable was received', () => {
+    expect(parsePartialJson('')).toBeUndefined();
+    expect(parsePartialJson('tr')).toBeUndefined();
+  });
+
+  test('keeps the key of a string cut inside an escape sequence', () => {
+    expect(parsePartialJson('{"a": "x\\u00')).toEqual({ a: 'x' });
+    expect(parsePartialJson('{"a": "caf\\u00e9", "b": "\\ud83d')).toEqual({ a: 'café', b: '' });
+    expect(parsePartialJson('{"a": -')).toEqual({});
+  });
+});
+
+describe('PartialJsonParser', () => {
+  const DOCUMENT =
+    '{"cmd": "echo \\"hi\\"\\n", "args": [1, -2.5e3, true, null, {"k": []}], "x": {}}';
+
+  test('fed one character at a time, matches parsePartialJson on each prefix', () => {
+    const parser = new PartialJsonParser();
+    for (let i = 1; i <= DOCUMENT.length; i++) {
+      expect(parser.push(DOCUMENT[i - 1])).toEqual(parsePartialJson(DOCUMENT.slice(0, i)));
+    }
+    expect(parser.push('')).toEqual(JSON.parse(DOCUMENT));
+  });
+
+  test('never modifies a value it already returned', () => {
+    const parser = new PartialJsonParser();
+    const first = parser.push('{"a": [1, {"b": "x');
+    const snapshot = structuredClone(first);
+    const second = parser.push('yz"}, 2], "c": 3}');
+
+    expect(first).toEqual(snapshot);
+    expect(second).toEqual({ a: [1, { b: 'xyz' }, 2], c: 3 });
+  });
+
+  test('keeps the last good value after invalid JSON', () => {
+    const parser = new PartialJsonParser();
+    parser.push('{"a": 1, ');
+    expect(parser.push('oops')).toEqual({ a: 1 });
+    expect(parser.push(', "b": 2}')).toEqual({ a: 1 });
+  });
+});
+
+describe('PartialMessageAssembler', () => {
+  test('builds blocks and parses tool input as it streams', () => {
+    const assembler = new PartialMessageAssembler();
+    const events: PartialMessageEvent[] = [];
+    const inputs: unknown[] = [];
+    for (const msg of TURN) {
+      for (const event of assembler.push(msg)) {
+        events.push(event);
+        if (event.type === 'block_delta' && event.block.type === 'tool_use') {
+          inputs.push(structuredClone(event.block.input));
+        }
+      }
+    }
+
+    expect(events.map((e) => e.type)).toEqual([
+      'message_start',
+      'block_start',
+      'block_delta',
+      'block_delta',
+      'block_stop',
+      'block_start',
+      'block_delta',
+      'block_delta',
+      'block_delta',
+      'block_stop',
+      'message_stop',
+    ]);
+    expect(inputs).toEqual([
+      { file_path: '/tmp/rea' },
+      { file_path: '/tmp/readme.md', limit: 1 },
+      { file_path: '/tmp/readme.md', limit: 10 },
+    ]);
+
+    const snapshot = events[0].snapshot;
+    expect(snapshot.done).toBe(true);
+    expect(snapshot.stop_reason).toBe('tool_use');
+    expect(snapshot.usage).toMatchObject({ input_tokens: 10, output_tokens: 42 });
+    expect(snapshot.content[0]).toMatchObject({ type: 'text', text: 'Let me look.', done: true });
+    expect(assembler.current()).toBeUndefined();
+  });
+
+  test('reconciles with final assistant messages split per block', () => {
+    const assembler = new PartialMessageAssembler();
+    for (const msg of TURN) assembler.push(msg);
+
+    const [first] = assembler.push(assistant([{ type: 'text', text: 'Let me look!' }]));
+    const [second] = assembler.push(
+      assistant([
+        { type: 'tool_use', id: 'toolu_1', name: 'Read', input: { file_path: '/tmp/README.md' } },
+      ])
+    );
+
+    expect(first.type).toBe('reconciled');
+    expect(second.snapshot).toBe(first.snapshot);
+    expect(second.snapshot.content).toHaveLength(2);
+    expect(second.snapshot.content[0]).toMatchObject({ text: 'Let me look!' });
+    expect(second.snapshot.content[1]).toMatchObject({ input: { file_path: '/tmp/README.md' } });
+  });
+
+  test('keeps subagent streams apart and builds snapshots without partials', () => {
+    const assembler = new PartialMessageAssembler();
+    assembler.push(MESSAGE_START);
+    assembler.push(
+      streamEvent(
+        {
+          type: 'message_start',
+          message: { id: 'msg_sub', model: 'claude', content: [], stop_reason: null, usage: {} },
+        },
+        'toolu_task'
+      )
+    );
+    expect(assembler.current()?.id).toBe('msg_1');
+    expect(assembler.current('toolu_task')?.id).toBe('msg_sub');
+
+    const [event] = new PartialMessageAssembler().push(assistant([{ type: 'text', text: 'Hi' }]));
+    expect(event.snapshot).toMatchObject({ id: 'msg_1', done: true });
+    expect(event.snapshot.content).toEqual([{ type: 'text', text: 'Hi', done: true }]);
+  });
+});
+
+describe("q.on('partial')", () => {
+  test('emits assembler events with assemblePartialMessages', async () => {
+    const lines = [...TURN, assistant([{ type: 'text', text: 'Let me look.' }])]
+      .map((msg) => `echo '${JSON.stringify(msg)}'`)
+      .join('\n');
+    const script = createTempScript(`
+read -r _; read -r _
+echo '{"type":"system","subtype":"init","session_id":"s1","tools":[],"mcp_servers":[]}'
+${lines}
+echo '{"type":"result","subtype":"success","result":"done","total_cost_usd":0,"usage":{},"session_id":"s1"}'
+`);
+
+    try {
+      const q = query({
+        prompt: 'test',
+        options: {
+          pathToClaudeCodeExecutable: script,
+          settingSources: [],
+          includePartialMessages: true,
+          assemblePartialMessages: true,
+        },
+      }) as ExtendedQuery;
+      const types: string[] = [];
+      q.on('partial', (event) => types.push(event.type));
+      await q.result();
+
+      expect(types[0]).toBe('message_start');
+      expect(types.at(-1)).toBe('reconciled');
+      expect(types.filter((t) => t === 'block_delta')).toHaveLength(5);
+    } finally {
+      unlinkSync(script);
+    }
+  }, 15000);
+});
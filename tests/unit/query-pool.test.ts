@@ -0,0 +1,184 @@
+/**
+ * Unit tests for QueryPool (pre-warmed CLI processes)
+ *
+ * Uses capture-cli in CAPTURE_WAIT_FOR_USER mode so warm processes stay
+ * alive until they receive a prompt. No API calls.
+ */
+
+import { afterEach, describe, expect, test } from 'bun:test';
+import { existsSync, readFileSync, unlinkSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createQueryPool, type QueryPool } from '../../src/api/QueryPool.ts';
+import { AbortError, CliNotFoundError, OptionsValidationError } from '../../src/errors.ts';
+import type { ExtendedOptions, ExtendedQuery, SDKMessage } from '../../src/types/index.ts';
+import type { StdinMessage } from './compat/capture-utils.ts';
+
+const CAPTURE_CLI = './src/tools/capture-cli.cjs';
+
+function poolOptions(captureFile: string): ExtendedOptions {
+  return {
+    pathToClaudeCodeExecutable: CAPTURE_CLI,
+    settingSources: [],
+    model: 'haiku',
+    env: { CAPTURE_OUTPUT_FILE: captureFile, CAPTURE_WAIT_FOR_USER: '1' },
+  };
+}
+
+async function drain(q: AsyncIterable<SDKMessage>): Promise<SDKMessage[]> {
+  const messages: SDKMessage[] = [];
+  for await (const msg of q) {
+    messages.push(msg);
+    if (msg.type === 'result') break;
+  }
+  return messages;
+}
+
+describe('QueryPool', () => {
+  let pool: QueryPool | null = null;
+  let captureFile = '';
+
+  afterEach(() => {
+    pool?.close();
+    pool = null;
+    if (captureFile && existsSync(captureFile)) unlinkSync(captureFile);
+  });
+
+  function newCaptureFile(): string {
+    captureFile = join(
+      tmpdir(),
+      `capture-pool-${Date.now()}-${Math.random().toString(36).slice(2)}.json`
+    );
+    return captureFile;
+  }
+
+  test('keeps processes initialized and replaces them after use', async () => {
+    pool = createQueryPool({ size: 2, options: poolOptions(newCaptureFile()) });
+    await pool.ready();
+    expect(pool.available).toBe(2);
+
+    const messages = await drain(pool.query({ prompt: 'Hello' }));
+    expect(messages.at(-1)?.type).toBe('result');
+
+    // Replacement is spawned in the background
+    await new Promise((r) => setImmediate(r));
+    await pool.ready();
+    expect(pool.available).toBe(2);
+  }, 15000);
+
+  test('init handshake happens before the prompt is sent', async () => {
+    const file = newCaptureFile();
+    pool = createQueryPool({ size: 1, options: poolOptions(file) });
+    await pool.ready();
+
+    await drain(pool.query({ prompt: 'Pooled prompt' }));
+
+    const captured = JSON.parse(readFileSync(file, 'utf-8')) as { stdin: StdinMessage[] };
+    expect(captured.stdin[0].request.subtype).toBe('initialize');
+    expect(captured.stdin[1].type).toBe('user');
+    expect(captured.stdin[1].message.content[0].text).toBe('Pooled prompt');
+  }, 15000);
+
+  test('runtime options are applied via control requests', async () => {
+    const file = newCaptureFile();
+    pool = createQueryPool({ size: 1, options: poolOptions(file) });
+    await pool.ready();
+
+    await drain(
+      pool.query({
+        prompt: 'test',
+        options: { model: 'sonnet', permissionMode: 'plan' },
+      })
+    );
+
+    const captured = JSON.parse(readFileSync(file, 'utf-8')) as { stdin: StdinMessage[] };
+    const subtypes = captured.stdin.map((m) => m.request?.subtype ?? m.type);
+    expect(subtypes).toEqual(['initialize', 'set_model', 'set_permission_mode', 'user']);
+  }, 15000);
+
+  test('rejects options that cannot be applied after spawn', () => {
+    pool = createQueryPool({ size: 1, options: poolOptions(newCaptureFile()) });
+
+    expect(() => pool?.query({ prompt: 'test', options: { cwd: '/somewhere/else' } })).toThrow(
+      "Option 'cwd' differs from the pool's options"
+    );
+    expect(() =>
+      pool?.query({
+        prompt: 'test',
+        options: { mcpServers: { other: { command: 'other-server' } } },
+      })
+    ).toThrow("Option 'mcpServers' differs from the pool's options");
+  });
+
+  test('validates per-query options like query()', () => {
+    const warnings: string[] = [];
+    pool = createQueryPool({
+      size: 1,
+      options: {
+        ...poolOptions(newCaptureFile()),
+        modle: 'haiku',
+        onWarning: (w) => warnings.push(w.code),
+      } as ExtendedOptions,
+    });
+    expect(warnings).toEqual(['unknown-option']);
+
+    expect(() =>
+      pool?.query({ prompt: 'test', options: { permissionMode: 'yolo' as never } })
+    ).toThrow(OptionsValidationError);
+
+    // The pool's own warning isn't reported again
+    const q = pool.query({ prompt: 'test', options: { permissionMode: 'bypassPermissions' } });
+    expect(warnings).toEqual(['unknown-option', 'bypass-without-allow']);
+    (q as ExtendedQuery).close();
+  });
+
+  test('accepts options equal to the pool options', async () => {
+    const file = newCaptureFile();
+    const options = poolOptions(file);
+    pool = createQueryPool({ size: 1, options });
+
+    const messages = await drain(
+      pool.query({ prompt: 'test', options: { settingSources: [], env: { ...options.env } } })
+    );
+    expect(messages.at(-1)?.type).toBe('result');
+  }, 15000);
+
+  test('closed pool refuses queries', () => {
+    pool = createQueryPool({ size: 1, options: poolOptions(newCaptureFile()) });
+    pool.close();
+
+    expect(() => pool?.query({ prompt: 'test' })).toThrow('Query pool is closed');
+  });
+
+  test('reports processes that fail to spawn as error events', async () => {
+    pool = createQueryPool({
+      size: 2,
+      options: { pathToClaudeCodeExecutable: '/nonexistent/path/to/claude', settingSources: [] },
+    });
+    const errors: Error[] = [];
+    pool.on('error', (error) => errors.push(error));
+    await new Promise((r) => setImmediate(r));
+
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toBeInstanceOf(CliNotFoundError);
+  });
+
+  test("the pool's abortController closes the pool and aborts its queries", async () => {
+    const abortController = new AbortController();
+    const file = newCaptureFile();
+    pool = createQueryPool({ size: 1, options: { ...poolOptions(file), abortController } });
+    await pool.ready();
+
+    const q = pool.query({ prompt: 'test' });
+    abortController.abort();
+    await drain(q);
+
+    // Aborting a running query interrupts it, as with query()
+    const captured = JSON.parse(readFileSync(file, 'utf-8')) as { stdin: StdinMessage[] };
+    expect(captured.stdin.map((m) => m.request?.subtype ?? m.type)).toContain('interrupt');
+    expect(pool.available).toBe(0);
+    const later = pool.query({ prompt: 'test' });
+    expect(await drain(later)).toEqual([]);
+    await expect(later.initializationResult()).rejects.toBeInstanceOf(AbortError);
+  }, 15000);
+});
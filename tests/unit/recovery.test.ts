@@ -0,0 +1,173 @@
+/**
+ * Unit tests for crash recovery
+ *
+ * CrashRecovery bookkeeping, plus end-to-end restarts against capture-cli
+ * with CAPTURE_CRASH_MARKER (the first process exits 1 on the first prompt).
+ * No API calls.
+ */
+
+import { afterEach, describe, expect, test } from 'bun:test';
+import { existsSync, readFileSync, unlinkSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { query } from '../../src/api/query.ts';
+import { CrashRecovery } from '../../src/core/recovery.ts';
+import type {
+  ExtendedOptions,
+  ExtendedQuery,
+  QueryMessage,
+  SDKMessage,
+  SDKRecoveryMessage,
+  SDKUserMessage,
+} from '../../src/types/index.ts';
+
+const CAPTURE_CLI = './src/tools/capture-cli.cjs';
+
+function userMessage(text: string): SDKUserMessage {
+  return {
+    type: 'user',
+    message: { role: 'user', content: [{ type: 'text', text }] },
+    session_id: '',
+    parent_tool_use_id: null,
+  };
+}
+
+describe('CrashRecovery', () => {
+  test('backoff doubles per attempt', () => {
+    const recovery = new CrashRecovery({ maxRestarts: 3, backoff: 100 });
+    expect(recovery.beginRestart()).toBe(100);
+    expect(recovery.beginRestart()).toBe(200);
+    expect(recovery.beginRestart()).toBe(400);
+    expect(recovery.canRestart()).toBe(false);
+  });
+
+  test('backoff function receives the attempt number', () => {
+    const recovery = new CrashRecovery({ maxRestarts: 2, backoff: (attempt) => attempt * 7 });
+    expect(recovery.beginRestart()).toBe(7);
+    expect(recovery.beginRestart()).toBe(14);
+  });
+
+  test('each result acknowledges the oldest user message', () => {
+    const recovery = new CrashRecovery({ maxRestarts: 1 });
+    recovery.track(userMessage('first'));
+    recovery.track(userMessage('second'));
+
+    recovery.observe({ type: 'result' } as SDKMessage);
+
+    const pending = recovery.pendingMessages();
+    expect(pending).toHaveLength(1);
+    expect(pending[0].message.content).toEqual([{ type: 'text', text: 'second' }]);
+  });
+
+  test('messages the CLI echoed back are still resent', () => {
+    // The echo only shows the CLI received the prompt, not that its turn ran;
+    // a resumed transcript may therefore hold the prompt twice (documented)
+    const recovery = new CrashRecovery({ maxRestarts: 1 });
+    const sent = { ...userMessage('first'), uuid: '00000000-0000-4000-8000-000000000001' as const };
+    recovery.track(sent);
+
+    recovery.observe({ ...sent, isReplay: true } as SDKMessage);
+
+    expect(recovery.pendingMessages()).toEqual([sent]);
+  });
+
+  test('respawn options resume the last seen session', () => {
+    const recovery = new CrashRecovery({ maxRestarts: 1 });
+    const options: ExtendedOptions = { model: 'haiku', sessionId: 'custom', continue: true };
+
+    // Nothing persisted yet — spawn exactly as before
+    expect(recovery.respawnOptions(options)).toBe(options);
+
+    recovery.observe({ type: 'system', subtype: 'init', session_id: 'sess-1' } as SDKMessage);
+    const respawn = recovery.respawnOptions(options);
+    expect(respawn.resume).toBe('sess-1');
+    expect(respawn.model).toBe('haiku');
+    expect(respawn.sessionId).toBeUndefined();
+    expect(respawn.continue).toBeUndefined();
+  });
+});
+
+describe('QueryImpl crash recovery', () => {
+  let marker = '';
+  let captureFile = '';
+
+  afterEach(() => {
+    for (const file of [marker, captureFile]) {
+      if (file && existsSync(file)) unlinkSync(file);
+    }
+  });
+
+  function crashingOptions(recovery?: ExtendedOptions['recovery']): ExtendedOptions {
+    const id = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+    marker = join(tmpdir(), `crash-marker-${id}`);
+    captureFile = join(tmpdir(), `capture-recovery-${id}.json`);
+    return {
+      pathToClaudeCodeExecutable: CAPTURE_CLI,
+      settingSources: [],
+      env: { CAPTURE_CRASH_MARKER: marker, CAPTURE_OUTPUT_FILE: captureFile },
+      recovery,
+    };
+  }
+
+  test('respawns with resume and resends the unfinished prompt', async () => {
+    const q = query({
+      prompt: 'Survive the crash',
+      options: crashingOptions({ maxRestarts: 1, backoff: 0 }),
+    }) as ExtendedQuery;
+
+    const messages: QueryMessage[] = [];
+    for await (const msg of q) {
+      messages.push(msg);
+      if (msg.type === 'result') break;
+    }
+
+    const firstInit = messages[0] as SDKMessage & { session_id: string };
+    const event = messages.find(
+      (m): m is SDKRecoveryMessage => m.type === 'system' && m.subtype === 'recovery'
+    ) as SDKRecoveryMessage;
+
+    expect(event).toBeDefined();
+    expect(event.attempt).toBe(1);
+    expect(event.exit_code).toBe(1);
+    expect(event.resumed_session_id).toBe(firstInit.session_id);
+    expect(event.resent_messages).toBe(1);
+    expect(messages.at(-1)?.type).toBe('result');
+
+    // The replacement process resumed the session and got the prompt again
+    const captured = JSON.parse(readFileSync(captureFile, 'utf-8'));
+    const resumeIndex = captured.args.indexOf('--resume');
+    expect(captured.args[resumeIndex + 1]).toBe(firstInit.session_id);
+    expect(captured.stdin[0].request.subtype).toBe('initialize');
+    expect(captured.stdin[1].message.content[0].text).toBe('Survive the crash');
+  }, 15000);
+
+  test('re-applies runtime changes to the respawned process', async () => {
+    const q = query({
+      prompt: 'test',
+      options: { ...crashingOptions({ maxRestarts: 1, backoff: 0 }), model: 'haiku' },
+    });
+    // The crash rejects the request, but the respawn still carries the change
+    const setModel = q.setModel('opus').catch((error: Error) => error.message);
+
+    for await (const msg of q) {
+      if (msg.type === 'result') break;
+    }
+
+    const captured = JSON.parse(readFileSync(captureFile, 'utf-8'));
+    const modelIndex = captured.args.indexOf('--model');
+    expect(captured.args[modelIndex + 1]).toBe('opus');
+    expect(await setModel).toContain('before responding');
+  }, 15000);
+
+  test('fails the stream once maxRestarts is used up', async () => {
+    const q = query({ prompt: 'test', options: crashingOptions({ maxRestarts: 0 }) });
+
+    await expect(
+      (async () => {
+        for await (const _ of q) {
+          // drain
+        }
+      })()
+    ).rejects.toThrow('Claude CLI exited with code 1');
+  }, 15000);
+});
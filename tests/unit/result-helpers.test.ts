@@ -0,0 +1,125 @@
+/**
+ * Unit tests for q.result(), q.text() and q.collect()
+ *
+ * Fake bash CLIs read the prompt, print a scripted turn and exit. No API calls.
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { unlinkSync, writeFileSync } from 'node:fs';
+import { query } from '../../src/api/query.ts';
+import type { ExtendedOptions, ExtendedQuery } from '../../src/types/index.ts';
+
+function createTempScript(content: string): string {
+  const path = `/tmp/fake-cli-${Date.now()}-${Math.random().toString(36).slice(2)}.sh`;
+  writeFileSync(path, `#!/bin/bash\n${content}`, { mode: 0o755 });
+  return path;
+}
+
+/** Reads the initialize request and the prompt before answering */
+const INIT = `read -r _; read -r _
+echo '{"type":"system","subtype":"init","session_id":"s1","tools":[],"mcp_servers":[]}'`;
+const USAGE = '"usage":{"input_tokens":10,"output_tokens":5}';
+
+/** Assistant text around a subagent message, then a successful result */
+const TURN_CLI = `
+${INIT}
+echo '{"type":"assistant","message":{"role":"assistant","content":[{"type":"text","text":"Hello"},{"type":"tool_use","id":"toolu_1","name":"Task","input":{}}]},"parent_tool_use_id":null,"session_id":"s1"}'
+echo '{"type":"assistant","message":{"role":"assistant","content":[{"type":"text","text":"from a subagent"}]},"parent_tool_use_id":"toolu_1","session_id":"s1"}'
+echo '{"type":"assistant","message":{"role":"assistant","content":[{"type":"text","text":" world"}]},"parent_tool_use_id":null,"session_id":"s1"}'
+echo '{"type":"result","subtype":"success","result":"Hello world","structured_output":{"ok":true},"total_cost_usd":0.25,${USAGE},"session_id":"s1"}'
+`;
+
+/** Text deltas followed by the complete assistant message */
+const PARTIAL_CLI = `
+${INIT}
+echo '{"type":"stream_event","event":{"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"Hel"}},"parent_tool_use_id":null,"session_id":"s1"}'
+echo '{"type":"stream_event","event":{"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"lo"}},"parent_tool_use_id":null,"session_id":"s1"}'
+echo '{"type":"assistant","message":{"role":"assistant","content":[{"type":"text","text":"Hello"}]},"parent_tool_use_id":null,"session_id":"s1"}'
+echo '{"type":"result","subtype":"success","result":"Hello","total_cost_usd":0,${USAGE},"session_id":"s1"}'
+`;
+
+const FAILED_CLI = `
+${INIT}
+echo '{"type":"assistant","message":{"role":"assistant","content":[{"type":"text","text":"Partial answer"}]},"parent_tool_use_id":null,"session_id":"s1"}'
+echo '{"type":"result","subtype":"error_max_turns","errors":[],"total_cost_usd":0.5,${USAGE},"session_id":"s1"}'
+`;
+
+const NO_RESULT_CLI = `
+${INIT}
+`;
+
+async function withCli<T>(
+  script: string,
+  run: (q: ExtendedQuery) => Promise<T>,
+  options: ExtendedOptions = {}
+): Promise<T> {
+  const path = createTempScript(script);
+  try {
+    const q = query({
+      prompt: 'test',
+      options: { pathToClaudeCodeExecutable: path, settingSources: [], ...options },
+    }) as ExtendedQuery;
+    return await run(q);
+  } finally {
+    unlinkSync(path);
+  }
+}
+
+describe('result helpers', () => {
+  test('result() resolves to the result message', async () => {
+    const result = await withCli(TURN_CLI, (q) => q.result());
+    expect(result.subtype).toBe('success');
+    expect(result.session_id).toBe('s1');
+  }, 15000);
+
+  test('result() rejects when the stream ends without a result', async () => {
+    await expect(withCli(NO_RESULT_CLI, (q) => q.result())).rejects.toThrow(
+      'Query ended without a result message'
+    );
+  }, 15000);
+
+  test('text() yields top-level assistant text blocks', async () => {
+    const chunks = await withCli(TURN_CLI, async (q) => {
+      const chunks: string[] = [];
+      for await (const chunk of q.text()) chunks.push(chunk);
+      return chunks;
+    });
+    expect(chunks).toEqual(['Hello', ' world']);
+  }, 15000);
+
+  test('text() yields deltas only with includePartialMessages', async () => {
+    const chunks = await withCli(
+      PARTIAL_CLI,
+      async (q) => {
+        const chunks: string[] = [];
+        for await (const chunk of q.text()) chunks.push(chunk);
+        return chunks;
+      },
+      { includePartialMessages: true }
+    );
+    expect(chunks).toEqual(['Hel', 'lo']);
+  }, 15000);
+
+  test('collect() summarizes the turn', async () => {
+    const collected = await withCli(TURN_CLI, (q) => q.collect());
+    expect(collected.messages.map((m) => m.type)).toEqual([
+      'system',
+      'assistant',
+      'assistant',
+      'assistant',
+      'result',
+    ]);
+    expect(collected.finalText).toBe('Hello world');
+    expect(collected.structuredOutput).toEqual({ ok: true });
+    expect(collected.usage.output_tokens).toBe(5);
+    expect(collected.costUsd).toBe(0.25);
+    expect(collected.sessionId).toBe('s1');
+  }, 15000);
+
+  test('collect() falls back to the last assistant text on error results', async () => {
+    const collected = await withCli(FAILED_CLI, (q) => q.collect());
+    expect(collected.finalText).toBe('Partial answer');
+    expect(collected.structuredOutput).toBeUndefined();
+    expect(collected.costUsd).toBe(0.5);
+  }, 15000);
+});
@@ -0,0 +1,89 @@
+/**
+ * Unit tests for SdkTransportAdapter
+ *
+ * An in-memory transport written against the official SDK's Transport
+ * interface plays the CLI: it answers the init handshake and replies to a
+ * prompt with a result. No API calls.
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { MessageQueue } from '../../src/api/MessageQueue.ts';
+import { query } from '../../src/api/query.ts';
+import type { SDKMessage, Transport } from '../../src/types/index.ts';
+
+type StdoutMessage = Awaited<ReturnType<ReturnType<Transport['readMessages']>['next']>>['value'];
+
+class OfficialTransport implements Transport {
+  written: unknown[] = [];
+  closed = false;
+  private out = new MessageQueue<StdoutMessage>();
+
+  constructor(private failWith?: Error) {}
+
+  async write(data: string): Promise<void> {
+    for (const line of data.split('\n').filter(Boolean)) {
+      const msg = JSON.parse(line);
+      this.written.push(msg);
+      if (msg.type === 'control_request' && msg.request.subtype === 'initialize') {
+        this.emit({
+          type: 'control_response',
+          response: { subtype: 'success', request_id: msg.request_id, response: {} },
+        });
+      } else if (msg.type === 'user') {
+        if (this.failWith) throw this.failWith;
+        this.emit({ type: 'assistant', message: { content: [] }, session_id: 'official' });
+        this.emit({ type: 'result', subtype: 'success', session_id: 'official' });
+      }
+    }
+  }
+
+  close(): void {
+    this.closed = true;
+    this.out.complete();
+  }
+
+  isReady(): boolean {
+    return !this.closed;
+  }
+
+  async *readMessages(): AsyncGenerator<StdoutMessage, void, unknown> {
+    for await (const msg of { [Symbol.asyncIterator]: () => this.out }) yield msg;
+  }
+
+  endInput(): void {
+    this.out.complete();
+  }
+
+  private emit(msg: unknown): void {
+    this.out.push(msg as StdoutMessage);
+  }
+}
+
+describe('SdkTransportAdapter', () => {
+  test('runs a query over a transport implementing the official interface', async () => {
+    const transport = new OfficialTransport();
+    const q = query({ prompt: 'Hello', options: { transport: () => transport } });
+
+    await q.initializationResult();
+    const messages: SDKMessage[] = [];
+    for await (const msg of q) {
+      messages.push(msg);
+      if (msg.type === 'result') break;
+    }
+
+    expect(messages.map((m) => m.type)).toEqual(['assistant', 'result']);
+    expect(transport.written.map((m) => (m as { type: string }).type)).toEqual([
+      'control_request',
+      'user',
+    ]);
+    q.close();
+    expect(transport.closed).toBe(true);
+  });
+
+  test('a rejected write ends the stream with its error', async () => {
+    const transport = new OfficialTransport(new Error('remote CLI went away'));
+    const q = query({ prompt: 'Hello', options: { transport: () => transport } });
+
+    await expect(q.next()).rejects.toThrow('remote CLI went away');
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Unit tests for the V2 session API (unstable_v2_*)
+ *
+ * A fake bash CLI answers every user message with a result, so one process
+ * serves several turns. No API calls.
+ */
+
+import { afterAll, describe, expect, test } from 'bun:test';
+import { unlinkSync, writeFileSync } from 'node:fs';
+import {
+  unstable_v2_createSession,
+  unstable_v2_prompt,
+  unstable_v2_resumeSession,
+} from '../../src/api/session.ts';
+import type { SDKMessage, SDKResultSuccess } from '../../src/types/index.ts';
+
+function createTempScript(content: string): string {
+  const path = `/tmp/fake-cli-${Date.now()}-${Math.random().toString(36).slice(2)}.sh`;
+  writeFileSync(path, `#!/bin/bash\n${content}`, { mode: 0o755 });
+  return path;
+}
+
+/** Reports the --resume id (or 'new-session') and replies "reply N" to the Nth prompt */
+const MULTI_TURN_CLI = createTempScript(`
+session=new-session
+while [ $# -gt 0 ]; do
+  if [ "$1" = "--resume" ]; then session=$2; fi
+  shift
+done
+echo "{\\"type\\":\\"system\\",\\"subtype\\":\\"init\\",\\"session_id\\":\\"$session\\",\\"tools\\":[],\\"mcp_servers\\":[]}"
+n=0
+while read -r line; do
+  case "$line" in
+    *'"type":"user"'*)
+      n=$((n+1))
+      echo "{\\"type\\":\\"result\\",\\"subtype\\":\\"success\\",\\"result\\":\\"reply $n\\",\\"session_id\\":\\"$session\\"}"
+      ;;
+  esac
+done
+`);
+
+afterAll(() => unlinkSync(MULTI_TURN_CLI));
+
+const options = { model: 'sonnet', pathToClaudeCodeExecutable: MULTI_TURN_CLI };
+
+async function turn(stream: AsyncGenerator<SDKMessage, void>): Promise<SDKMessage[]> {
+  const messages: SDKMessage[] = [];
+  for await (const msg of stream) messages.push(msg);
+  return messages;
+}
+
+describe('V2 session API', () => {
+  test('createSession serves several turns over one process', async () => {
+    const session = unstable_v2_createSession(options);
+    expect(() => session.sessionId).toThrow('Session ID not available');
+
+    await session.send('first');
+    const first = await turn(session.stream());
+    expect(first.map((m) => m.type)).toEqual(['system', 'result']);
+    expect(session.sessionId).toBe('new-session');
+
+    await session.send({
+      type: 'user',
+      session_id: '',
+      message: { role: 'user', content: 'second' },
+      parent_tool_use_id: null,
+    });
+    const second = await turn(session.stream());
+    expect((second.at(-1) as SDKResultSuccess).result).toBe('reply 2');
+
+    await session[Symbol.asyncDispose]();
+    await expect(session.send('third')).rejects.toThrow('Cannot send to closed session');
+  }, 15000);
+
+  test('resumeSession knows its id up front and passes --resume', async () => {
+    const session = unstable_v2_resumeSession('abc-123', options);
+    expect(session.sessionId).toBe('abc-123');
+
+    await session.send('hello');
+    const messages = await turn(session.stream());
+    expect(messages[0]).toMatchObject({ type: 'system', session_id: 'abc-123' });
+    session.close();
+  }, 15000);
+
+  test('prompt resolves to the result message', async () => {
+    const result = await unstable_v2_prompt('hello', options);
+    expect(result).toMatchObject({ type: 'result', subtype: 'success', result: 'reply 1' });
+  }, 15000);
+});
@@ -0,0 +1,108 @@
+/**
+ * Unit tests for SocketTransport
+ *
+ * A local socket server stands in for a sidecar: each connection spawns
+ * capture-cli and pipes the socket to its stdin/stdout. No API calls.
+ */
+
+import { afterEach, describe, expect, test } from 'bun:test';
+import { spawn } from 'node:child_process';
+import { existsSync, readFileSync, unlinkSync } from 'node:fs';
+import { createServer, type Server } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { query } from '../../src/api/query.ts';
+import { SocketTransport, type SocketTransportOptions } from '../../src/api/SocketTransport.ts';
+import type { SDKMessage } from '../../src/types/index.ts';
+
+const CAPTURE_CLI = './src/tools/capture-cli.cjs';
+
+/** Start a server that runs capture-cli behind every connection */
+function startCliServer(captureFile: string): Server {
+  return createServer({ allowHalfOpen: true }, (socket) => {
+    const cli = spawn('node', [CAPTURE_CLI], {
+      stdio: ['pipe', 'pipe', 'inherit'],
+      env: { ...process.env, CAPTURE_OUTPUT_FILE: captureFile },
+    });
+    socket.pipe(cli.stdin);
+    cli.stdout.pipe(socket);
+    socket.on('error', () => cli.kill());
+  });
+}
+
+function listen(server: Server, target: string | number): Promise<SocketTransportOptions> {
+  return new Promise((resolve) => {
+    server.listen(target, () => {
+      const address = server.address();
+      resolve(
+        typeof address === 'string' || address === null
+          ? { path: target as string }
+          : { host: '127.0.0.1', port: address.port }
+      );
+    });
+  });
+}
+
+async function runOverSocket(options: SocketTransportOptions) {
+  const q = query({
+    prompt: 'Hello over socket',
+    options: { transport: () => new SocketTransport(options) },
+  });
+
+  const init = await q.initializationResult();
+  const messages: SDKMessage[] = [];
+  for await (const msg of q) {
+    messages.push(msg);
+    if (msg.type === 'result') break;
+  }
+  return { init, messages };
+}
+
+describe('SocketTransport', () => {
+  let server: Server | null = null;
+  let captureFile = '';
+
+  afterEach(() => {
+    server?.close();
+    server = null;
+    if (captureFile && existsSync(captureFile)) unlinkSync(captureFile);
+  });
+
+  test('runs a query over a Unix socket', async () => {
+    const id = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+    const socketPath = join(tmpdir(), `claude-cli-${id}.sock`);
+    captureFile = join(tmpdir(), `capture-socket-${id}.json`);
+    server = startCliServer(captureFile);
+
+    const { init, messages } = await runOverSocket(await listen(server, socketPath));
+
+    expect(init.available_output_styles).toEqual(['text', 'json']);
+    expect(messages[0].type).toBe('system');
+    expect(messages.at(-1)?.type).toBe('result');
+
+    // The remote CLI received the same control protocol as a local one
+    const captured = JSON.parse(readFileSync(captureFile, 'utf-8'));
+    expect(captured.stdin[0].request.subtype).toBe('initialize');
+    expect(captured.stdin[1].message.content[0].text).toBe('Hello over socket');
+  }, 15000);
+
+  test('runs a query over TCP', async () => {
+    captureFile = join(tmpdir(), `capture-socket-${Date.now()}.json`);
+    server = startCliServer(captureFile);
+
+    const { messages } = await runOverSocket(await listen(server, 0));
+
+    expect(messages.some((m) => m.type === 'result')).toBe(true);
+  }, 15000);
+
+  test('connection failure ends the stream with an error', async () => {
+    const q = query({
+      prompt: 'test',
+      options: {
+        transport: () => new SocketTransport({ path: join(tmpdir(), 'no-such-claude.sock') }),
+      },
+    });
+
+    await expect(q.next()).rejects.toThrow(/ENOENT|ECONNREFUSED/);
+  }, 15000);
+});
@@ -0,0 +1,105 @@
+/**
+ * Unit tests for q.stats()
+ *
+ * StatsCollector and ControlProtocolHandler are fed synthetic input; the
+ * Query-level test runs against capture-cli. No API calls.
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { query } from '../../src/api/query.ts';
+import { ControlProtocolHandler } from '../../src/core/control.ts';
+import { StatsCollector } from '../../src/core/stats.ts';
+import type { ControlRequest } from '../../src/types/control.ts';
+import type { ExtendedQuery, SDKMessage } from '../../src/types/index.ts';
+
+const CAPTURE_CLI = './src/tools/capture-cli.cjs';
+
+describe('StatsCollector', () => {
+  test('summarizes latencies by key', () => {
+    const stats = new StatsCollector();
+    stats.controlRoundTrip('set_model', 10);
+    stats.controlRoundTrip('set_model', 30);
+    stats.controlRoundTrip('interrupt', 5);
+
+    const { controlRequests, canUseTool } = stats.snapshot(0);
+    expect(controlRequests.set_model).toEqual({
+      count: 2,
+      totalMs: 40,
+      minMs: 10,
+      maxMs: 30,
+      meanMs: 20,
+    });
+    expect(controlRequests.interrupt.count).toBe(1);
+    expect(canUseTool).toEqual({ count: 0, totalMs: 0, minMs: 0, maxMs: 0, meanMs: 0 });
+  });
+
+  test('times turns and the first assistant output', () => {
+    const stats = new StatsCollector();
+    stats.observe({ type: 'assistant' } as SDKMessage);
+    expect(stats.snapshot(0).timeToFirstTokenMs).toBeNull();
+
+    stats.turnStarted();
+    stats.turnStarted();
+    stats.observe({ type: 'assistant' } as SDKMessage);
+    stats.observe({ type: 'result' } as SDKMessage);
+
+    const snapshot = stats.snapshot(3);
+    expect(snapshot.timeToFirstTokenMs).toBeGreaterThanOrEqual(0);
+    expect(snapshot.turnDurationsMs).toHaveLength(1);
+    expect(snapshot.queueDepth).toBe(3);
+  });
+
+  test('ControlProtocolHandler reports callback durations', async () => {
+    const stats = new StatsCollector();
+    const handler = new ControlProtocolHandler(
+      { write: () => {} },
+      { canUseTool: async () => ({ behavior: 'allow', updatedInput: {} }) },
+      stats
+    );
+    handler.registerCallback('hook_0', async () => ({ continue: true }));
+
+    await handler.handleControlRequest({
+      type: 'control_request',
+      request_id: 'r1',
+      request: { subtype: 'can_use_tool', tool_name: 'Bash', input: {}, tool_use_id: 't1' },
+    } as ControlRequest);
+    await handler.handleControlRequest({
+      type: 'control_request',
+      request_id: 'r2',
+      request: {
+        subtype: 'hook_callback',
+        callback_id: 'hook_0',
+        input: { hook_event_name: 'PreToolUse' },
+      },
+    } as ControlRequest);
+
+    const snapshot = stats.snapshot(0);
+    expect(snapshot.canUseTool.count).toBe(1);
+    expect(Object.keys(snapshot.hooks)).toEqual(['PreToolUse']);
+  });
+});
+
+describe('Query stats()', () => {
+  test('counts traffic, init time, turns and control round trips', async () => {
+    const q = query({
+      prompt: 'test',
+      options: { pathToClaudeCodeExecutable: CAPTURE_CLI, settingSources: [] },
+    }) as ExtendedQuery;
+
+    await q.setModel('opus');
+    for await (const _ of q) {
+      // drain
+    }
+
+    const stats = q.stats();
+    // init + prompt + set_model
+    expect(stats.messagesOut).toBe(3);
+    // system, result and two control responses
+    expect(stats.messagesIn).toBe(4);
+    expect(stats.bytesIn).toBeGreaterThan(0);
+    expect(stats.timeToInitMs).not.toBeNull();
+    expect(stats.turnDurationsMs).toHaveLength(1);
+    expect(stats.controlRequests.set_model.count).toBe(1);
+    expect(stats.queueDepth).toBe(0);
+  }, 15000);
+});
@@ -0,0 +1,167 @@
+/**
+ * Unit tests for validateOptions()
+ *
+ * Diagnostics are checked directly; the query() tests never reach a CLI
+ * because validation throws first. No API calls.
+ */
+
+import { describe, expect, spyOn, test } from 'bun:test';
+import { query } from '../../src/api/query.ts';
+import { CliNotFoundError, OptionsValidationError } from '../../src/errors.ts';
+import { createPermissionStore } from '../../src/permissions.ts';
+import type { ExtendedOptions, HookCallback, OptionsDiagnostic } from '../../src/types/index.ts';
+import { validateOptions } from '../../src/validation.ts';
+
+const hook: HookCallback = async () => ({ continue: true });
+
+function codes(options: ExtendedOptions, strict = false): string[] {
+  return validateOptions(options, { strict }).map((d) => d.code);
+}
+
+describe('validateOptions', () => {
+  test('accepts ordinary options', () => {
+    expect(
+      validateOptions({
+        model: 'sonnet',
+        maxTurns: 3,
+        permissionMode: 'acceptEdits',
+        hooks: { PreToolUse: [{ hooks: [hook] }] },
+        _testCliArgs: [],
+      } as ExtendedOptions)
+    ).toEqual([]);
+  });
+
+  test('reports every problem at once, errors first', () => {
+    const diagnostics = validateOptions({
+      maxTurn: 3,
+      permissionMode: 'bypassPermissions',
+      maxBudgetUsd: -1,
+    } as ExtendedOptions);
+
+    expect(diagnostics.map((d) => [d.severity, d.code])).toEqual([
+      ['error', 'invalid-number'],
+      ['warning', 'unknown-option'],
+      ['warning', 'bypass-without-allow'],
+    ]);
+    expect(diagnostics[1].message).toBe("Unknown option 'maxTurn' (did you mean 'maxTurns'?)");
+  });
+
+  test('rejects unknown permission modes', () => {
+    expect(codes({ permissionMode: 'yolo' as ExtendedOptions['permissionMode'] })).toEqual([
+      'invalid-permission-mode',
+    ]);
+  });
+
+  test('warns that canUseTool never fires in bypass mode', () => {
+    expect(
+      codes({
+        permissionMode: 'bypassPermissions',
+        allowDangerouslySkipPermissions: true,
+        canUseTool: async () => ({ behavior: 'allow', updatedInput: {} }),
+      })
+    ).toEqual(['can-use-tool-bypassed']);
+  });
+
+  test('warns that permissionStore needs canUseTool', () => {
+    expect(codes({ permissionStore: { store: createPermissionStore() } })).toEqual([
+      'permission-store-without-callback',
+    ]);
+  });
+
+  test('flags hook events that do not exist', () => {
+    const [diagnostic] = validateOptions({
+      hooks: { PreToolUsee: [{ hooks: [hook] }] } as ExtendedOptions['hooks'],
+    });
+    expect(diagnostic.code).toBe('unknown-hook-event');
+    expect(diagnostic.option).toBe('hooks.PreToolUsee');
+    expect(diagnostic.message).toContain("did you mean 'PreToolUse'?");
+  });
+
+  test('warns when sandbox would overwrite malformed settings JSON', () => {
+    expect(codes({ sandbox: { enabled: true }, extraArgs: { settings: '{"model":' } })).toEqual([
+      'settings-overwritten',
+    ]);
+    expect(codes({ sandbox: { enabled: true }, extraArgs: { settings: '{"model":"x"}' } })).toEqual(
+      []
+    );
+  });
+
+  test('rejects MCP server names and instances that collide', () => {
+    const instance = {};
+    const diagnostics = validateOptions({
+      mcpServers: {
+        'my.tools': { type: 'sdk', name: 'a', instance },
+        my_tools: { type: 'sdk', name: 'b', instance },
+      } as unknown as ExtendedOptions['mcpServers'],
+    });
+    expect(diagnostics.map((d) => d.code).sort()).toEqual([
+      'mcp-instance-shared',
+      'mcp-name-collision',
+    ]);
+  });
+
+  test('strict mode turns warnings into errors', () => {
+    const options = { assemblePartialMessages: true };
+    expect(validateOptions(options)[0].severity).toBe('warning');
+    expect(validateOptions(options, { strict: true })[0].severity).toBe('error');
+  });
+});
+
+describe('query() option validation', () => {
+  test('throws OptionsValidationError before spawning', () => {
+    expect(() => query({ prompt: 'test', options: { maxBudgetUsd: -1 } })).toThrow(
+      OptionsValidationError
+    );
+  });
+
+  test('passes warnings to onWarning instead of the console', () => {
+    const warn = spyOn(console, 'warn').mockImplementation(() => {});
+    const warnings: OptionsDiagnostic[] = [];
+    try {
+      expect(() =>
+        query({
+          prompt: 'test',
+          options: {
+            permissionMode: 'bypassPermissions',
+            pathToClaudeCodeExecutable: '/nonexistent/claude',
+            onWarning: (warning) => warnings.push(warning),
+          },
+        })
+      ).toThrow(CliNotFoundError);
+
+      expect(warnings.map((w) => w.code)).toEqual(['bypass-without-allow']);
+      expect(warn).not.toHaveBeenCalled();
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  test('strict mode throws on warnings', () => {
+    try {
+      query({
+        prompt: 'test',
+        options: { optionsValidation: 'strict', maxTurn: 3 } as ExtendedOptions,
+      });
+      throw new Error('expected query() to throw');
+    } catch (error) {
+      expect(error).toBeInstanceOf(OptionsValidationError);
+      expect((error as OptionsValidationError).diagnostics.map((d) => d.code)).toEqual([
+        'unknown-option',
+      ]);
+    }
+  });
+
+  test("'off' skips validation", () => {
+    // Gets as far as looking for the CLI instead of rejecting maxBudgetUsd
+    expect(() =>
+      query({
+        prompt: 'test',
+        options: {
+          optionsValidation: 'off',
+          maxBudgetUsd: -1,
+          pathToClaudeCodeExecutable: '/nonexistent/claude',
+        },
+      })
+    ).toThrow(CliNotFoundError);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Unit tests for the timeoutMs / idleTimeoutMs watchdog
+ *
+ * Fake bash CLIs go silent mid-turn; capture-cli is the well-behaved case.
+ * No API calls.
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { unlinkSync, writeFileSync } from 'node:fs';
+import { query } from '../../src/api/query.ts';
+import { QueryTimeoutError } from '../../src/errors.ts';
+import type { ExtendedOptions } from '../../src/types/index.ts';
+
+const CAPTURE_CLI = './src/tools/capture-cli.cjs';
+
+function createTempScript(content: string): string {
+  const path = `/tmp/fake-cli-${Date.now()}-${Math.random().toString(36).slice(2)}.sh`;
+  writeFileSync(path, `#!/bin/bash\n${content}`, { mode: 0o755 });
+  return path;
+}
+
+/** Starts a Bash tool call, then never says anything again */
+const STALLED_TOOL_CLI = `
+echo '{"type":"system","subtype":"init","session_id":"stall","tools":[],"mcp_servers":[]}'
+echo '{"type":"assistant","message":{"role":"assistant","content":[{"type":"tool_use","id":"toolu_1","name":"Bash","input":{}}]},"parent_tool_use_id":null,"session_id":"stall"}'
+exec sleep 30
+`;
+
+/** Asks for permission, then finishes the turn once the SDK has answered */
+const PERMISSION_CLI = `
+echo '{"type":"system","subtype":"init","session_id":"perm","tools":[],"mcp_servers":[]}'
+echo '{"type":"control_request","request_id":"perm-1","request":{"subtype":"can_use_tool","tool_name":"Bash","input":{"command":"ls"},"tool_use_id":"toolu_1"}}'
+while read -r line; do
+  case "$line" in *'"perm-1"'*) break ;; esac
+done
+echo '{"type":"result","subtype":"success","result":"ok","total_cost_usd":0,"usage":{},"session_id":"perm"}'
+`;
+
+async function drain(options: ExtendedOptions): Promise<unknown> {
+  try {
+    for await (const _ of query({ prompt: 'test', options })) {
+      // drain
+    }
+    return null;
+  } catch (error) {
+    return error;
+  }
+}
+
+describe('watchdog', () => {
+  test('idleTimeoutMs fails a stalled turn and names the tool in flight', async () => {
+    const script = createTempScript(STALLED_TOOL_CLI);
+    try {
+      const started = Date.now();
+      const error = await drain({
+        pathToClaudeCodeExecutable: script,
+        settingSources: [],
+        idleTimeoutMs: 200,
+      });
+
+      expect(error).toBeInstanceOf(QueryTimeoutError);
+      const timeout = error as QueryTimeoutError;
+      expect(timeout.kind).toBe('idle');
+      expect(timeout.pending).toContain('tool Bash (toolu_1)');
+      expect(timeout.pending).toContain('control request initialize');
+      expect(timeout.message).toContain('no output from the CLI for 200ms');
+      // Trip plus the interrupt grace period
+      expect(Date.now() - started).toBeLessThan(3000);
+    } finally {
+      unlinkSync(script);
+    }
+  }, 15000);
+
+  test('timeoutMs bounds the whole query', async () => {
+    const script = createTempScript(STALLED_TOOL_CLI);
+    try {
+      const error = await drain({
+        pathToClaudeCodeExecutable: script,
+        settingSources: [],
+        timeoutMs: 300,
+      });
+
+      expect(error).toBeInstanceOf(QueryTimeoutError);
+      expect((error as QueryTimeoutError).kind).toBe('timeout');
+      expect((error as QueryTimeoutError).message).toMatch(/^Query timed out after 300ms/);
+    } finally {
+      unlinkSync(script);
+    }
+  }, 15000);
+
+  test('the idle clock stops while a callback is answering the CLI', async () => {
+    const script = createTempScript(PERMISSION_CLI);
+    try {
+      const error = await drain({
+        pathToClaudeCodeExecutable: script,
+        settingSources: [],
+        idleTimeoutMs: 150,
+        // A person taking longer than the idle timeout to decide
+        canUseTool: async (_tool, input) => {
+          await new Promise((resolve) => setTimeout(resolve, 500));
+          return { behavior: 'allow', updatedInput: input };
+        },
+      });
+
+      expect(error).toBeNull();
+    } finally {
+      unlinkSync(script);
+    }
+  }, 15000);
+
+  test('a query that keeps making progress is left alone', async () => {
+    const error = await drain({
+      pathToClaudeCodeExecutable: CAPTURE_CLI,
+      settingSources: [],
+      idleTimeoutMs: 2000,
+      timeoutMs: 10000,
+    });
+
+    expect(error).toBeNull();
+  }, 15000);
+});